@@ -0,0 +1,294 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  WRITES_IDX_MAP,
+  copyCheckpoint,
+  getCheckpointId,
+  type ChannelVersions,
+  type Checkpoint,
+  type CheckpointListOptions,
+  type CheckpointMetadata,
+  type CheckpointPendingWrite,
+  type CheckpointTuple,
+  type PendingWrite,
+} from "@langchain/langgraph-checkpoint";
+import { DataSource, LessThan, type FindOptionsWhere } from "typeorm";
+import { AgentCheckpoint } from "../entities/AgentCheckpoint";
+import { AgentCheckpointWrite } from "../entities/AgentCheckpointWrite";
+
+/**
+ * LangGraph checkpointer backed by the app's TypeORM data source.
+ * The LangGraph thread_id is the Chat id, so checkpoints are removed together with the chat.
+ */
+export class TypeORMCheckpointSaver extends BaseCheckpointSaver {
+  constructor(private readonly dataSource: DataSource) {
+    super();
+  }
+
+  private get checkpointRepository() {
+    return this.dataSource.getRepository(AgentCheckpoint);
+  }
+
+  private get writeRepository() {
+    return this.dataSource.getRepository(AgentCheckpointWrite);
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const chatId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = getCheckpointId(config);
+
+    if (!chatId) {
+      return undefined;
+    }
+
+    const row = await this.checkpointRepository.findOne({
+      where: checkpointId
+        ? { chatId, checkpointNs, checkpointId }
+        : { chatId, checkpointNs },
+      order: { checkpointId: "DESC" },
+    });
+
+    if (!row) {
+      return undefined;
+    }
+
+    return this.toTuple(row);
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions
+  ): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {};
+    let limit = options?.limit;
+
+    const where: FindOptionsWhere<AgentCheckpoint> = {};
+    if (config.configurable?.thread_id) {
+      where.chatId = config.configurable.thread_id;
+    }
+    if (config.configurable?.checkpoint_ns !== undefined) {
+      where.checkpointNs = config.configurable.checkpoint_ns;
+    }
+    if (config.configurable?.checkpoint_id) {
+      where.checkpointId = config.configurable.checkpoint_id;
+    } else if (before?.configurable?.checkpoint_id) {
+      where.checkpointId = LessThan(before.configurable.checkpoint_id);
+    }
+
+    const rows = await this.checkpointRepository.find({
+      where,
+      order: { checkpointId: "DESC" },
+    });
+
+    for (const row of rows) {
+      if (limit !== undefined && limit <= 0) {
+        break;
+      }
+
+      const metadata = await this.serde.loadsTyped(row.type, row.metadata);
+      if (filter && !Object.entries(filter).every(([key, value]) => metadata[key] === value)) {
+        continue;
+      }
+
+      if (limit !== undefined) {
+        limit -= 1;
+      }
+
+      yield this.toTuple(row);
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const chatId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+
+    if (!chatId) {
+      throw new Error(
+        'Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.'
+      );
+    }
+
+    const [[type, serializedCheckpoint], [, serializedMetadata]] = await Promise.all([
+      this.serde.dumpsTyped(copyCheckpoint(checkpoint)),
+      this.serde.dumpsTyped(metadata),
+    ]);
+
+    await this.checkpointRepository.upsert(
+      {
+        chatId,
+        checkpointNs,
+        checkpointId: checkpoint.id,
+        parentCheckpointId: config.configurable?.checkpoint_id ?? null,
+        type,
+        checkpoint: Buffer.from(serializedCheckpoint),
+        metadata: Buffer.from(serializedMetadata),
+      },
+      ["chatId", "checkpointNs", "checkpointId"]
+    );
+
+    return {
+      configurable: {
+        thread_id: chatId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const chatId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+
+    if (!chatId || !checkpointId) {
+      throw new Error(
+        'Failed to put writes. The passed RunnableConfig is missing a required "thread_id" or "checkpoint_id" field in its "configurable" property.'
+      );
+    }
+
+    const rows = await Promise.all(
+      writes.map(async ([channel, value], index) => {
+        const [type, serializedValue] = await this.serde.dumpsTyped(value);
+        return {
+          chatId,
+          checkpointNs,
+          checkpointId,
+          taskId,
+          idx: WRITES_IDX_MAP[channel] ?? index,
+          channel,
+          type,
+          value: Buffer.from(serializedValue),
+        };
+      })
+    );
+
+    // Special writes (negative idx, e.g. errors/interrupts) replace earlier ones;
+    // regular writes are only stored once per task/idx.
+    const specialWrites = rows.filter((row) => row.idx < 0);
+    const regularWrites = rows.filter((row) => row.idx >= 0);
+
+    if (specialWrites.length > 0) {
+      await this.writeRepository.upsert(specialWrites, [
+        "chatId",
+        "checkpointNs",
+        "checkpointId",
+        "taskId",
+        "idx",
+      ]);
+    }
+
+    if (regularWrites.length > 0) {
+      await this.writeRepository
+        .createQueryBuilder()
+        .insert()
+        .values(regularWrites)
+        .orIgnore()
+        .execute();
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.writeRepository.delete({ chatId: threadId });
+    await this.checkpointRepository.delete({ chatId: threadId });
+  }
+
+  /**
+   * Deserializes a stored checkpoint row together with its pending writes
+   */
+  private async toTuple(row: AgentCheckpoint): Promise<CheckpointTuple> {
+    const writes = await this.writeRepository.find({
+      where: {
+        chatId: row.chatId,
+        checkpointNs: row.checkpointNs,
+        checkpointId: row.checkpointId,
+      },
+      order: { taskId: "ASC", idx: "ASC" },
+    });
+
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writes.map(async (write): Promise<CheckpointPendingWrite> => [
+        write.taskId,
+        write.channel,
+        await this.serde.loadsTyped(write.type, write.value),
+      ])
+    );
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: row.chatId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.checkpointId,
+        },
+      },
+      checkpoint: await this.serde.loadsTyped(row.type, row.checkpoint),
+      metadata: await this.serde.loadsTyped(row.type, row.metadata),
+      pendingWrites,
+    };
+
+    if (row.parentCheckpointId) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: row.chatId,
+          checkpoint_ns: row.checkpointNs,
+          checkpoint_id: row.parentCheckpointId,
+        },
+      };
+    }
+
+    return tuple;
+  }
+}
+
+/**
+ * Checkpointer of a single agent run: delegates to the shared checkpointer and
+ * remembers the last checkpoint the run wrote. That checkpoint holds the state
+ * after the run, while the thread's latest checkpoint may belong to another run
+ * (e.g. a concurrent turn on another branch of the chat).
+ */
+export class RunCheckpointSaver extends BaseCheckpointSaver {
+  // Config of the last top-level checkpoint written by the run
+  lastConfig: RunnableConfig | null = null;
+
+  constructor(private readonly saver: BaseCheckpointSaver) {
+    super(saver.serde);
+  }
+
+  getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    return this.saver.getTuple(config);
+  }
+
+  list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    return this.saver.list(config, options);
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+    newVersions: ChannelVersions
+  ): Promise<RunnableConfig> {
+    const saved = await this.saver.put(config, checkpoint, metadata, newVersions);
+    if (!saved.configurable?.checkpoint_ns) {
+      this.lastConfig = saved;
+    }
+    return saved;
+  }
+
+  putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    return this.saver.putWrites(config, writes, taskId);
+  }
+
+  deleteThread(threadId: string): Promise<void> {
+    return this.saver.deleteThread(threadId);
+  }
+
+  getNextVersion(current: number | undefined): number {
+    return this.saver.getNextVersion(current);
+  }
+}
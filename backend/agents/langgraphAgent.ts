@@ -1,11 +1,21 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { StateGraph, MessagesAnnotation, START, END } from "@langchain/langgraph";
+import {
+  StateGraph,
+  MessagesAnnotation,
+  START,
+  END,
+  REMOVE_ALL_MESSAGES,
+  type LangGraphRunnableConfig,
+} from "@langchain/langgraph";
 import { ToolNode } from "@langchain/langgraph/prebuilt";
-import { AIMessage, BaseMessage, HumanMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
-import { InMemoryChatMessageHistory } from "@langchain/core/chat_history";
-import { createHubspotContactsTool } from "./tools/hubspotTool";
+import { AIMessage, BaseMessage, HumanMessage, RemoveMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
+import { createHubspotSearchTool } from "./tools/hubspotTool";
 import { createNotionSearchTool } from "./tools/notionTool";
 import { createGmailSearchTool } from "./tools/gmailTool";
+import { TurnSources } from "./tools/turnSources";
+import { RunCheckpointSaver, TypeORMCheckpointSaver } from "./checkpointer";
+import { createChatModel } from "../llm";
+import { AppDataSource } from "../data-source";
+import { getBranchMessages } from "../utils/chatBranches";
 
 // System prompt for the agent
 const SYSTEM_PROMPT = `You are a helpful AI assistant that helps users find and understand information from their connected services (Notion, Gmail, and HubSpot).
@@ -17,7 +27,7 @@ const SYSTEM_PROMPT = `You are a helpful AI assistant that helps users find and
 2. **Use the Tools**: When users ask about their data, use the appropriate tools to search:
    - Use search_notion for questions about notes, documents, or Notion content
    - Use search_gmail for questions about emails or messages
-   - Use get_hubspot_contacts for questions about contacts, customers, or leads
+   - Use search_hubspot for questions about contacts, customers, leads, companies, deals, or CRM notes
 
 3. **Synthesize Information**: After retrieving data, summarize the key findings clearly. Don't just dump raw data.
 
@@ -32,230 +42,295 @@ const SYSTEM_PROMPT = `You are a helpful AI assistant that helps users find and
 
 7. **Handle Errors Gracefully**: If a service isn't connected, inform the user and suggest connecting it.
 
-8. **Stay Focused**: Only answer questions based on the user's connected data. Don't make up information.`;
+8. **Stay Focused**: Only answer questions based on the user's connected data. Don't make up information.
+
+9. **Cite Your Sources**: Every search result has a "source" number. Put it in square brackets right after the claim it supports, e.g. "The invoice is due Friday [2]." Use one marker per source ([1][3], not [1, 3]) and only numbers returned by the tools in this turn.`;
 
 // Citation types
 export interface Citation {
+  // Number the answer cites the source with, as an inline [n] marker
+  number: number;
   tool: "notion" | "gmail" | "hubspot";
+  // Id of the cited item in its source: Gmail message, Notion page or HubSpot record
+  sourceId: string;
   title: string;
   subtitle?: string;
+  // Filename when the cited passage comes from an email attachment
+  attachment?: string;
+  // Opens the item in Gmail, Notion or HubSpot (null when no link can be built)
+  url: string | null;
+  // Matched text the answer drew on
+  snippet: string;
+  // Relevance score of the best matching result
+  score: number;
+}
+
+// One tool call made by the agent, reported while it runs and once it finished
+export interface ToolStep {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  status: "running" | "completed" | "failed";
+  startedAt: string;
+  durationMs?: number;
+  resultCount?: number;
+  error?: string;
 }
 
 export interface AgentResponse {
   content: string;
   citations: Citation[];
+  toolSteps: ToolStep[];
+  // True when the run was aborted; content is then the partial answer
+  cancelled: boolean;
+  // Checkpoint holding the agent state after this turn (stored with the reply)
+  checkpointId: string | null;
 }
 
-// In-memory store for chat histories (keyed by conversationId)
-const chatHistoryStore = new Map<string, InMemoryChatMessageHistory>();
+export interface AgentRunOptions {
+  onToolStep?: (step: ToolStep) => void;
+  signal?: AbortSignal;
+}
 
-// Track which conversations have been initialized from DB
-const initializedConversations = new Set<string>();
+// Durable LangGraph memory: full graph state per chat (thread_id === chatId)
+const checkpointer = new TypeORMCheckpointSaver(AppDataSource);
 
 /**
- * Get or create chat history for a conversation
+ * Where a turn replying after `parentMessageId` starts: the checkpoint stored
+ * with that message, or the branch rebuilt from the stored messages when there
+ * is none (first message, or messages saved before agent memory was persisted)
  */
-function getChatHistory(conversationId: string): InMemoryChatMessageHistory {
-  if (!chatHistoryStore.has(conversationId)) {
-    chatHistoryStore.set(conversationId, new InMemoryChatMessageHistory());
+async function resolveTurnStart(
+  conversationId: string,
+  parentMessageId: string | null
+): Promise<{ checkpointId: string } | { history: BaseMessage[] }> {
+  const branch = await getBranchMessages(conversationId, parentMessageId);
+  const parent = branch[branch.length - 1];
+
+  if (parent?.checkpointId) {
+    return { checkpointId: parent.checkpointId };
   }
-  return chatHistoryStore.get(conversationId)!;
+
+  return {
+    history: branch.map((msg) =>
+      msg.role === "user"
+        ? new HumanMessage(msg.content)
+        : new AIMessage(msg.content || "(Response cancelled by the user)")
+    ),
+  };
 }
 
 /**
- * Clear chat history for a conversation (can be called when user starts a new chat)
+ * Clear the persisted agent memory for a conversation
  */
-export function clearChatHistory(conversationId: string): void {
-  chatHistoryStore.delete(conversationId);
-  initializedConversations.delete(conversationId);
+export async function clearChatHistory(conversationId: string): Promise<void> {
+  await checkpointer.deleteThread(conversationId);
 }
 
 /**
- * Initialize chat history from database messages
- * This should be called when loading an existing conversation
+ * Tool arguments from an on_tool_start event (ToolNode passes them as a JSON string)
  */
-export async function initializeChatHistoryFromDB(
-  conversationId: string,
-  messages: Array<{ content: string; role: "user" | "assistant" }>
-): Promise<void> {
-  // Skip if already initialized
-  if (initializedConversations.has(conversationId)) {
-    return;
-  }
-
-  // Clear any existing history for this conversation
-  chatHistoryStore.delete(conversationId);
-  
-  // Create new history and populate with messages
-  const chatHistory = new InMemoryChatMessageHistory();
-  
-  for (const msg of messages) {
-    if (msg.role === "user") {
-      await chatHistory.addMessage(new HumanMessage(msg.content));
-    } else {
-      await chatHistory.addMessage(new AIMessage(msg.content));
+function parseToolInput(input: any): Record<string, unknown> {
+  const raw = input?.input ?? input;
+  if (typeof raw === "string") {
+    try {
+      const parsed = JSON.parse(raw);
+      return parsed && typeof parsed === "object" ? parsed : { input: raw };
+    } catch {
+      return { input: raw };
     }
   }
-  
-  chatHistoryStore.set(conversationId, chatHistory);
-  initializedConversations.add(conversationId);
-  
-//   console.log(`Initialized chat history for conversation ${conversationId} with ${messages.length} messages`);
+  return raw && typeof raw === "object" ? raw : {};
 }
 
 /**
- * Check if a conversation's history has been initialized
+ * Text content of a tool result (ToolNode wraps it in a ToolMessage)
  */
-export function isConversationInitialized(conversationId: string): boolean {
-  return initializedConversations.has(conversationId);
+function toolOutputText(output: any): string {
+  if (ToolMessage.isInstance(output)) {
+    return typeof output.content === "string" ? output.content : JSON.stringify(output.content);
+  }
+  return typeof output === "string" ? output : JSON.stringify(output);
 }
 
 /**
- * Parse tool results to extract citations
+ * Result count or error reported by one of the search tools
  */
-function extractCitationsFromToolResult(toolName: string, result: string): Citation[] {
-  const citations: Citation[] = [];
-  const toolNameLower = toolName.toLowerCase();
-  
+function summarizeToolResult(output: any): Pick<ToolStep, "status" | "resultCount" | "error"> {
+  if (ToolMessage.isInstance(output) && output.status === "error") {
+    return { status: "failed", error: toolOutputText(output) };
+  }
+
   try {
-    const parsed = JSON.parse(result);
-    
+    const parsed = JSON.parse(toolOutputText(output));
     if (parsed.error) {
-      return citations; // No citations for error responses
+      return { status: "failed", error: String(parsed.error) };
     }
-    
-    // Check for Notion results
-    const isNotion = toolNameLower.includes("notion") || toolNameLower === "search_notion";
-    if (isNotion && parsed.results) {
-      const seenTitles = new Set<string>();
-      for (const item of parsed.results) {
-        if (item.pageTitle && !seenTitles.has(item.pageTitle)) {
-          seenTitles.add(item.pageTitle);
-          citations.push({
-            tool: "notion",
-            title: item.pageTitle,
-          });
-        }
-      }
-    }
-    
-    // Check for Gmail results
-    const isGmail = toolNameLower.includes("gmail") || toolNameLower === "search_gmail";
-    if (isGmail && parsed.results) {
-      const seenSubjects = new Set<string>();
-      for (const item of parsed.results) {
-        const key = `${item.subject}-${item.from}`;
-        if (item.subject && !seenSubjects.has(key)) {
-          seenSubjects.add(key);
-          citations.push({
-            tool: "gmail",
-            title: item.subject,
-            subtitle: `From: ${item.from}`,
-          });
-        }
-      }
+    if (typeof parsed.resultsCount === "number") {
+      return { status: "completed", resultCount: parsed.resultsCount };
     }
-    
-    // Check for HubSpot results
-    const isHubspot = toolNameLower.includes("hubspot") || toolNameLower === "get_hubspot_contacts";
-    if (isHubspot && parsed.contacts) {
-      const contactCount = parsed.total || parsed.contacts.length;
-      if (contactCount > 0) {
-        citations.push({
-          tool: "hubspot",
-          title: `${contactCount} contact${contactCount > 1 ? "s" : ""} found`,
-          subtitle: parsed.contacts.slice(0, 3).map((c: any) => 
-            `${c.firstName} ${c.lastName}`.trim()
-          ).join(", ") + (contactCount > 3 ? "..." : ""),
-        });
-      }
+    if (Array.isArray(parsed.results)) {
+      return { status: "completed", resultCount: parsed.results.length };
     }
-    
-    // Fallback: Try to detect from result structure if tool name is missing
-    if (!isNotion && !isGmail && !isHubspot) {
-      if (parsed.results && parsed.results[0]?.pageTitle) {
-        // Looks like Notion results
-        const seenTitles = new Set<string>();
-        for (const item of parsed.results) {
-          if (item.pageTitle && !seenTitles.has(item.pageTitle)) {
-            seenTitles.add(item.pageTitle);
-            citations.push({
-              tool: "notion",
-              title: item.pageTitle,
-            });
-          }
+  } catch {
+    // Not JSON: nothing to count
+  }
+  return { status: "completed" };
+}
+
+const SNIPPET_LENGTH = 280;
+
+/**
+ * Matched text of a search result, shortened for a citation preview
+ */
+function toSnippet(content: unknown): string {
+  const text = String(content ?? "").replace(/\s+/g, " ").trim();
+  return text.length > SNIPPET_LENGTH ? `${text.substring(0, SNIPPET_LENGTH)}...` : text;
+}
+
+// Search result item -> citation, per source (results without a source number or title are skipped)
+const citationBuilders: Record<Citation["tool"], (item: any) => Citation | null> = {
+  gmail: (item) =>
+    item.source && item.subject
+      ? {
+          number: Number(item.source),
+          tool: "gmail",
+          sourceId: String(
+            item.attachment ? `${item.emailId}/${item.attachment}` : item.emailId || `${item.subject}-${item.from}`
+          ),
+          title: item.subject,
+          subtitle: `From: ${item.from}`,
+          ...(item.attachment && { attachment: String(item.attachment) }),
+          url: item.url || null,
+          snippet: toSnippet(item.content),
+          score: Number(item.relevanceScore) || 0,
         }
-      } else if (parsed.results && parsed.results[0]?.subject) {
-        // Looks like Gmail results
-        const seenSubjects = new Set<string>();
-        for (const item of parsed.results) {
-          const key = `${item.subject}-${item.from}`;
-          if (item.subject && !seenSubjects.has(key)) {
-            seenSubjects.add(key);
-            citations.push({
-              tool: "gmail",
-              title: item.subject,
-              subtitle: `From: ${item.from}`,
-            });
-          }
+      : null,
+  notion: (item) =>
+    item.source && item.pageTitle
+      ? {
+          number: Number(item.source),
+          tool: "notion",
+          sourceId: String(item.pageId || item.pageTitle),
+          title: item.pageTitle,
+          ...((item.section || item.database) && { subtitle: String(item.section || item.database) }),
+          url: item.url || null,
+          snippet: toSnippet(item.content),
+          score: Number(item.relevanceScore) || 0,
         }
-      } else if (parsed.contacts) {
-        // Looks like HubSpot results
-        const contactCount = parsed.total || parsed.contacts.length;
-        if (contactCount > 0) {
-          citations.push({
-            tool: "hubspot",
-            title: `${contactCount} contact${contactCount > 1 ? "s" : ""} found`,
-            subtitle: parsed.contacts.slice(0, 3).map((c: any) => 
-              `${c.firstName} ${c.lastName}`.trim()
-            ).join(", ") + (contactCount > 3 ? "..." : ""),
-          });
+      : null,
+  hubspot: (item) =>
+    item.source && item.title
+      ? {
+          number: Number(item.source),
+          tool: "hubspot",
+          sourceId: String(item.objectId || `${item.objectType}:${item.title}`),
+          title: item.title,
+          ...(item.objectType && {
+            subtitle: item.objectType.charAt(0).toUpperCase() + item.objectType.slice(1),
+          }),
+          url: item.url || null,
+          snippet: toSnippet(item.content),
+          score: Number(item.relevanceScore) || 0,
         }
-      }
-    }
+      : null,
+};
+
+/**
+ * Source of a search tool result, from the tool name or else from the shape of its results
+ */
+function detectCitationTool(toolName: string, firstResult: any): Citation["tool"] | null {
+  const toolNameLower = toolName.toLowerCase();
+  if (toolNameLower.includes("notion")) return "notion";
+  if (toolNameLower.includes("gmail")) return "gmail";
+  if (toolNameLower.includes("hubspot")) return "hubspot";
+
+  if (firstResult?.pageTitle) return "notion";
+  if (firstResult?.subject) return "gmail";
+  if (firstResult?.objectType) return "hubspot";
+  return null;
+}
+
+/**
+ * Parse tool results to extract citations
+ */
+function extractCitationsFromToolResult(toolName: string, result: string): Citation[] {
+  try {
+    const parsed = JSON.parse(result);
+
+    // No citations for error responses
+    if (parsed.error || !Array.isArray(parsed.results)) return [];
+
+    const tool = detectCitationTool(toolName, parsed.results[0]);
+    if (!tool) return [];
+
+    return parsed.results
+      .map(citationBuilders[tool])
+      .filter((citation: Citation | null): citation is Citation => citation !== null);
   } catch (e) {
     // Failed to parse tool result for citations
+    return [];
   }
-  
-  return citations;
+}
+
+const CITATION_MARKER = /( ?)\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+/**
+ * Keeps only the [n] markers that refer to a source the tools returned during
+ * the turn; groups such as [1, 3] are written as [1][3]
+ */
+export function validateCitationMarkers(content: string, citations: Citation[]): string {
+  const knownNumbers = new Set(citations.map((citation) => citation.number));
+
+  return content.replace(CITATION_MARKER, (_match, space: string, group: string) => {
+    const numbers = group
+      .split(",")
+      .map((value) => Number(value.trim()))
+      .filter((number) => knownNumbers.has(number));
+    return numbers.length > 0 ? space + numbers.map((number) => `[${number}]`).join("") : "";
+  });
 }
 
 /**
  * Stream LangGraph agent response
  * @param userMessage - The user's message
  * @param userId - The user's ID (for tools)
- * @param conversationId - The conversation/chat ID (for history)
+ * @param conversationId - The conversation/chat ID (LangGraph thread_id for persisted memory)
+ * @param parentMessageId - Message the user message follows on its branch (null for the first message)
  * @param onToken - Callback function called for each token
- * @returns The complete response with citations
+ * @param options.onToolStep - Callback function called when a tool call starts and when it ends
+ * @param options.signal - Aborts the run (model request, tool calls and graph loop); the partial answer is returned
+ * @returns The complete response with citations and the tool calls that were made
  */
 export async function runLangGraphAgentStreaming(
   userMessage: string,
   userId: string,
   conversationId: string,
-  onToken: (token: string) => void
+  parentMessageId: string | null,
+  onToken: (token: string) => void,
+  options: AgentRunOptions = {}
 ): Promise<AgentResponse> {
+  const { onToolStep = () => {}, signal } = options;
   // Track citations from tool usage
   const allCitations: Citation[] = [];
-  // Initialize the model with streaming enabled
-  const model = new ChatOpenAI({
-    modelName: "gpt-4.1-mini",
-    temperature: 0.7,
-    openAIApiKey: process.env.OPENAI_API_KEY,
-    streaming: true,
-  });
-
-  // Create tools for this user
-  const hubspotTool = createHubspotContactsTool(userId);
-  const notionTool = createNotionSearchTool(userId);
-  const gmailTool = createGmailSearchTool(userId);
+  // Tool calls of this turn, keyed by run id
+  const toolSteps = new Map<string, ToolStep>();
+  // Initialize the configured chat model (streaming enabled)
+  const model = createChatModel();
+
+  // Create tools for this user (their results are numbered for inline citations)
+  const sources = new TurnSources();
+  const hubspotTool = createHubspotSearchTool(userId, sources);
+  const notionTool = createNotionSearchTool(userId, sources);
+  const gmailTool = createGmailSearchTool(userId, sources);
   const tools = [hubspotTool, notionTool, gmailTool];
 
   // Bind tools to the model
+  if (!model.bindTools) {
+    throw new Error("The configured chat model does not support tool calling");
+  }
   const modelWithTools = model.bindTools(tools);
 
-  // Get chat history for this conversation
-  const chatHistory = getChatHistory(conversationId);
-
   // Define the function that determines whether to continue or end
   function shouldContinue(state: typeof MessagesAnnotation.State): "tools" | typeof END {
     const messages = state.messages;
@@ -270,9 +345,11 @@ export async function runLangGraphAgentStreaming(
   }
 
   // Define the function that calls the model
-  async function callModel(state: typeof MessagesAnnotation.State) {
-    const messages = state.messages;
-    const response = await modelWithTools.invoke(messages);
+  // (the system prompt is not part of the persisted state, so it is prepended on every call)
+  async function callModel(state: typeof MessagesAnnotation.State, config: LangGraphRunnableConfig) {
+    const messages = [new SystemMessage(SYSTEM_PROMPT), ...state.messages];
+    // The run config carries the abort signal down to the model request
+    const response = await modelWithTools.invoke(messages, config);
     return { messages: [response] };
   }
 
@@ -284,71 +361,154 @@ export async function runLangGraphAgentStreaming(
     .addConditionalEdges("agent", shouldContinue)
     .addEdge("tools", "agent");
 
-  // Compile the graph
-  const app = workflow.compile();
-
-  // Get past messages from history
-  const pastMessages = await chatHistory.getMessages();
+  // Compile the graph with the Postgres-backed checkpointer, through a wrapper
+  // that tracks the checkpoints this run writes
+  const runCheckpointer = new RunCheckpointSaver(checkpointer);
+  const app = workflow.compile({ checkpointer: runCheckpointer });
+
+  // Branching: the run forks from the parent message's checkpoint, or replaces
+  // the thread state with the rebuilt branch history
+  const start = await resolveTurnStart(conversationId, parentMessageId);
+  const runConfig =
+    "checkpointId" in start
+      ? { configurable: { thread_id: conversationId, checkpoint_id: start.checkpointId } }
+      : { configurable: { thread_id: conversationId } };
+  const pastMessages =
+    "history" in start ? [new RemoveMessage({ id: REMOVE_ALL_MESSAGES }), ...start.history] : [];
+  // State after this run's latest step (the thread's latest checkpoint may come
+  // from another run, e.g. a concurrent turn on another branch)
+  const runStateConfig = () => runCheckpointer.lastConfig ?? runConfig;
 
-  // Add the new user message to history
   const humanMessage = new HumanMessage(userMessage);
-  await chatHistory.addMessage(humanMessage);
-
-  // Create system message
-  const systemMessage = new SystemMessage(SYSTEM_PROMPT);
 
   let fullResponse = "";
+  let cancelled = false;
 
-  // Stream the response (system message + past messages + new message)
+  // Stream the response; prior turns (including tool calls and results) come from the checkpoint
   const stream = app.streamEvents(
-    { messages: [systemMessage, ...pastMessages, humanMessage] },
-    { version: "v2" }
+    { messages: [...pastMessages, humanMessage] },
+    { ...runConfig, version: "v2", ...(signal && { signal }) }
   );
 
-  for await (const event of stream) {
-    // Handle chat model stream events
-    if (event.event === "on_chat_model_stream" && event.data?.chunk?.content) {
-      const token = event.data.chunk.content;
-      if (typeof token === "string" && token.length > 0) {
-        fullResponse += token;
-        onToken(token);
+  try {
+    for await (const event of stream) {
+      // Handle chat model stream events (only the agent node's answer; a reranking
+      // model called inside a tool streams too)
+      if (
+        event.event === "on_chat_model_stream" &&
+        event.metadata?.langgraph_node === "agent" &&
+        event.data?.chunk?.content
+      ) {
+        const token = event.data.chunk.content;
+        if (typeof token === "string" && token.length > 0) {
+          fullResponse += token;
+          onToken(token);
+        }
       }
-    }
     
-    // Capture tool results for citations - check multiple event patterns
-    if (event.event === "on_tool_end") {
-      const toolName = event.name || event.metadata?.langgraph_node || "";
-      const toolResult = event.data?.output;
-      if (toolResult) {
-        const resultStr = typeof toolResult === "string" ? toolResult : JSON.stringify(toolResult);
-        const citations = extractCitationsFromToolResult(toolName, resultStr);
-        allCitations.push(...citations);
+      // Report tool calls as they start
+      if (event.event === "on_tool_start") {
+        const step: ToolStep = {
+          id: event.run_id,
+          tool: event.name,
+          args: parseToolInput(event.data?.input),
+          status: "running",
+          startedAt: new Date().toISOString(),
+        };
+        toolSteps.set(event.run_id, step);
+        onToolStep({ ...step });
       }
-    }
-    
-    // Also check for tool messages in chain end events
-    if (event.event === "on_chain_end" && event.data?.output?.messages) {
-      const messages = event.data.output.messages;
-      for (const msg of messages) {
-        if (msg.type === "tool" || msg._type === "tool") {
-          const toolName = msg.name || "";
-          const toolResult = typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content);
-          const citations = extractCitationsFromToolResult(toolName, toolResult);
+
+      // Capture tool results for citations - check multiple event patterns
+      if (event.event === "on_tool_end") {
+        const toolName = event.name || event.metadata?.langgraph_node || "";
+        const toolResult = event.data?.output;
+        if (toolResult) {
+          const citations = extractCitationsFromToolResult(toolName, toolOutputText(toolResult));
           allCitations.push(...citations);
         }
+
+        const step = toolSteps.get(event.run_id);
+        if (step) {
+          Object.assign(step, summarizeToolResult(toolResult), {
+            durationMs: Date.now() - new Date(step.startedAt).getTime(),
+          });
+          onToolStep({ ...step });
+        }
+      }
+    
+      // Also check for tool messages in chain end events
+      if (event.event === "on_chain_end" && event.data?.output?.messages) {
+        const messages = event.data.output.messages;
+        for (const msg of messages) {
+          if (msg.type === "tool" || msg._type === "tool") {
+            const toolName = msg.name || "";
+            const toolResult = typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content);
+            const citations = extractCitationsFromToolResult(toolName, toolResult);
+            allCitations.push(...citations);
+          }
+        }
+      }
+    }
+  } catch (error) {
+    // Aborting the run ends the stream with an abort error; anything else is a real failure
+    if (!signal?.aborted) {
+      throw error;
+    }
+    cancelled = true;
+
+    for (const step of toolSteps.values()) {
+      if (step.status === "running") {
+        Object.assign(step, {
+          status: "failed",
+          error: "Cancelled",
+          durationMs: Date.now() - new Date(step.startedAt).getTime(),
+        });
+      }
+    }
+
+    // Close the interrupted turn in the agent memory, so the next turn starts from a
+    // valid conversation: unanswered tool calls get a "cancelled" result and the
+    // partial answer is kept
+    try {
+      const snapshot = await app.getState(runStateConfig());
+      const messages = (snapshot.values.messages ?? []) as BaseMessage[];
+      const lastMessage = messages[messages.length - 1];
+      const turnFinished = !!lastMessage && AIMessage.isInstance(lastMessage) && !lastMessage.tool_calls?.length;
+
+      if (lastMessage && !turnFinished) {
+        const closingMessages: BaseMessage[] = [];
+        if (AIMessage.isInstance(lastMessage)) {
+          for (const toolCall of lastMessage.tool_calls ?? []) {
+            closingMessages.push(
+              new ToolMessage({
+                tool_call_id: toolCall.id ?? "",
+                name: toolCall.name,
+                content: JSON.stringify({ error: "Cancelled by the user" }),
+              })
+            );
+          }
+        }
+        closingMessages.push(new AIMessage(fullResponse || "(Response cancelled by the user)"));
+        // Forks from the run's state; the new checkpoint is recorded as the run's latest
+        await app.updateState(snapshot.config, { messages: closingMessages }, "agent");
       }
+    } catch (stateError: any) {
+      console.error("Failed to close cancelled turn:", stateError.message);
     }
   }
 
-  // If no streaming happened (e.g., tool call), get final state
-  if (!fullResponse) {
-    const finalState = await app.invoke({
-      messages: [systemMessage, ...pastMessages, humanMessage],
-    });
-    const messages = finalState.messages as BaseMessage[];
-    
+  // If no streaming happened, read the final answer from the persisted state
+  if (!fullResponse && !cancelled) {
+    const snapshot = await app.getState(runStateConfig());
+    const messages = (snapshot.values.messages ?? []) as BaseMessage[];
+
+    // Only look at messages produced during this turn
+    const turnStart = messages.map((msg) => msg instanceof HumanMessage).lastIndexOf(true);
+    const turnMessages = messages.slice(turnStart + 1);
+
     // Extract citations from tool messages
-    for (const msg of messages) {
+    for (const msg of turnMessages) {
       if (msg instanceof ToolMessage) {
         const toolName = msg.name || "";
         const toolResult = typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content);
@@ -357,30 +517,30 @@ export async function runLangGraphAgentStreaming(
       }
     }
     
-    const lastMessage = messages[messages.length - 1];
+    const lastMessage = turnMessages[turnMessages.length - 1];
     fullResponse = (lastMessage?.content as string) || "";
     onToken(fullResponse);
   }
 
-  // Add AI response to history
-  if (fullResponse) {
-    await chatHistory.addMessage(new AIMessage(fullResponse));
-  }
-
-  // Deduplicate citations
-  const uniqueCitations: Citation[] = [];
-  const seenKeys = new Set<string>();
+  // Deduplicate citations: one per source item, keeping its best score
+  const uniqueCitations = new Map<string, Citation>();
   for (const citation of allCitations) {
-    const key = `${citation.tool}:${citation.title}`;
-    if (!seenKeys.has(key)) {
-      seenKeys.add(key);
-      uniqueCitations.push(citation);
+    const key = `${citation.tool}:${citation.sourceId}`;
+    const existing = uniqueCitations.get(key);
+    if (!existing || citation.score > existing.score) {
+      uniqueCitations.set(key, citation);
     }
   }
 
+  const citations = [...uniqueCitations.values()].sort((a, b) => a.number - b.number);
+
   return {
-    content: fullResponse,
-    citations: uniqueCitations,
+    // Streamed tokens may contain markers the model made up; the stored answer does not
+    content: validateCitationMarkers(fullResponse, citations),
+    citations,
+    toolSteps: [...toolSteps.values()],
+    cancelled,
+    checkpointId: runCheckpointer.lastConfig?.configurable?.checkpoint_id ?? null,
   };
 }
 
@@ -388,7 +548,8 @@ export async function runLangGraphAgentStreaming(
 export async function runLangGraphAgent(
   userMessage: string,
   userId: string,
-  conversationId: string
+  conversationId: string,
+  parentMessageId: string | null
 ): Promise<AgentResponse> {
-  return await runLangGraphAgentStreaming(userMessage, userId, conversationId, () => {});
-}
\ No newline at end of file
+  return await runLangGraphAgentStreaming(userMessage, userId, conversationId, parentMessageId, () => {});
+}
@@ -0,0 +1,10 @@
+/**
+ * Parses a date parameter of a search tool (YYYY-MM-DD or ISO) to epoch ms
+ */
+export function parseDate(value: string, name: string): number {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid "${name}" date "${value}". Use YYYY-MM-DD.`);
+  }
+  return time;
+}
@@ -1,64 +1,133 @@
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
-import { MilvusClient } from "@zilliz/milvus2-sdk-node";
-import { OpenAIEmbeddings } from "@langchain/openai";
 import { AppDataSource } from "../../data-source";
 import { OAuthAccount } from "../../entities/OAuthAccount";
+import { getVectorStore, type FilterCondition, type VectorFilter } from "../../vectorstore";
+import { parseDate } from "./filterValues";
+import { hybridSearch } from "./hybridSearch";
+import type { TurnSources } from "./turnSources";
 
 const oauthRepository = AppDataSource.getRepository(OAuthAccount);
 
-// Initialize OpenAI embeddings for query embedding
-const embeddings = new OpenAIEmbeddings({
-  openAIApiKey: process.env.OPENAI_API_KEY,
-  modelName: "text-embedding-ada-002", // 1536 dimensions - must match stored embeddings
-});
-
-// Lazy initialization for Milvus client
-let milvusClient: MilvusClient | null = null;
-
-function getMilvusClient(): MilvusClient {
-  if (!milvusClient) {
-    let address = process.env.MILVUS_ADDRESS || "in03-e3d59000ddbccb2.serverless.aws-eu-central-1.cloud.zilliz.com";
-    address = address.replace(/^https?:\/\//, "");
-
-    milvusClient = new MilvusClient({
-      address,
-      token: `${process.env.MILVUS_USER}:${process.env.MILVUS_PASSWORD}`,
-      ssl: true,
-    });
+const vectorStore = getVectorStore("Gmail");
+
+// Emails (and their attachments) are stored in chunks: fetch this many chunk hits
+// per requested result, so collapsing them still leaves enough distinct results
+const CHUNK_HITS_PER_EMAIL = 3;
+
+/**
+ * Link that opens an email in Gmail, signed in as the connected account
+ */
+function getGmailPermalink(emailId: string, accountEmail: string | undefined): string {
+  const mailbox = accountEmail ? `?authuser=${encodeURIComponent(accountEmail)}` : "u/0/";
+  return `https://mail.google.com/mail/${mailbox}#all/${emailId}`;
+}
+
+// Structured search_gmail parameters, applied as vector store filters
+interface GmailSearchFilters {
+  from?: string | undefined;
+  after?: string | undefined;
+  before?: string | undefined;
+  label?: string | undefined;
+  hasAttachment?: boolean | undefined;
+}
+
+/**
+ * Sender filter: an exact address, a domain ("acme.com" / "@acme.com") or part of the sender's name
+ */
+function senderCondition(from: string): [string, FilterCondition] {
+  const value = from.trim().toLowerCase();
+  if (/^[^@\s]+@[^@\s]+$/.test(value)) {
+    return ["sender_address", value];
   }
-  return milvusClient;
+  if (value.startsWith("@") || /^[^@\s]+\.[a-z]{2,}$/.test(value)) {
+    return ["sender_address", { $contains: value.startsWith("@") ? value : `@${value}` }];
+  }
+  return ["sender_name", { $contains: value }];
 }
 
-const COLLECTION_NAME = "Gmail";
+/**
+ * Translates the tool's filter parameters into a filter on the email metadata
+ */
+function buildGmailFilter(userId: string, filters: GmailSearchFilters): VectorFilter {
+  const filter: VectorFilter = { user_id: userId };
+
+  if (filters.from?.trim()) {
+    const [field, condition] = senderCondition(filters.from);
+    filter[field] = condition;
+  }
+
+  if (filters.after || filters.before) {
+    filter.received_at = {
+      ...(filters.after && { $gte: parseDate(filters.after, "after") }),
+      // "before" is exclusive
+      ...(filters.before && { $lte: parseDate(filters.before, "before") - 1 }),
+    };
+  }
+
+  if (filters.label?.trim()) {
+    filter.label_names = { $has: filters.label.trim().toLowerCase() };
+  }
+
+  if (filters.hasAttachment !== undefined) {
+    filter.has_attachment = filters.hasAttachment;
+  }
+
+  return filter;
+}
 
 /**
- * Search the Gmail vector database for relevant emails
+ * Search the Gmail index for relevant emails (keyword + vector similarity)
  */
 async function searchGmailVectorDB(
   userId: string,
   query: string,
-  topK: number = 5
-): Promise<Array<{ sender: string; subject: string; content: string; score: number }>> {
-  // Generate embedding for the query
-  const queryEmbedding = await embeddings.embedQuery(query);
-
-  // Search in Zilliz
-  const searchResult = await getMilvusClient().search({
-    collection_name: COLLECTION_NAME,
-    data: [queryEmbedding],
-    filter: `user_id == "${userId}"`,
-    limit: topK,
-    output_fields: ["sender", "subject", "content", "email_id"],
+  topK: number = 5,
+  filters: GmailSearchFilters = {},
+  signal?: AbortSignal
+): Promise<
+  Array<{
+    sender: string;
+    subject: string;
+    content: string;
+    score: number;
+    emailId: string;
+    attachment: string | null;
+    receivedAt: string | null;
+    hasAttachment: boolean;
+  }>
+> {
+  // Keyword + vector search, scoped to this user
+  const chunkHits = await hybridSearch(vectorStore, query, {
+    filter: buildGmailFilter(userId, filters),
+    topK: topK * CHUNK_HITS_PER_EMAIL,
+    fields: ["subject", "sender", "attachment_filename", "content"],
+    ...(signal && { signal }),
   });
 
+  // One result per email body and per attachment: hits are ranked, so the first
+  // chunk seen is the best-matching passage
+  const seenResults = new Set<string>();
+  const hits = chunkHits
+    .filter((hit) => {
+      const key = `${hit.metadata.email_id ?? hit.id}/${hit.metadata.attachment_filename ?? ""}`;
+      if (seenResults.has(key)) return false;
+      seenResults.add(key);
+      return true;
+    })
+    .slice(0, topK);
+
   // Format results
-  const results = searchResult.results.map((hit: any) => ({
-    sender: hit.sender || "Unknown",
-    subject: hit.subject || "(No Subject)",
-    content: hit.content || "",
+  const results = hits.map((hit) => ({
+    sender: String(hit.metadata.sender || "Unknown"),
+    subject: String(hit.metadata.subject || "(No Subject)"),
+    content: String(hit.metadata.content || ""),
     score: hit.score || 0,
-    emailId: hit.email_id,
+    emailId: String(hit.metadata.email_id ?? ""),
+    attachment: hit.metadata.attachment_filename ? String(hit.metadata.attachment_filename) : null,
+    // Emails indexed before dates were stored have none (until a forced re-sync)
+    receivedAt: typeof hit.metadata.received_at === "number" ? new Date(hit.metadata.received_at).toISOString() : null,
+    hasAttachment: hit.metadata.has_attachment === true,
   }));
 
   return results;
@@ -67,18 +136,31 @@ async function searchGmailVectorDB(
 /**
  * Creates a LangChain RAG tool for searching Gmail emails
  */
-export function createGmailSearchTool(userId: string) {
+export function createGmailSearchTool(userId: string, sources: TurnSources) {
   return new DynamicStructuredTool({
     name: "search_gmail",
     description: `Search through the user's Gmail inbox to find relevant emails. 
 Use this tool when the user asks questions about their emails, messages, or conversations in Gmail.
 This searches across recent emails the user has in their connected Gmail account.
-Examples of when to use: "What emails did I get about...", "Find emails from...", "Search my inbox for...", "Any messages about...", "Who emailed me about..."`,
+Examples of when to use: "What emails did I get about...", "Find emails from...", "Search my inbox for...", "Any messages about...", "Who emailed me about..."
+Use the from, after, before, label and hasAttachment parameters for senders, dates, labels and attachments instead of putting them in the query.
+Today is ${new Date().toISOString().substring(0, 10)}; resolve relative dates such as "last week" against it.`,
     schema: z.object({
       query: z.string().describe("The search query to find relevant emails. Be specific and descriptive."),
       topK: z.number().optional().default(5).describe("Number of relevant emails to retrieve (default: 5, max: 10)"),
+      from: z
+        .string()
+        .optional()
+        .describe('Only emails from this sender: a name ("Sarah"), an address ("sarah@acme.com") or a domain ("acme.com")'),
+      after: z.string().optional().describe("Only emails received on or after this date (YYYY-MM-DD)"),
+      before: z.string().optional().describe("Only emails received before this date (YYYY-MM-DD)"),
+      label: z
+        .string()
+        .optional()
+        .describe('Only emails with this Gmail label, e.g. "INBOX", "SENT", "STARRED", "IMPORTANT" or a user label name'),
+      hasAttachment: z.boolean().optional().describe("Only emails with (true) or without (false) attachments"),
     }),
-    func: async ({ query, topK }) => {
+    func: async ({ query, topK, from, after, before, label, hasAttachment }, _runManager, config) => {
       try {
         // Check if user has Google/Gmail connected
         const googleAccount = await oauthRepository.findOne({
@@ -98,7 +180,13 @@ Examples of when to use: "What emails did I get about...", "Find emails from..."
         const limitedTopK = Math.min(Math.max(topK || 5, 1), 10);
 
         // Search the vector database
-        const results = await searchGmailVectorDB(userId, query, limitedTopK);
+        const results = await searchGmailVectorDB(
+          userId,
+          query,
+          limitedTopK,
+          { from, after, before, label, hasAttachment },
+          config?.signal
+        );
 
         if (results.length === 0) {
           return JSON.stringify({
@@ -111,9 +199,23 @@ Examples of when to use: "What emails did I get about...", "Find emails from..."
         // Format results for the LLM
         const formattedResults = results.map((result, index) => ({
           rank: index + 1,
+          // An attachment is a source of its own
+          source: sources.numberFor(
+            "gmail",
+            result.attachment
+              ? `${result.emailId}/${result.attachment}`
+              : result.emailId || `${result.subject}-${result.sender}`
+          ),
+          emailId: result.emailId,
           from: result.sender,
           subject: result.subject,
-          content: result.content.substring(0, 500) + (result.content.length > 500 ? "..." : ""),
+          // Set when the passage comes from this attached file
+          attachment: result.attachment,
+          receivedAt: result.receivedAt,
+          hasAttachment: result.hasAttachment,
+          // Best-matching passage of the email or attachment
+          content: result.content.substring(0, 1000) + (result.content.length > 1000 ? "..." : ""),
+          url: result.emailId ? getGmailPermalink(result.emailId, googleAccount.rawProfile?.email) : null,
           relevanceScore: Math.round(result.score * 100) / 100,
         }));
 
@@ -121,7 +223,7 @@ Examples of when to use: "What emails did I get about...", "Find emails from..."
           query,
           resultsCount: results.length,
           results: formattedResults,
-          note: "Use this information to answer the user's question about their emails. Reference the sender and subject when citing specific emails.",
+          note: "Use this information to answer the user's question about their emails. Cite each fact with the source number of the email or attachment it came from, e.g. [1].",
         });
       } catch (error: any) {
         console.error("Error searching Gmail:", error.message);
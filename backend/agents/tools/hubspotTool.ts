@@ -1,69 +1,75 @@
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
-import axios from "axios";
 import { AppDataSource } from "../../data-source";
 import { OAuthAccount } from "../../entities/OAuthAccount";
-import moment from "moment";
+import { getVectorStore, type VectorFilter } from "../../vectorstore";
+import { getEmbeddings } from "../../llm";
+import type { TurnSources } from "./turnSources";
 
 const oauthRepository = AppDataSource.getRepository(OAuthAccount);
 
-/**
- * Refreshes the HubSpot access token using the refresh token
- */
-async function refreshHubspotToken(hubspotAccount: OAuthAccount): Promise<string> {
-  const clientId = process.env.HUBSPOT_CLIENT_ID;
-  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET;
+// Query vectors must come from the same model that embedded the stored documents
+const embeddings = getEmbeddings();
 
-  if (!clientId || !clientSecret) {
-    throw new Error("HubSpot OAuth credentials not configured");
-  }
+const vectorStore = getVectorStore("Hubspot");
 
-  if (!hubspotAccount.refreshToken) {
-    throw new Error("No refresh token available. User needs to re-authenticate.");
-  }
+const OBJECT_TYPES = ["contact", "company", "deal", "note"] as const;
 
-  const tokenResponse = await axios.post(
-    "https://api.hubapi.com/oauth/v1/token",
-    new URLSearchParams({
-      grant_type: "refresh_token",
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: hubspotAccount.refreshToken,
-    }).toString(),
-    {
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-    }
-  );
-
-  const { access_token, refresh_token, expires_in } = tokenResponse.data;
-
-  hubspotAccount.accessToken = access_token;
-  if (refresh_token) {
-    hubspotAccount.refreshToken = refresh_token;
+/**
+ * Search the HubSpot vector database for relevant CRM records
+ */
+async function searchHubspotVectorDB(
+  userId: string,
+  query: string,
+  topK: number = 5,
+  objectType?: (typeof OBJECT_TYPES)[number],
+  signal?: AbortSignal
+): Promise<Array<{ objectType: string; objectId: string; title: string; content: string; url: string | null; score: number }>> {
+  // Generate embedding for the query
+  const queryEmbedding = await embeddings.embedQuery(query);
+
+  // Skip the search when the response was cancelled while embedding
+  signal?.throwIfAborted();
+
+  const filter: VectorFilter = { user_id: userId };
+  if (objectType) {
+    filter.object_type = objectType;
   }
-  hubspotAccount.tokenExpiresAt = moment().add(expires_in, "seconds").toDate();
-
-  await oauthRepository.save(hubspotAccount);
 
-  return access_token;
+  // Search the vector store (scoped to this user)
+  const hits = await vectorStore.search(queryEmbedding, { filter, topK });
+
+  // Format results
+  return hits.map((hit) => ({
+    objectType: String(hit.metadata.object_type || ""),
+    objectId: String(hit.metadata.object_id ?? ""),
+    title: String(hit.metadata.title || "Untitled"),
+    content: String(hit.metadata.content || ""),
+    url: hit.metadata.url ? String(hit.metadata.url) : null,
+    score: hit.score || 0,
+  }));
 }
 
 /**
- * Creates a LangChain tool for fetching HubSpot contacts
+ * Creates a LangChain RAG tool for searching HubSpot CRM data
  */
-export function createHubspotContactsTool(userId: string) {
+export function createHubspotSearchTool(userId: string, sources: TurnSources) {
   return new DynamicStructuredTool({
-    name: "get_hubspot_contacts",
-    description: "Fetches the list of contacts from HubSpot CRM. Use this when the user asks about contacts, customers, leads, or people in their HubSpot account. Returns contact information including names, emails, and phone numbers.",
+    name: "search_hubspot",
+    description: `Search the user's HubSpot CRM: contacts, companies, deals and notes, including which records are associated with each other.
+Use this tool when the user asks about contacts, customers, leads, companies, deals, the sales pipeline or notes in HubSpot.
+Examples of when to use: "Who is our contact at...", "What deals are open with...", "Which companies are in...", "What did we note about...", "Find leads in..."`,
     schema: z.object({
-      limit: z.number().optional().default(100).describe("Maximum number of contacts to fetch (default: 100)"),
-      search: z.string().optional().describe("Optional search term to filter contacts by name or email"),
+      query: z.string().describe("The search query to find relevant CRM records. Be specific and descriptive."),
+      objectType: z
+        .enum(OBJECT_TYPES)
+        .optional()
+        .describe("Only search one kind of record: contact, company, deal or note"),
+      topK: z.number().optional().default(5).describe("Number of relevant records to retrieve (default: 5, max: 20)"),
     }),
-    func: async ({ limit, search }) => {
+    func: async ({ query, objectType, topK }, _runManager, config) => {
       try {
-        // Get the HubSpot OAuth credentials for this user
+        // Check if user has HubSpot connected
         const hubspotAccount = await oauthRepository.findOne({
           where: {
             userId,
@@ -77,115 +83,42 @@ export function createHubspotContactsTool(userId: string) {
           });
         }
 
-        let accessToken = hubspotAccount.accessToken;
+        // Limit topK to reasonable range
+        const limitedTopK = Math.min(Math.max(topK || 5, 1), 20);
 
-        // Check if token is expired or about to expire (within 5 minutes)
-        const now = moment();
-        const expiresAt = hubspotAccount.tokenExpiresAt
-          ? moment(hubspotAccount.tokenExpiresAt)
-          : null;
+        // Search the vector database
+        const results = await searchHubspotVectorDB(userId, query, limitedTopK, objectType, config?.signal);
 
-        if (expiresAt && now.isAfter(expiresAt.subtract(5, "minutes"))) {
-          accessToken = await refreshHubspotToken(hubspotAccount);
+        if (results.length === 0) {
+          return JSON.stringify({
+            message: "No relevant HubSpot records found for this query.",
+            query,
+            resultsCount: 0,
+          });
         }
 
-        // Call HubSpot API to get contacts
-        const response = await axios.get(
-          "https://api.hubapi.com/crm/v3/objects/contacts",
-          {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              "Content-Type": "application/json",
-            },
-            params: {
-              limit: limit || 100,
-              properties: "firstname,lastname,email,phone,company,jobtitle",
-            },
-          }
-        );
-
-        const contacts = response.data.results || [];
-
-        // Format contacts for better readability
-        const formattedContacts = contacts.map((contact: any) => ({
-          id: contact.id,
-          firstName: contact.properties.firstname || "N/A",
-          lastName: contact.properties.lastname || "N/A",
-          email: contact.properties.email || "N/A",
-          phone: contact.properties.phone || "N/A",
-          company: contact.properties.company || "N/A",
-          jobTitle: contact.properties.jobtitle || "N/A",
+        // Format results for the LLM
+        const formattedResults = results.map((result, index) => ({
+          rank: index + 1,
+          source: sources.numberFor("hubspot", result.objectId || `${result.objectType}:${result.title}`),
+          objectType: result.objectType,
+          objectId: result.objectId,
+          title: result.title,
+          content: result.content.substring(0, 800) + (result.content.length > 800 ? "..." : ""),
+          url: result.url,
+          relevanceScore: Math.round(result.score * 100) / 100,
         }));
 
-        // Filter by search term if provided
-        let filteredContacts = formattedContacts;
-        if (search) {
-          const searchLower = search.toLowerCase();
-          filteredContacts = formattedContacts.filter(
-            (contact: any) =>
-              contact.firstName.toLowerCase().includes(searchLower) ||
-              contact.lastName.toLowerCase().includes(searchLower) ||
-              contact.email.toLowerCase().includes(searchLower) ||
-              contact.company.toLowerCase().includes(searchLower)
-          );
-        }
-
         return JSON.stringify({
-          total: filteredContacts.length,
-          contacts: filteredContacts,
+          query,
+          resultsCount: results.length,
+          results: formattedResults,
+          note: "Use this information to answer the user's question about their CRM data. Cite each fact with the source number of the record it came from, e.g. [1].",
         });
       } catch (error: any) {
-        // If token expired, try refreshing once
-        if (error.response?.status === 401) {
-          try {
-            const hubspotAccount = await oauthRepository.findOne({
-              where: { userId, provider: "hubspot" },
-            });
-
-            if (hubspotAccount) {
-              const accessToken = await refreshHubspotToken(hubspotAccount);
-
-              // Retry the request
-              const retryResponse = await axios.get(
-                "https://api.hubapi.com/crm/v3/objects/contacts",
-                {
-                  headers: {
-                    Authorization: `Bearer ${accessToken}`,
-                    "Content-Type": "application/json",
-                  },
-                  params: {
-                    limit: limit || 100,
-                    properties: "firstname,lastname,email,phone,company,jobtitle",
-                  },
-                }
-              );
-
-              const contacts = retryResponse.data.results || [];
-              const formattedContacts = contacts.map((contact: any) => ({
-                id: contact.id,
-                firstName: contact.properties.firstname || "N/A",
-                lastName: contact.properties.lastname || "N/A",
-                email: contact.properties.email || "N/A",
-                phone: contact.properties.phone || "N/A",
-                company: contact.properties.company || "N/A",
-                jobTitle: contact.properties.jobtitle || "N/A",
-              }));
-
-              return JSON.stringify({
-                total: formattedContacts.length,
-                contacts: formattedContacts,
-              });
-            }
-          } catch (refreshError: any) {
-            return JSON.stringify({
-              error: "Failed to refresh HubSpot token. Please reconnect your HubSpot account.",
-            });
-          }
-        }
-
-        console.error("Error fetching HubSpot contacts:", error.response?.data || error.message);
+        console.error("Error searching HubSpot:", error.message);
         return JSON.stringify({
-          error: `Failed to fetch HubSpot contacts: ${error.message}`,
+          error: `Failed to search HubSpot: ${error.message}`,
         });
       }
     },
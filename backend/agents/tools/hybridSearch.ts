@@ -0,0 +1,114 @@
+import { getEmbeddings, getReranker } from "../../llm";
+import type { KeywordSearchOptions, VectorSearchResult, VectorStore } from "../../vectorstore";
+import { metadataText } from "../../vectorstore/bm25";
+
+// Query vectors must come from the same model that embedded the stored documents
+const embeddings = getEmbeddings();
+
+// Reciprocal rank fusion constant (the usual 60 keeps any single list from dominating)
+const RRF_K = 60;
+// Each retriever returns this many candidates per requested result
+const CANDIDATES_PER_RESULT = 4;
+const MIN_CANDIDATES = 20;
+// Fused results passed to the reranker
+const RERANK_CANDIDATES = 20;
+
+export interface HybridSearchOptions extends KeywordSearchOptions {
+  signal?: AbortSignal;
+}
+
+/**
+ * Merges ranked lists by summing 1 / (RRF_K + rank). Scores are normalised so a
+ * result ranked first by every list that found anything scores 1.
+ */
+function reciprocalRankFusion(lists: VectorSearchResult[][]): VectorSearchResult[] {
+  const fused = new Map<string, VectorSearchResult>();
+
+  for (const list of lists) {
+    list.forEach((hit, index) => {
+      const contribution = 1 / (RRF_K + index + 1);
+      const existing = fused.get(hit.id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(hit.id, { ...hit, score: contribution });
+      }
+    });
+  }
+
+  const maxScore = Math.max(lists.filter((list) => list.length > 0).length, 1) / (RRF_K + 1);
+  return [...fused.values()]
+    .map((hit) => ({ ...hit, score: hit.score / maxScore }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Reorders the best fused results with the configured reranker (RERANKER).
+ * Retrieval still succeeds with the fused order when reranking fails.
+ */
+async function rerankResults(
+  query: string,
+  results: VectorSearchResult[],
+  fields: string[],
+  signal?: AbortSignal
+): Promise<VectorSearchResult[]> {
+  const reranker = getReranker();
+  if (!reranker || results.length < 2) return results;
+
+  const candidates = results.slice(0, RERANK_CANDIDATES);
+  try {
+    const scores = await reranker.rerank(
+      query,
+      candidates.map((hit) => metadataText(hit.metadata, fields)),
+      signal
+    );
+    const reranked = candidates
+      .map((hit, index) => ({ ...hit, score: scores[index] ?? 0 }))
+      .sort((a, b) => b.score - a.score);
+    return [...reranked, ...results.slice(RERANK_CANDIDATES)];
+  } catch (error: any) {
+    signal?.throwIfAborted();
+    console.error("Reranking failed, using fused ranking:", error.message);
+    return results;
+  }
+}
+
+/**
+ * Hybrid retrieval: vector similarity and keyword (BM25 / full-text) search
+ * over `fields`, merged with reciprocal rank fusion and optionally reranked.
+ * Set HYBRID_SEARCH=false to search by vector similarity only.
+ * Scores are 0..1 (fused rank, or reranker relevance when a reranker is configured).
+ */
+export async function hybridSearch(
+  store: VectorStore,
+  query: string,
+  options: HybridSearchOptions
+): Promise<VectorSearchResult[]> {
+  const { filter, topK, fields, signal } = options;
+
+  // Generate embedding for the query
+  const queryEmbedding = await embeddings.embedQuery(query);
+
+  // Skip the search when the response was cancelled while embedding
+  signal?.throwIfAborted();
+
+  if (process.env.HYBRID_SEARCH === "false") {
+    return store.search(queryEmbedding, { filter, topK });
+  }
+
+  const candidates = Math.max(topK * CANDIDATES_PER_RESULT, MIN_CANDIDATES);
+  const [vectorHits, keywordHits] = await Promise.all([
+    store.search(queryEmbedding, { filter, topK: candidates }),
+    // Keyword matches are a bonus; vector results alone still answer the query
+    store.keywordSearch(query, { filter, topK: candidates, fields }).catch((error: any) => {
+      console.error("Keyword search failed:", error.message);
+      return [];
+    }),
+  ]);
+
+  signal?.throwIfAborted();
+
+  const fused = reciprocalRankFusion([vectorHits, keywordHits]);
+  const ranked = await rerankResults(query, fused, fields, signal);
+  return ranked.slice(0, topK);
+}
@@ -1,64 +1,131 @@
 import { DynamicStructuredTool } from "@langchain/core/tools";
 import { z } from "zod";
-import { MilvusClient } from "@zilliz/milvus2-sdk-node";
-import { OpenAIEmbeddings } from "@langchain/openai";
 import { AppDataSource } from "../../data-source";
 import { OAuthAccount } from "../../entities/OAuthAccount";
+import { propertyMetadataKey } from "../../data/notionProperties";
+import { getVectorStore, type FilterCondition, type VectorFilter } from "../../vectorstore";
+import { parseDate } from "./filterValues";
+import { hybridSearch } from "./hybridSearch";
+import type { TurnSources } from "./turnSources";
 
 const oauthRepository = AppDataSource.getRepository(OAuthAccount);
 
-// Initialize OpenAI embeddings for query embedding
-const embeddings = new OpenAIEmbeddings({
-  openAIApiKey: process.env.OPENAI_API_KEY,
-  modelName: "text-embedding-ada-002", // 1536 dimensions - must match stored embeddings
+const vectorStore = getVectorStore("Notion");
+
+/**
+ * Link to a Notion page (pages synced before their URL was stored use the id-based form),
+ * scrolled to the chunk's first block when it is known
+ */
+function getNotionPageUrl(pageId: string, storedUrl: unknown, blockId: unknown): string | null {
+  const pageUrl = storedUrl ? String(storedUrl) : pageId ? `https://www.notion.so/${pageId.replace(/-/g, "")}` : null;
+  if (!pageUrl || !blockId) return pageUrl;
+  return `${pageUrl.split("#")[0]}#${String(blockId).replace(/-/g, "")}`;
+}
+
+const propertyFilterSchema = z.object({
+  property: z.string().describe('Database property name, as shown in the results, e.g. "Status", "Owner" or "Due"'),
+  equals: z
+    .union([z.string(), z.number(), z.boolean()])
+    .optional()
+    .describe("Exact value: a status/select option, tag, person, related page title, text, number or checkbox"),
+  after: z.string().optional().describe("Date property on or after this date (YYYY-MM-DD)"),
+  before: z.string().optional().describe("Date property before this date (YYYY-MM-DD)"),
+  min: z.number().optional().describe("Number property of at least this value"),
+  max: z.number().optional().describe("Number property of at most this value"),
 });
 
-// Lazy initialization for Milvus client
-let milvusClient: MilvusClient | null = null;
+type PropertyFilter = z.infer<typeof propertyFilterSchema>;
 
-function getMilvusClient(): MilvusClient {
-  if (!milvusClient) {
-    let address = process.env.MILVUS_ADDRESS || "in03-e3d59000ddbccb2.serverless.aws-eu-central-1.cloud.zilliz.com";
-    address = address.replace(/^https?:\/\//, "");
+// Structured search_notion parameters, applied as vector store filters
+interface NotionSearchFilters {
+  database?: string | undefined;
+  properties?: PropertyFilter[] | undefined;
+}
 
-    milvusClient = new MilvusClient({
-      address,
-      token: `${process.env.MILVUS_USER}:${process.env.MILVUS_PASSWORD}`,
-      ssl: true,
-    });
+/**
+ * Condition on a database row property. Text values are stored lowercased as
+ * lists (multi-select, people and relations have several), dates as epoch ms.
+ */
+function propertyCondition(filter: PropertyFilter): FilterCondition | null {
+  if (typeof filter.equals === "string") {
+    return { $has: filter.equals.trim().toLowerCase() };
   }
-  return milvusClient;
+  if (filter.equals !== undefined) {
+    return filter.equals;
+  }
+
+  const lower = filter.after ? parseDate(filter.after, "after") : filter.min;
+  // "before" is exclusive
+  const upper = filter.before ? parseDate(filter.before, "before") - 1 : filter.max;
+  if (lower === undefined && upper === undefined) return null;
+  return {
+    ...(lower !== undefined && { $gte: lower }),
+    ...(upper !== undefined && { $lte: upper }),
+  };
 }
 
-const COLLECTION_NAME = "Notion";
+/**
+ * Translates the tool's filter parameters into a filter on the page metadata
+ */
+function buildNotionFilter(userId: string, filters: NotionSearchFilters): VectorFilter {
+  const filter: VectorFilter = { user_id: userId };
+
+  if (filters.database?.trim()) {
+    filter.database_name = { $contains: filters.database.trim().toLowerCase() };
+  }
+
+  for (const propertyFilter of filters.properties ?? []) {
+    const condition = propertyCondition(propertyFilter);
+    if (condition !== null) {
+      filter[propertyMetadataKey(propertyFilter.property)] = condition;
+    }
+  }
+
+  return filter;
+}
 
 /**
- * Search the Notion vector database for relevant content
+ * Search the Notion index for relevant content (keyword + vector similarity)
  */
 async function searchNotionVectorDB(
   userId: string,
   query: string,
-  topK: number = 5
-): Promise<Array<{ pageTitle: string; content: string; score: number }>> {
-  // Generate embedding for the query
-  const queryEmbedding = await embeddings.embedQuery(query);
-
-  // Search in Zilliz
-  const searchResult = await getMilvusClient().search({
-    collection_name: COLLECTION_NAME,
-    data: [queryEmbedding],
-    filter: `user_id == "${userId}"`,
-    limit: topK,
-    output_fields: ["page_title", "content", "page_id", "chunk_index"],
+  topK: number = 5,
+  filters: NotionSearchFilters = {},
+  signal?: AbortSignal
+): Promise<
+  Array<{
+    pageTitle: string;
+    content: string;
+    score: number;
+    pageId: string;
+    url: string | null;
+    section: string | null;
+    database: string | null;
+    properties: string | null;
+  }>
+> {
+  // Keyword + vector search, scoped to this user
+  const hits = await hybridSearch(vectorStore, query, {
+    filter: buildNotionFilter(userId, filters),
+    topK,
+    fields: ["page_title", "section", "content"],
+    ...(signal && { signal }),
   });
 
   // Format results
-  const results = searchResult.results.map((hit: any) => ({
-    pageTitle: hit.page_title || "Untitled",
-    content: hit.content || "",
+  const results = hits.map((hit) => ({
+    pageTitle: String(hit.metadata.page_title || "Untitled"),
+    content: String(hit.metadata.content || ""),
     score: hit.score || 0,
-    pageId: hit.page_id,
-    chunkIndex: hit.chunk_index,
+    pageId: String(hit.metadata.page_id ?? ""),
+    chunkIndex: Number(hit.metadata.chunk_index ?? 0),
+    url: getNotionPageUrl(String(hit.metadata.page_id ?? ""), hit.metadata.page_url, hit.metadata.block_id),
+    // Headings the chunk sits under
+    section: hit.metadata.section ? String(hit.metadata.section) : null,
+    // Only database rows have these
+    database: hit.metadata.database_title ? String(hit.metadata.database_title) : null,
+    properties: hit.metadata.properties ? String(hit.metadata.properties) : null,
   }));
 
   return results;
@@ -67,18 +134,26 @@ async function searchNotionVectorDB(
 /**
  * Creates a LangChain RAG tool for searching Notion content
  */
-export function createNotionSearchTool(userId: string) {
+export function createNotionSearchTool(userId: string, sources: TurnSources) {
   return new DynamicStructuredTool({
     name: "search_notion",
     description: `Search through the user's Notion workspace to find relevant information. 
 Use this tool when the user asks questions about their notes, documents, or any content stored in Notion. 
 This searches across all pages the user has in their connected Notion workspace.
-Examples of when to use: "What did I write about...", "Find my notes on...", "What's in my Notion about...", "Search my documents for..."`,
+Examples of when to use: "What did I write about...", "Find my notes on...", "What's in my Notion about...", "Search my documents for..."
+Database rows (roadmap items, tasks, CRM entries, ...) are included with their properties (status, owner, dates, tags, relations).
+Use the database and properties parameters to narrow them, e.g. { property: "Status", equals: "Blocked" } or { property: "Due", before: "2024-07-01" }.
+Today is ${new Date().toISOString().substring(0, 10)}; resolve relative dates against it.`,
     schema: z.object({
       query: z.string().describe("The search query to find relevant Notion content. Be specific and descriptive."),
       topK: z.number().optional().default(5).describe("Number of relevant chunks to retrieve (default: 5, max: 10)"),
+      database: z.string().optional().describe('Only rows of the database with this name, e.g. "Roadmap"'),
+      properties: z
+        .array(propertyFilterSchema)
+        .optional()
+        .describe("Only database rows whose properties match all of these conditions"),
     }),
-    func: async ({ query, topK }) => {
+    func: async ({ query, topK, database, properties }, _runManager, config) => {
       try {
         // Check if user has Notion connected
         const notionAccount = await oauthRepository.findOne({
@@ -98,7 +173,13 @@ Examples of when to use: "What did I write about...", "Find my notes on...", "Wh
         const limitedTopK = Math.min(Math.max(topK || 5, 1), 10);
 
         // Search the vector database
-        const results = await searchNotionVectorDB(userId, query, limitedTopK);
+        const results = await searchNotionVectorDB(
+          userId,
+          query,
+          limitedTopK,
+          { database, properties },
+          config?.signal
+        );
 
         if (results.length === 0) {
           return JSON.stringify({
@@ -111,8 +192,13 @@ Examples of when to use: "What did I write about...", "Find my notes on...", "Wh
         // Format results for the LLM
         const formattedResults = results.map((result, index) => ({
           rank: index + 1,
+          source: sources.numberFor("notion", result.pageId || result.pageTitle),
+          pageId: result.pageId,
           pageTitle: result.pageTitle,
+          ...(result.section && { section: result.section }),
+          ...(result.database && { database: result.database, properties: result.properties }),
           content: result.content,
+          url: result.url,
           relevanceScore: Math.round(result.score * 100) / 100,
         }));
 
@@ -120,7 +206,7 @@ Examples of when to use: "What did I write about...", "Find my notes on...", "Wh
           query,
           resultsCount: results.length,
           results: formattedResults,
-          note: "Use this information to answer the user's question. Cite the page titles when referencing specific information.",
+          note: "Use this information to answer the user's question. Cite each fact with the source number of the page it came from, e.g. [1].",
         });
       } catch (error: any) {
         console.error("Error searching Notion:", error.message);
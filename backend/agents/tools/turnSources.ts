@@ -0,0 +1,21 @@
+/**
+ * Numbers the items returned by the search tools during one agent turn, so the
+ * answer can cite them inline as [1], [2]... An item that a later search
+ * returns again keeps its number.
+ */
+export class TurnSources {
+  private readonly numbers = new Map<string, number>();
+
+  /**
+   * Citation number of a source item, assigned on first sight
+   */
+  numberFor(tool: "gmail" | "notion" | "hubspot", sourceId: string): number {
+    const key = `${tool}:${sourceId}`;
+    let number = this.numbers.get(key);
+    if (number === undefined) {
+      number = this.numbers.size + 1;
+      this.numbers.set(key, number);
+    }
+    return number;
+  }
+}
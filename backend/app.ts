@@ -4,11 +4,17 @@ import fileUpload from "express-fileupload";
 import authRoutes from "./routes/authRoutes";
 import oauthRoutes from "./routes/oauthRoutes";
 import chatHistoryRoutes from "./routes/chatHistoryRoutes";
+import syncRoutes from "./routes/syncRoutes";
 import { errorHandler } from "./middlewares/errorHandler";
+import { captureRawBody } from "./middlewares/webhookAuth";
 
 const app = express();
 
-app.use(cors());
+// Only the frontend may call the API cross-origin; without FRONTEND_URL no origin is allowed
+if (!process.env.FRONTEND_URL) {
+  console.warn("FRONTEND_URL is not set: cross-origin requests and OAuth connections are rejected");
+}
+app.use(cors({ origin: process.env.FRONTEND_URL || false }));
 app.use(
   fileUpload({
     limits: { fileSize: 10 * 1024 * 1024 },
@@ -17,12 +23,14 @@ app.use(
     debug: false,
   })
 );
-app.use(express.json());
+// The raw body is kept for webhook signature checks
+app.use(express.json({ verify: captureRawBody }));
 app.use(express.urlencoded({ extended: true }));
 
 app.use("/api/auth", authRoutes);
 app.use("/api/oauth", oauthRoutes);
 app.use("/api/chats", chatHistoryRoutes);
+app.use("/api/sync", syncRoutes);
 
 app.get("/api/health", (req, res) => {
   res.json({ success: true, message: "Server is running!" });
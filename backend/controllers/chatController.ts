@@ -1,13 +1,17 @@
+import { randomUUID } from "crypto";
 import { Server as SocketServer, Socket } from "socket.io";
-import {
-  runLangGraphAgentStreaming,
-  initializeChatHistoryFromDB,
-  isConversationInitialized,
-  type Citation,
-} from "../agents/langgraphAgent";
+import { runLangGraphAgentStreaming, type Citation, type ToolStep } from "../agents/langgraphAgent";
 import { AppDataSource } from "../data-source";
 import { Chat } from "../entities/Chat";
-import { ChatMessage as ChatMessageEntity } from "../entities/ChatMessage";
+import { authenticateSocket } from "../middlewares/auth";
+import { AppError } from "../middlewares/errorHandler";
+import {
+  linkLegacyMessages,
+  prepareEditTurn,
+  prepareRegenerateTurn,
+  saveTurn,
+  type BranchTurn,
+} from "../utils/chatBranches";
 
 interface ChatMessage {
   id: string;
@@ -23,149 +27,143 @@ interface StreamChunk {
   done: boolean;
 }
 
+// Sent as "tool-start" (status "running") and "tool-end" for each tool call
+interface ToolStepEvent {
+  id: string;
+  step: ToolStep;
+}
+
+// userId is never taken from the payload: the socket is bound to the JWT-verified user
 interface SendMessageData {
   message: string;
-  userId: string;
   conversationId: string;
 }
 
-const chatRepository = AppDataSource.getRepository(Chat);
-const messageRepository = AppDataSource.getRepository(ChatMessageEntity);
-
-// In-memory set to track which chats have been created (conversationId === chatId)
-const createdChats = new Set<string>();
-
-// Helper function to save a message to the database
-async function saveMessage(
-  chatId: string,
-  content: string,
-  role: "user" | "assistant",
-  citations?: Citation[]
-): Promise<ChatMessageEntity | null> {
-  try {
-    const message = messageRepository.create({
-      chatId,
-      content,
-      role,
-      citations: citations && citations.length > 0 ? citations : null,
-    });
-    const savedMessage = await messageRepository.save(message);
-    
-    // Update chat's updatedAt
-    await chatRepository.update(chatId, { updatedAt: new Date() });
-    
-    return savedMessage;
-  } catch (error) {
-    console.error("Failed to save message:", error);
-    return null;
-  }
+// Edit a user message into a new branch
+interface EditMessageData {
+  conversationId: string;
+  messageId: string;
+  message: string;
 }
 
+// Answer the question of an assistant message again, as a new version of it
+interface RegenerateMessageData {
+  conversationId: string;
+  messageId: string;
+}
+
+interface CancelMessageData {
+  conversationId: string;
+}
+
+const chatRepository = AppDataSource.getRepository(Chat);
+
+// In-memory map of chats known to exist, to their owner (conversationId === chatId)
+const createdChats = new Map<string, string>();
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Ensure chat exists in DB (only creates if not tracked in memory)
+// Returns false when the conversation belongs to another user.
 async function ensureChatExists(
   conversationId: string,
   userId: string,
   firstMessage?: string
-): Promise<void> {
-  // Already created, skip DB call entirely
-  if (createdChats.has(conversationId)) {
-    return;
+): Promise<boolean> {
+  // Already known, skip DB call entirely
+  const knownOwner = createdChats.get(conversationId);
+  if (knownOwner) {
+    return knownOwner === userId;
   }
 
-  try {
-    // Check if chat exists in DB (only on first encounter)
-    const exists = await chatRepository.exists({
-      where: { id: conversationId },
-    });
+  // Check if chat exists in DB (only on first encounter)
+  const existing = await chatRepository.findOne({
+    where: { id: conversationId },
+    select: ["id", "userId"],
+  });
 
-    if (!exists) {
-      const title = firstMessage
-        ? firstMessage.substring(0, 50) + (firstMessage.length > 50 ? "..." : "")
-        : "New Chat";
-
-      const chat = chatRepository.create({
-        id: conversationId,
-        userId,
-        title,
-      });
-      await chatRepository.save(chat);
-    }
-
-    // Mark as created so we never check DB again for this conversation
-    createdChats.add(conversationId);
-  } catch (error) {
-    console.error("Failed to ensure chat exists:", error);
+  if (existing) {
+    createdChats.set(conversationId, existing.userId);
+    return existing.userId === userId;
   }
-}
 
-// Load chat history from database (called once when conversation first accessed)
-async function loadChatHistoryToMemory(
-  conversationId: string
-): Promise<void> {
-  try {
-    // Load messages directly (if messages exist, chat exists)
-    const messages = await messageRepository.find({
-      where: { chatId: conversationId },
-      order: { createdAt: "ASC" },
-      select: ["content", "role"],
-    });
+  const title = firstMessage
+    ? firstMessage.substring(0, 50) + (firstMessage.length > 50 ? "..." : "")
+    : "New Chat";
 
-    if (messages.length > 0) {
-      // Chat exists in DB, track it
-      createdChats.add(conversationId);
-      
-      // Initialize LangChain memory with database messages
-      await initializeChatHistoryFromDB(
-        conversationId,
-        messages.map((m) => ({ content: m.content, role: m.role }))
-      );
-    }
-  } catch (error) {
-    console.error("Failed to load chat history to memory:", error);
-  }
+  const chat = chatRepository.create({
+    id: conversationId,
+    userId,
+    title,
+  });
+  await chatRepository.save(chat);
+
+  // Track it so we never check DB again for this conversation
+  createdChats.set(conversationId, userId);
+  return true;
 }
 
 export const setupSocketHandlers = (io: SocketServer) => {
+  // Every connection must present a valid JWT in the handshake
+  io.use(authenticateSocket);
+
   io.on("connection", (socket: Socket) => {
-    // Handle join-chat: frontend emits this with userId; we confirm so it can set isSocketConnected
-    socket.on("join-chat", (userId: string) => {
+    const userId: string = socket.data.userId;
+
+    // Per-user room, so server-side events can target all of a user's sockets
+    socket.join(`user:${userId}`);
+
+    // Responses still being generated on this socket, by conversationId
+    const activeResponses = new Map<string, AbortController>();
+
+    // Handle join-chat: we confirm with the verified userId so the frontend can set isSocketConnected
+    socket.on("join-chat", () => {
       socket.emit("chat-joined", { userId });
     });
 
-    // Handle incoming messages with streaming
-    socket.on("send-message", async (data: SendMessageData) => {
-      const messageId = `msg-${Date.now()}-ai`;
+    // Send a stream-error message (errors shown in place of the answer)
+    const emitError = (content: string) => {
+      const errorMessage: ChatMessage = {
+        id: randomUUID(),
+        content,
+        role: "assistant",
+        timestamp: new Date().toISOString(),
+      };
+      socket.emit("stream-error", errorMessage);
+    };
+
+    /**
+     * Streams the agent's answer to a turn, then stores the question (unless it
+     * already exists) and the reply on the turn's branch
+     */
+    const streamReply = async (conversationId: string, turn: BranchTurn) => {
+      // Ids are assigned up front, so the client can act on the messages right away
+      const messageId = randomUUID();
+      const userMessageId = turn.userMessageId ?? randomUUID();
       const timestamp = new Date().toISOString();
       let fullResponse = "";
-      let citations: Citation[] = [];
+      const abortController = new AbortController();
 
-      try {
-        // console.log("Processing message with LangGraph (streaming):", {
-        //   message: data.message,
-        //   userId: data.userId,
-        //   conversationId: data.conversationId,
-        // });
-
-        // Load existing chat history into LangChain memory (only once per conversation)
-        if (!isConversationInitialized(data.conversationId)) {
-          await loadChatHistoryToMemory(data.conversationId);
-        }
-
-        // Ensure chat exists in background (don't block)
-        const chatPromise = ensureChatExists(
-          data.conversationId,
-          data.userId,
-          data.message
-        );
+      // A new message in the same conversation supersedes the one still running
+      activeResponses.get(conversationId)?.abort();
+      activeResponses.set(conversationId, abortController);
 
+      try {
         // Emit stream start immediately
-        socket.emit("stream-start", { id: messageId, timestamp });
+        socket.emit("stream-start", {
+          id: messageId,
+          conversationId,
+          userMessageId,
+          parentMessageId: turn.parentMessageId,
+          timestamp,
+        });
 
-        // Stream the response with conversationId for memory context
+        // Stream the response; conversationId is the thread for persisted agent memory
         const agentResponse = await runLangGraphAgentStreaming(
-          data.message,
-          data.userId,
-          data.conversationId,
+          turn.content,
+          userId,
+          conversationId,
+          turn.parentMessageId,
           (token: string) => {
             fullResponse += token;
             // Emit each token as it arrives
@@ -175,41 +173,152 @@ export const setupSocketHandlers = (io: SocketServer) => {
               done: false,
             };
             socket.emit("stream-chunk", chunk);
+          },
+          {
+            onToolStep: (step: ToolStep) => {
+              const toolEvent: ToolStepEvent = { id: messageId, step };
+              socket.emit(step.status === "running" ? "tool-start" : "tool-end", toolEvent);
+            },
+            signal: abortController.signal,
           }
         );
 
-        // Get citations from agent response
-        citations = agentResponse.citations;
+        const citations: Citation[] = agentResponse.citations;
 
-        // Emit stream end with citations (don't wait for DB save)
-        socket.emit("stream-end", { id: messageId, citations });
+        // Save both messages before "stream-end", so a follow-up message already
+        // continues from this reply; a cancelled response is kept with whatever
+        // was generated so far
+        let saved = true;
+        if (fullResponse || agentResponse.cancelled) {
+          saved = await saveTurn(conversationId, turn, agentResponse, { userMessageId, messageId }).then(
+            () => true,
+            (err) => {
+              console.error("Failed to save chat messages:", err);
+              return false;
+            }
+          );
+        }
 
-        // Save both messages to database in background (non-blocking for user)
-        chatPromise.then(async () => {
-          if (fullResponse) {
-            // conversationId === chatId, no need to fetch from DB
-             saveMessage(data.conversationId, data.message, "user");
-             saveMessage(data.conversationId, fullResponse, "assistant", citations);
-          }
-        }).catch((err) => console.error("Failed to save chat messages:", err));
+        // Emit stream end with citations, and the answer without citation
+        // markers that refer to no returned source; `saved` is false when the
+        // turn could not be stored (the reply is then not part of the chat)
+        socket.emit("stream-end", {
+          id: messageId,
+          content: agentResponse.content,
+          citations,
+          cancelled: agentResponse.cancelled,
+          saved,
+        });
       } catch (error) {
         console.error("Failed to get AI response:", error);
 
         // Send error message
-        const errorMessage: ChatMessage = {
-          id: messageId,
-          content:
-            "Sorry, I'm having trouble connecting to the AI service. Please try again later.",
-          role: "assistant",
-          timestamp,
-        };
+        emitError("Sorry, I'm having trouble connecting to the AI service. Please try again later.");
+      } finally {
+        if (activeResponses.get(conversationId) === abortController) {
+          activeResponses.delete(conversationId);
+        }
+      }
+    };
+
+    /**
+     * The chat of an edit/regenerate request; it must exist and belong to this user
+     */
+    const findOwnedChat = async (conversationId: unknown): Promise<Chat | null> => {
+      if (typeof conversationId !== "string" || !UUID_REGEX.test(conversationId)) {
+        return null;
+      }
+      return chatRepository.findOne({ where: { id: conversationId, userId } });
+    };
+
+    // Handle incoming messages with streaming (appended to the chat's active branch)
+    socket.on("send-message", async (data: SendMessageData) => {
+      try {
+        if (!data?.message || typeof data.message !== "string" || !UUID_REGEX.test(data.conversationId ?? "")) {
+          emitError("Invalid message.");
+          return;
+        }
+
+        // The chat row must exist (and belong to this user) before the agent persists checkpoints for it
+        const ownsChat = await ensureChatExists(
+          data.conversationId,
+          userId,
+          data.message
+        );
+
+        const chat = ownsChat ? await chatRepository.findOneBy({ id: data.conversationId }) : null;
+        if (!chat) {
+          emitError("Chat not found.");
+          return;
+        }
+
+        await linkLegacyMessages(chat);
 
-        socket.emit("stream-error", errorMessage);
+        await streamReply(data.conversationId, {
+          content: data.message,
+          parentMessageId: chat.activeMessageId,
+          userMessageId: null,
+        });
+      } catch (error) {
+        console.error("Failed to send message:", error);
+        emitError("Sorry, something went wrong. Please try again.");
       }
     });
 
-    // Handle disconnection
-    socket.on("disconnect", () => {});
+    // Edit a user message: the edited text becomes a sibling of the original and is answered
+    socket.on("edit-message", async (data: EditMessageData) => {
+      try {
+        const chat = await findOwnedChat(data?.conversationId);
+        if (!chat || !UUID_REGEX.test(data.messageId ?? "") || !data.message || typeof data.message !== "string") {
+          emitError(chat ? "Invalid message." : "Chat not found.");
+          return;
+        }
+
+        const turn = await prepareEditTurn(chat.id, data.messageId, data.message);
+        await streamReply(chat.id, turn);
+      } catch (error) {
+        if (error instanceof AppError) {
+          emitError(error.message);
+          return;
+        }
+        console.error("Failed to edit message:", error);
+        emitError("Sorry, something went wrong. Please try again.");
+      }
+    });
+
+    // Regenerate an assistant message: a new answer becomes a sibling of the original
+    socket.on("regenerate-message", async (data: RegenerateMessageData) => {
+      try {
+        const chat = await findOwnedChat(data?.conversationId);
+        if (!chat || !UUID_REGEX.test(data.messageId ?? "")) {
+          emitError(chat ? "Invalid message." : "Chat not found.");
+          return;
+        }
+
+        const turn = await prepareRegenerateTurn(chat.id, data.messageId);
+        await streamReply(chat.id, turn);
+      } catch (error) {
+        if (error instanceof AppError) {
+          emitError(error.message);
+          return;
+        }
+        console.error("Failed to regenerate message:", error);
+        emitError("Sorry, something went wrong. Please try again.");
+      }
+    });
+
+    // Stop the response being generated for a conversation (partial answer is kept)
+    socket.on("cancel-message", (data: CancelMessageData) => {
+      activeResponses.get(data?.conversationId)?.abort();
+    });
+
+    // Handle disconnection - nobody is left to receive running responses
+    socket.on("disconnect", () => {
+      for (const controller of activeResponses.values()) {
+        controller.abort();
+      }
+      activeResponses.clear();
+    });
 
     // Handle errors
     socket.on("error", (error) => {
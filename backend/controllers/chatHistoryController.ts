@@ -1,12 +1,80 @@
 import { Request, Response } from "express";
+import { runLangGraphAgent } from "../agents/langgraphAgent";
 import { AppDataSource } from "../data-source";
 import { Chat } from "../entities/Chat";
 import { ChatMessage } from "../entities/ChatMessage";
 import { AppError, asyncHandler } from "../middlewares/errorHandler";
+import {
+  getActiveBranch,
+  linkLegacyMessages,
+  prepareEditTurn,
+  prepareRegenerateTurn,
+  saveChatMessage,
+  saveTurn,
+  switchActiveBranch,
+  type BranchMessage,
+  type BranchTurn,
+} from "../utils/chatBranches";
 
 const chatRepository = AppDataSource.getRepository(Chat);
 const messageRepository = AppDataSource.getRepository(ChatMessage);
 
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Public fields of the messages of a branch
+function serializeBranch(messages: BranchMessage[]) {
+  return messages.map((message) => ({
+    id: message.id,
+    content: message.content,
+    role: message.role,
+    parentMessageId: message.parentMessageId,
+    siblingIds: message.siblingIds,
+    citations: message.citations,
+    toolSteps: message.toolSteps,
+    cancelled: message.cancelled,
+    createdAt: message.createdAt,
+  }));
+}
+
+// Find a chat of the authenticated user (404 otherwise)
+async function findUserChat(req: Request): Promise<Chat> {
+  const userId = req.userId;
+  const { chatId } = req.params;
+
+  if (!userId) {
+    throw new AppError("User not authenticated", 401);
+  }
+
+  if (!UUID_REGEX.test((chatId as string) ?? "")) {
+    throw new AppError("Chat not found", 404);
+  }
+
+  const chat = await chatRepository.findOne({
+    where: { id: chatId as string, userId },
+  });
+
+  if (!chat) {
+    throw new AppError("Chat not found", 404);
+  }
+
+  return chat;
+}
+
+// Answer a turn without streaming and respond with the reply and the new active branch
+async function answerTurn(res: Response, chat: Chat, turn: BranchTurn) {
+  const agentResponse = await runLangGraphAgent(turn.content, chat.userId, chat.id, turn.parentMessageId);
+  const reply = await saveTurn(chat.id, turn, agentResponse);
+
+  chat.activeMessageId = reply.id;
+  const messages = await getActiveBranch(chat);
+
+  res.status(201).json({
+    success: true,
+    message: serializeBranch(messages).find((message) => message.id === reply.id),
+    messages: serializeBranch(messages),
+  });
+}
+
 // Get all chats for the authenticated user
 export const getChats = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.userId;
@@ -63,11 +131,8 @@ export const getChat = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError("Chat not found", 404);
   }
 
-  const messages = await messageRepository.find({
-    where: { chatId: chatId as string },
-    order: { createdAt: "ASC" },
-    select: ["id", "content", "role", "citations", "createdAt"],
-  });
+  // Only the active branch is returned; siblingIds lists each message's other versions
+  const messages = await getActiveBranch(chat);
 
   res.status(200).json({
     success: true,
@@ -77,10 +142,61 @@ export const getChat = asyncHandler(async (req: Request, res: Response) => {
       createdAt: chat.createdAt,
       updatedAt: chat.updatedAt,
     },
-    messages,
+    messages: serializeBranch(messages),
+  });
+});
+
+// Switch the chat to the branch through a message (e.g. another version of it)
+export const setActiveMessage = asyncHandler(async (req: Request, res: Response) => {
+  const chat = await findUserChat(req);
+  const { messageId } = req.body;
+
+  if (typeof messageId !== "string" || !UUID_REGEX.test(messageId)) {
+    throw new AppError("messageId is required", 400);
+  }
+
+  await linkLegacyMessages(chat);
+  await switchActiveBranch(chat, messageId);
+
+  res.status(200).json({
+    success: true,
+    messages: serializeBranch(await getActiveBranch(chat)),
   });
 });
 
+// Regenerate an assistant message: the new answer becomes another version of it
+export const regenerateMessage = asyncHandler(async (req: Request, res: Response) => {
+  const chat = await findUserChat(req);
+  const { messageId } = req.params;
+
+  if (!UUID_REGEX.test((messageId as string) ?? "")) {
+    throw new AppError("Message not found", 404);
+  }
+
+  await linkLegacyMessages(chat);
+  const turn = await prepareRegenerateTurn(chat.id, messageId as string);
+  await answerTurn(res, chat, turn);
+});
+
+// Edit a user message: the edited text becomes another version of it and is answered
+export const editMessage = asyncHandler(async (req: Request, res: Response) => {
+  const chat = await findUserChat(req);
+  const { messageId } = req.params;
+  const { content } = req.body;
+
+  if (!UUID_REGEX.test((messageId as string) ?? "")) {
+    throw new AppError("Message not found", 404);
+  }
+
+  if (typeof content !== "string" || !content.trim()) {
+    throw new AppError("Message content is required", 400);
+  }
+
+  await linkLegacyMessages(chat);
+  const turn = await prepareEditTurn(chat.id, messageId as string, content);
+  await answerTurn(res, chat, turn);
+});
+
 // Create a new chat
 export const createChat = asyncHandler(async (req: Request, res: Response) => {
   const userId = req.userId;
@@ -183,18 +299,14 @@ export const addMessage = asyncHandler(async (req: Request, res: Response) => {
     throw new AppError("Chat not found", 404);
   }
 
-  const message = messageRepository.create({
-    chatId: chatId as string,
+  // Appended to the active branch (also updates the chat's updatedAt timestamp)
+  await linkLegacyMessages(chat);
+  const savedMessage = await saveChatMessage(chat.id, {
     content,
     role,
+    parentMessageId: chat.activeMessageId,
   });
 
-  const savedMessage = await messageRepository.save(message);
-
-  // Update the chat's updatedAt timestamp
-  chat.updatedAt = new Date();
-  await chatRepository.save(chat);
-
   res.status(201).json({
     success: true,
     message: {
@@ -223,13 +335,12 @@ export const createChatWithMessage = asyncHandler(
     });
     const savedChat = await chatRepository.save(chat);
 
-    // Create the message
-    const message = messageRepository.create({
-      chatId: savedChat.id,
+    // Create the message (first message of the chat's branch)
+    const savedMessage = await saveChatMessage(savedChat.id, {
       content,
       role: role || "user",
+      parentMessageId: null,
     });
-    const savedMessage = await messageRepository.save(message);
 
     res.status(201).json({
       success: true,
@@ -1,11 +1,17 @@
-import { Request, Response } from "express";
+import { NextFunction, Request, Response } from "express";
 import { AppDataSource } from "../data-source";
 import { OAuthAccount } from "../entities/OAuthAccount";
 import { AppError, asyncHandler } from "../middlewares/errorHandler";
 import { google } from "googleapis";
 import moment from "moment";
-import { ingestAllNotionPages, deleteUserNotionData } from "../data/notionPipeline";
-import { ingestGmailEmails, deleteUserGmailData } from "../data/gmailPipeline";
+import { deleteUserNotionData } from "../data/notionPipeline";
+import { deleteUserGmailData } from "../data/gmailPipeline";
+import { deleteUserHubspotData } from "../data/hubspotPipeline";
+import { enqueueSyncJob, cancelQueuedSyncJobs, serializeSyncJob } from "../jobs/syncQueue";
+import { getNextSyncAt } from "../jobs/syncScheduler";
+import type { SyncJobType } from "../entities/SyncJob";
+import { createOAuthState, consumeOAuthState } from "../utils/oauthState";
+import { withoutTokens } from "../utils/encryption";
 
 const oauthRepository = AppDataSource.getRepository(OAuthAccount);
 
@@ -36,7 +42,7 @@ export const getConnectionStatus = asyncHandler(
     // Find all OAuth accounts for this user
     const oauthAccounts = await oauthRepository.find({
       where: { userId },
-      select: ["provider", "createdAt"],
+      select: ["provider", "createdAt", "revokedAt", "missingScopes"],
     });
 
     // Check which providers are connected
@@ -50,17 +56,48 @@ export const getConnectionStatus = asyncHandler(
       (account) => account.provider === "hubspot"
     );
 
+    // Revoked accounts and accounts missing scopes a sync needs must be reconnected
+    const needsReconnect = (provider: string) =>
+      oauthAccounts.some(
+        (account) => account.provider === provider && (!!account.revokedAt || !!account.missingScopes)
+      );
+
     res.status(200).json({
       success: true,
       data: {
         google: googleConnected,
         notion: notionConnected,
         hubspot: hubspotConnected,
+        needsReconnect: {
+          google: needsReconnect("google"),
+          notion: needsReconnect("notion"),
+          hubspot: needsReconnect("hubspot"),
+        },
       },
     });
   }
 );
 
+/**
+ * Error handler of a provider's initiate endpoint. The endpoint is opened by a
+ * top-level form submission, so failures are shown by the frontend's OAuth
+ * callback page instead of as a JSON error page.
+ */
+export function redirectInitiateError(provider: string) {
+  return (err: any, req: Request, res: Response, next: NextFunction) => {
+    const frontendUrl = process.env.FRONTEND_URL;
+    if (!frontendUrl) {
+      return next(err);
+    }
+
+    if (!(err instanceof AppError)) {
+      console.error(`Failed to initiate ${provider} OAuth:`, err);
+    }
+    const message = err instanceof AppError ? err.message : `Failed to connect ${provider}. Please try again.`;
+    res.redirect(`${frontendUrl}/oauth/callback?provider=${provider}&success=false&error=${encodeURIComponent(message)}`);
+  };
+}
+
 // Initiate Google OAuth flow
 export const initiateGoogleOAuth = asyncHandler(
   async (req: Request, res: Response) => {
@@ -83,6 +120,9 @@ export const initiateGoogleOAuth = asyncHandler(
 
     const oauth2Client = getGoogleOAuthClient();
 
+    // Signed, single-use state tied to this user and browser (verified in the callback)
+    const state = await createOAuthState(res, userId, "google");
+
     // Generate the URL for Google OAuth consent screen
     const authUrl = oauth2Client.generateAuthUrl({
       access_type: "offline", // Request refresh token
@@ -91,31 +131,26 @@ export const initiateGoogleOAuth = asyncHandler(
         "https://www.googleapis.com/auth/userinfo.email",
         "https://www.googleapis.com/auth/gmail.readonly", // Read Gmail messages
       ],
-      state: userId, // Pass userId in state to retrieve it in callback
+      state,
       prompt: "consent", // Force consent screen to get refresh token
     });
 
-    res.status(200).json({
-      success: true,
-      authUrl,
-    });
+    // Opened by a top-level form submission: the browser continues to the consent screen
+    res.redirect(303, authUrl);
   }
 );
 
 // Handle Google OAuth callback
 export const handleGoogleCallback = asyncHandler(
   async (req: Request, res: Response) => {
-    const { code, state } = req.query;
+    const { code } = req.query;
 
     if (!code || typeof code !== "string") {
       throw new AppError("Authorization code missing", 400);
     }
 
-    if (!state || typeof state !== "string") {
-      throw new AppError("State parameter missing", 400);
-    }
-
-    const userId = state; // userId passed in state parameter
+    // Rejects missing, expired, replayed or tampered state values, and states from another browser
+    const userId = await consumeOAuthState(req, res, "google");
 
     const oauth2Client = getGoogleOAuthClient();
 
@@ -154,7 +189,9 @@ export const handleGoogleCallback = asyncHandler(
       existing.refreshToken = tokens.refresh_token || existing.refreshToken;
       existing.tokenExpiresAt = tokenExpiresAt;
       existing.scopes = tokens.scope || "";
-      existing.rawProfile = userInfo.data;
+      existing.rawProfile = withoutTokens(userInfo.data);
+      existing.revokedAt = null;
+      existing.nextSyncAt = getNextSyncAt();
       await oauthRepository.save(existing);
     } else {
       // Create new connection
@@ -166,15 +203,14 @@ export const handleGoogleCallback = asyncHandler(
         refreshToken: tokens.refresh_token || null,
         tokenExpiresAt,
         scopes: tokens.scope || "",
-        rawProfile: userInfo.data,
+        rawProfile: withoutTokens(userInfo.data),
+        nextSyncAt: getNextSyncAt(),
       });
       await oauthRepository.save(oauthAccount);
     }
 
-    // Run Gmail ingestion in background (don't await - let it run async)
-    ingestGmailEmails(userId).catch((error) => {
-      console.error("Background Gmail ingestion failed:", error.message);
-    });
+    // Queue Gmail ingestion (runs in the background sync worker)
+    await enqueueSyncJob(userId, "gmail");
 
     // Redirect back to frontend with success
     const frontendUrl = process.env.FRONTEND_URL ;
@@ -201,30 +237,27 @@ export const initiateNotionOAuth = asyncHandler(
       );
     }
 
+    const state = await createOAuthState(res, userId, "notion");
+
     // Generate the URL for Notion OAuth
-    const authUrl = `https://api.notion.com/v1/oauth/authorize?client_id=${clientId}&response_type=code&owner=user&redirect_uri=${encodeURIComponent(redirectUri as string)}&state=${userId}`;
+    const authUrl = `https://api.notion.com/v1/oauth/authorize?client_id=${clientId}&response_type=code&owner=user&redirect_uri=${encodeURIComponent(redirectUri as string)}&state=${encodeURIComponent(state)}`;
 
-    res.status(200).json({
-      success: true,
-      authUrl,
-    });
+    // Opened by a top-level form submission: the browser continues to the consent screen
+    res.redirect(303, authUrl);
   }
 );
 
 // Handle Notion OAuth callback
 export const handleNotionCallback = asyncHandler(
   async (req: Request, res: Response) => {
-    const { code, state } = req.query;
+    const { code } = req.query;
 
     if (!code || typeof code !== "string") {
       throw new AppError("Authorization code missing", 400);
     }
 
-    if (!state || typeof state !== "string") {
-      throw new AppError("State parameter missing", 400);
-    }
-
-    const userId = state;
+    // Rejects missing, expired, replayed or tampered state values, and states from another browser
+    const userId = await consumeOAuthState(req, res, "notion");
 
     const clientId = process.env.NOTION_CLIENT_ID;
     const clientSecret = process.env.NOTION_CLIENT_SECRET;
@@ -270,7 +303,9 @@ export const handleNotionCallback = asyncHandler(
     if (existing) {
       // Update existing connection
       existing.accessToken = access_token;
-      existing.rawProfile = tokenResponse.data;
+      existing.rawProfile = withoutTokens(tokenResponse.data);
+      existing.revokedAt = null;
+      existing.nextSyncAt = getNextSyncAt();
       await oauthRepository.save(existing);
     } else {
       // Create new connection
@@ -282,15 +317,14 @@ export const handleNotionCallback = asyncHandler(
         refreshToken: refresh_token,
         tokenExpiresAt: null, // Notion tokens don't expire
         scopes: "",
-        rawProfile: tokenResponse.data,
+        rawProfile: withoutTokens(tokenResponse.data),
+        nextSyncAt: getNextSyncAt(),
       });
       await oauthRepository.save(oauthAccount);
     }
 
-    // Run data ingestion in background (don't await - let it run async)
-    ingestAllNotionPages(userId).catch((error) => {
-      console.error("Background Notion ingestion failed:", error.message);
-    });
+    // Queue Notion ingestion (runs in the background sync worker)
+    await enqueueSyncJob(userId, "notion");
 
     // Redirect back to frontend with success
     const frontendUrl = process.env.FRONTEND_URL ;
@@ -321,32 +355,31 @@ export const initiateHubspotOAuth = asyncHandler(
     const scopes = [
       "oauth",
       "crm.objects.contacts.read",
+      "crm.objects.companies.read",
+      "crm.objects.deals.read",
     ].join(" ");
 
+    const state = await createOAuthState(res, userId, "hubspot");
+
     // Generate the URL for HubSpot OAuth
-    const authUrl = `https://app.hubspot.com/oauth/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri as string)}&scope=${encodeURIComponent(scopes)}&state=${userId}`;
+    const authUrl = `https://app.hubspot.com/oauth/authorize?client_id=${clientId}&redirect_uri=${encodeURIComponent(redirectUri as string)}&scope=${encodeURIComponent(scopes)}&state=${encodeURIComponent(state)}`;
 
-    res.status(200).json({
-      success: true,
-      authUrl,
-    });
+    // Opened by a top-level form submission: the browser continues to the consent screen
+    res.redirect(303, authUrl);
   }
 );
 
 // Handle HubSpot OAuth callback
 export const handleHubspotCallback = asyncHandler(
   async (req: Request, res: Response) => {
-    const { code, state } = req.query;
+    const { code } = req.query;
 
     if (!code || typeof code !== "string") {
       throw new AppError("Authorization code missing", 400);
     }
 
-    if (!state || typeof state !== "string") {
-      throw new AppError("State parameter missing", 400);
-    }
-
-    const userId = state;
+    // Rejects missing, expired, replayed or tampered state values, and states from another browser
+    const userId = await consumeOAuthState(req, res, "hubspot");
 
     const clientId = process.env.HUBSPOT_CLIENT_ID;
     const clientSecret = process.env.HUBSPOT_CLIENT_SECRET;
@@ -387,6 +420,8 @@ export const handleHubspotCallback = asyncHandler(
     );
 
     const hubspotUserId = accountInfoResponse.data.user_id || accountInfoResponse.data.hub_id;
+    // The token response has no scope list; the access token info does
+    const grantedScopes = (accountInfoResponse.data.scopes || []).join(" ") || tokenResponse.data.scope || "";
 
     // Calculate token expiration time
     const tokenExpiresAt = expires_in
@@ -406,7 +441,11 @@ export const handleHubspotCallback = asyncHandler(
       existing.accessToken = access_token;
       existing.refreshToken = refresh_token || existing.refreshToken;
       existing.tokenExpiresAt = tokenExpiresAt;
-      existing.rawProfile = accountInfoResponse.data;
+      existing.rawProfile = withoutTokens(accountInfoResponse.data);
+      existing.scopes = grantedScopes;
+      existing.missingScopes = null;
+      existing.revokedAt = null;
+      existing.nextSyncAt = getNextSyncAt();
       await oauthRepository.save(existing);
     } else {
       // Create new connection
@@ -417,18 +456,111 @@ export const handleHubspotCallback = asyncHandler(
         accessToken: access_token,
         refreshToken: refresh_token || null,
         tokenExpiresAt,
-        scopes: tokenResponse.data.scope || "",
-        rawProfile: accountInfoResponse.data,
+        scopes: grantedScopes,
+        rawProfile: withoutTokens(accountInfoResponse.data),
+        nextSyncAt: getNextSyncAt(),
       });
       await oauthRepository.save(oauthAccount);
     }
 
+    // Queue HubSpot ingestion (runs in the background sync worker)
+    await enqueueSyncJob(userId, "hubspot");
+
     // Redirect back to frontend with success
     const frontendUrl = process.env.FRONTEND_URL ;
     res.redirect(`${frontendUrl}/oauth/callback?provider=hubspot&success=true`);
   }
 );
 
+/**
+ * Queues an immediate sync of a connected account and pushes its next
+ * scheduled sync back by a full interval
+ */
+async function queueManualSync(
+  userId: string,
+  provider: "google" | "notion" | "hubspot",
+  type: SyncJobType,
+  forceSync: boolean
+) {
+  const account = await oauthRepository.findOne({
+    where: {
+      userId,
+      provider,
+    },
+  });
+
+  if (!account) {
+    const providerNames = { google: "Google", notion: "Notion", hubspot: "HubSpot" };
+    throw new AppError(`${providerNames[provider]} account not connected`, 404);
+  }
+
+  if (account.revokedAt) {
+    throw new AppError("Access to this account was revoked. Please reconnect it.", 409);
+  }
+
+  const job = await enqueueSyncJob(userId, type, { forceSync });
+  await oauthRepository.update(account.id, { nextSyncAt: getNextSyncAt() });
+
+  return job;
+}
+
+// Sync Gmail now - queues a Gmail sync job ({ forceSync: true } re-indexes everything)
+export const syncGmailNow = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.userId;
+
+    if (!userId) {
+      throw new AppError("Unauthorized", 401);
+    }
+
+    const job = await queueManualSync(userId, "google", "gmail", req.body?.forceSync === true);
+
+    res.status(202).json({
+      success: true,
+      message: "Gmail sync queued",
+      job: serializeSyncJob(job),
+    });
+  }
+);
+
+// Sync Notion now - queues a Notion sync job ({ forceSync: true } re-indexes everything)
+export const syncNotionNow = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.userId;
+
+    if (!userId) {
+      throw new AppError("Unauthorized", 401);
+    }
+
+    const job = await queueManualSync(userId, "notion", "notion", req.body?.forceSync === true);
+
+    res.status(202).json({
+      success: true,
+      message: "Notion sync queued",
+      job: serializeSyncJob(job),
+    });
+  }
+);
+
+// Sync HubSpot now - queues a HubSpot sync job ({ forceSync: true } re-indexes everything)
+export const syncHubspotNow = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.userId;
+
+    if (!userId) {
+      throw new AppError("Unauthorized", 401);
+    }
+
+    const job = await queueManualSync(userId, "hubspot", "hubspot", req.body?.forceSync === true);
+
+    res.status(202).json({
+      success: true,
+      message: "HubSpot sync queued",
+      job: serializeSyncJob(job),
+    });
+  }
+);
+
 // Disconnect Gmail - removes OAuth details and deletes data from vector DB
 export const disconnectGmail = asyncHandler(
   async (req: Request, res: Response) => {
@@ -450,7 +582,8 @@ export const disconnectGmail = asyncHandler(
       throw new AppError("Google account not connected", 404);
     }
 
-    // Delete data from vector database and sync log
+    // Drop pending syncs, then delete data from vector database and sync log
+    await cancelQueuedSyncJobs(userId, "gmail");
     await deleteUserGmailData(userId);
 
     // Delete OAuth account
@@ -486,7 +619,8 @@ export const disconnectNotion = asyncHandler(
       throw new AppError("Notion account not connected", 404);
     }
 
-    // Delete data from vector database and sync log
+    // Drop pending syncs, then delete data from vector database and sync log
+    await cancelQueuedSyncJobs(userId, "notion");
     await deleteUserNotionData(userId);
 
     // Delete OAuth account
@@ -501,7 +635,7 @@ export const disconnectNotion = asyncHandler(
   }
 );
 
-// Disconnect HubSpot - removes OAuth details only (no vector DB data)
+// Disconnect HubSpot - removes OAuth details and deletes data from vector DB
 export const disconnectHubspot = asyncHandler(
   async (req: Request, res: Response) => {
     const userId = req.userId;
@@ -522,6 +656,10 @@ export const disconnectHubspot = asyncHandler(
       throw new AppError("HubSpot account not connected", 404);
     }
 
+    // Drop pending syncs, then delete data from vector database and sync log
+    await cancelQueuedSyncJobs(userId, "hubspot");
+    await deleteUserHubspotData(userId);
+
     // Delete OAuth account
     await oauthRepository.remove(hubspotAccount);
 
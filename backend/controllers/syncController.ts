@@ -0,0 +1,19 @@
+import { Request, Response } from "express";
+import { AppError, asyncHandler } from "../middlewares/errorHandler";
+import { getRecentSyncJobs, serializeSyncJob } from "../jobs/syncQueue";
+
+// Get the latest ingestion jobs (status, attempts, progress) for the authenticated user
+export const getSyncJobs = asyncHandler(async (req: Request, res: Response) => {
+  const userId = req.userId;
+
+  if (!userId) {
+    throw new AppError("User not authenticated", 401);
+  }
+
+  const jobs = await getRecentSyncJobs(userId);
+
+  res.status(200).json({
+    success: true,
+    jobs: jobs.map(serializeSyncJob),
+  });
+});
@@ -0,0 +1,162 @@
+import { Request, Response } from "express";
+import { AppDataSource } from "../data-source";
+import { OAuthAccount } from "../entities/OAuthAccount";
+import { AppError, asyncHandler } from "../middlewares/errorHandler";
+import { enqueueSyncJob } from "../jobs/syncQueue";
+import type { SyncJobType } from "../entities/SyncJob";
+
+const oauthRepository = AppDataSource.getRepository(OAuthAccount);
+
+// HubSpot object types re-indexed on change (notes are picked up by scheduled syncs)
+const HUBSPOT_OBJECT_TYPES = new Set(["contact", "company", "deal"]);
+
+/**
+ * Queues a targeted re-index of the changed objects for each connected account.
+ * Revoked accounts are skipped: their syncs would fail until the user reconnects.
+ */
+async function queueWebhookSync(
+  accounts: OAuthAccount[],
+  type: SyncJobType,
+  targets?: string[]
+): Promise<number> {
+  let queued = 0;
+  for (const account of accounts) {
+    if (account.revokedAt) continue;
+    await enqueueSyncJob(account.userId, type, targets ? { targets } : {});
+    queued++;
+  }
+  return queued;
+}
+
+/**
+ * Notion integration webhook. Page events queue a re-index of the page,
+ * database events a re-index of the database's rows; other events (comments,
+ * data sources) are acknowledged and ignored.
+ */
+export const handleNotionWebhook = asyncHandler(
+  async (req: Request, res: Response) => {
+    const event = req.body || {};
+
+    // Sent once when the subscription is created: the token is the signing secret.
+    // It only reaches this point unsigned while NOTION_WEBHOOK_SECRET is not set.
+    if (typeof event.verification_token === "string") {
+      if (!process.env.NOTION_WEBHOOK_SECRET) {
+        console.log(`Notion webhook verification token (set NOTION_WEBHOOK_SECRET to it): ${event.verification_token}`);
+      }
+      return res.status(200).json({ success: true });
+    }
+
+    const workspaceId = event.workspace_id;
+    const entity = event.entity;
+    if (typeof workspaceId !== "string" || !entity?.id || typeof entity.type !== "string") {
+      throw new AppError("Invalid Notion webhook payload", 400);
+    }
+
+    if (entity.type !== "page" && entity.type !== "database") {
+      return res.status(200).json({ success: true, queued: 0 });
+    }
+
+    const accounts = await oauthRepository.find({
+      where: { provider: "notion", providerAccountId: workspaceId },
+    });
+    const queued = await queueWebhookSync(accounts, "notion", [`${entity.type}:${entity.id}`]);
+
+    res.status(200).json({ success: true, queued });
+  }
+);
+
+/**
+ * Targets of a HubSpot webhook event: the changed record, the records merged
+ * into it (which no longer exist) and both sides of an association change
+ */
+function getHubspotTargets(event: any): string[] {
+  const [objectType, change] = String(event.subscriptionType || "").split(".");
+  if (!objectType || !HUBSPOT_OBJECT_TYPES.has(objectType)) return [];
+
+  if (change === "associationChange") {
+    // associationType is e.g. "CONTACT_TO_COMPANY"
+    const [fromType, toType] = String(event.associationType || "").toLowerCase().split("_to_");
+    return [
+      [fromType, event.fromObjectId],
+      [toType, event.toObjectId],
+    ]
+      .filter(([type, id]) => HUBSPOT_OBJECT_TYPES.has(type) && id)
+      .map(([type, id]) => `${type}:${id}`);
+  }
+
+  const ids = [event.objectId, event.newObjectId, ...(event.mergedObjectIds || [])].filter(Boolean);
+  return ids.map((id) => `${objectType}:${id}`);
+}
+
+/**
+ * HubSpot app webhook: a batch of contact, company and deal events, possibly
+ * from several portals. Each portal's changed records are re-indexed for every
+ * user connected to it.
+ */
+export const handleHubspotWebhook = asyncHandler(
+  async (req: Request, res: Response) => {
+    if (!Array.isArray(req.body)) {
+      throw new AppError("Invalid HubSpot webhook payload", 400);
+    }
+
+    const targetsByPortal = new Map<string, Set<string>>();
+    for (const event of req.body) {
+      const targets = getHubspotTargets(event);
+      if (!event?.portalId || targets.length === 0) continue;
+
+      const portalId = String(event.portalId);
+      const portalTargets = targetsByPortal.get(portalId) ?? new Set<string>();
+      targets.forEach((target) => portalTargets.add(target));
+      targetsByPortal.set(portalId, portalTargets);
+    }
+
+    let queued = 0;
+    for (const [portalId, targets] of targetsByPortal) {
+      const accounts = await oauthRepository
+        .createQueryBuilder("account")
+        .where("account.provider = :provider", { provider: "hubspot" })
+        .andWhere(`account."rawProfile" ->> 'hub_id' = :portalId`, { portalId })
+        .getMany();
+      queued += await queueWebhookSync(accounts, "hubspot", [...targets]);
+    }
+
+    res.status(200).json({ success: true, queued });
+  }
+);
+
+/**
+ * Gmail push notification, delivered by a Pub/Sub push subscription: the
+ * message data is {"emailAddress", "historyId"} and only says the mailbox
+ * changed, so an incremental sync is queued (it applies every change since
+ * the stored history id)
+ */
+export const handleGmailPushNotification = asyncHandler(
+  async (req: Request, res: Response) => {
+    const data = req.body?.message?.data;
+    if (typeof data !== "string") {
+      throw new AppError("Invalid Pub/Sub push payload", 400);
+    }
+
+    let notification: { emailAddress?: string; historyId?: string | number };
+    try {
+      notification = JSON.parse(Buffer.from(data, "base64").toString("utf8"));
+    } catch {
+      throw new AppError("Invalid Gmail notification", 400);
+    }
+
+    const emailAddress = notification.emailAddress?.toLowerCase();
+    if (!emailAddress) {
+      throw new AppError("Invalid Gmail notification", 400);
+    }
+
+    const accounts = await oauthRepository
+      .createQueryBuilder("account")
+      .where("account.provider = :provider", { provider: "google" })
+      .andWhere(`lower(account."rawProfile" ->> 'email') = :emailAddress`, { emailAddress })
+      .getMany();
+    const queued = await queueWebhookSync(accounts, "gmail");
+
+    // Any 2xx acknowledges the message; errors make Pub/Sub redeliver it
+    res.status(200).json({ success: true, queued });
+  }
+);
@@ -8,8 +8,13 @@ import { User } from "./entities/User";
 import { OAuthAccount } from "./entities/OAuthAccount";
 import { NotionSyncLog } from "./entities/NotionSyncLog";
 import { GmailSyncLog } from "./entities/GmailSyncLog";
+import { HubspotSyncLog } from "./entities/HubspotSyncLog";
 import { Chat } from "./entities/Chat";
 import { ChatMessage } from "./entities/ChatMessage";
+import { AgentCheckpoint } from "./entities/AgentCheckpoint";
+import { AgentCheckpointWrite } from "./entities/AgentCheckpointWrite";
+import { OAuthState } from "./entities/OAuthState";
+import { SyncJob } from "./entities/SyncJob";
 
 const databaseUrl = process.env.DATABASE_URL;
 
@@ -22,7 +27,19 @@ export const AppDataSource = new DataSource({
   url: databaseUrl,
   // IMPORTANT: TypeORM only creates tables for entities registered here.
   // If an entity isn't listed, its table will never be created in Postgres (Supabase).
-  entities: [User, OAuthAccount, NotionSyncLog, GmailSyncLog, Chat, ChatMessage],
+  entities: [
+    User,
+    OAuthAccount,
+    NotionSyncLog,
+    GmailSyncLog,
+    HubspotSyncLog,
+    Chat,
+    ChatMessage,
+    AgentCheckpoint,
+    AgentCheckpointWrite,
+    OAuthState,
+    SyncJob,
+  ],
   synchronize: true,
   logging: process.env.NODE_ENV === 'development' ? ['error', 'warn'] : false,
   ssl: {
@@ -0,0 +1,50 @@
+import { AppDataSource } from "../data-source";
+import { OAuthAccount } from "../entities/OAuthAccount";
+
+const oauthRepository = AppDataSource.getRepository(OAuthAccount);
+
+// Thrown by a pipeline when the provider rejects the account's credentials.
+// Retrying cannot help until the user reconnects the account.
+export class AccountRevokedError extends Error {
+  constructor(provider: string) {
+    super(`${provider} access was revoked. The account needs to be reconnected.`);
+    this.name = "AccountRevokedError";
+  }
+}
+
+// Thrown into a running sync when the user disconnected the account meanwhile;
+// the job stops for good and what it indexed after the disconnect is removed
+export class AccountDisconnectedError extends Error {
+  constructor(provider: string) {
+    super(`The ${provider} account was disconnected during the sync.`);
+    this.name = "AccountDisconnectedError";
+  }
+}
+
+/**
+ * True for provider errors meaning the stored tokens are no longer valid:
+ * 401 from the API, or a rejected refresh token (`invalid_grant` for Google
+ * and Notion, `BAD_REFRESH_TOKEN` for HubSpot)
+ */
+export function isRevokedCredentialError(error: any): boolean {
+  const data = error?.response?.data;
+  return (
+    error?.response?.status === 401 ||
+    data?.error === "invalid_grant" ||
+    data?.status === "BAD_REFRESH_TOKEN"
+  );
+}
+
+/**
+ * Flags a user's provider account as revoked so scheduled syncs skip it
+ */
+export async function markAccountRevoked(userId: string, provider: string): Promise<void> {
+  await oauthRepository.update({ userId, provider }, { revokedAt: new Date() });
+}
+
+/**
+ * Whether the user still has the provider account (disconnecting deletes it)
+ */
+export async function isAccountConnected(userId: string, provider: string): Promise<boolean> {
+  return oauthRepository.exists({ where: { userId, provider } });
+}
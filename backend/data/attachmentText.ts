@@ -0,0 +1,118 @@
+import path from "path";
+import ExcelJS from "exceljs";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+
+type AttachmentFormat = "pdf" | "docx" | "xlsx" | "text";
+
+const FORMATS_BY_MIME_TYPE: Record<string, AttachmentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "text/plain": "text",
+  "text/csv": "text",
+  "text/markdown": "text",
+  "application/json": "text",
+};
+
+// Senders often attach documents as application/octet-stream, so the extension decides too
+const FORMATS_BY_EXTENSION: Record<string, AttachmentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".xlsx": "xlsx",
+  ".txt": "text",
+  ".csv": "text",
+  ".md": "text",
+  ".json": "text",
+  ".log": "text",
+};
+
+function detectFormat(filename: string, mimeType: string): AttachmentFormat | null {
+  return (
+    FORMATS_BY_MIME_TYPE[mimeType.toLowerCase()] ??
+    FORMATS_BY_EXTENSION[path.extname(filename).toLowerCase()] ??
+    null
+  );
+}
+
+/**
+ * Whether text can be extracted from an attachment (checked before downloading it)
+ */
+export function isSupportedAttachment(filename: string, mimeType: string): boolean {
+  return detectFormat(filename, mimeType) !== null;
+}
+
+async function extractPdfText(data: Buffer): Promise<string> {
+  const parser = new PDFParse({ data });
+  try {
+    // No "-- n of N --" page markers in the indexed text
+    const result = await parser.getText({ pageJoiner: "" });
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function extractDocxText(data: Buffer): Promise<string> {
+  const result = await mammoth.extractRawText({ buffer: data });
+  return result.value;
+}
+
+/**
+ * One block per sheet, one line per row with cells separated by " | "
+ */
+async function extractXlsxText(data: Buffer): Promise<string> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data as unknown as ExcelJS.Buffer);
+
+  const sheets: string[] = [];
+  workbook.eachSheet((worksheet) => {
+    const rows: string[] = [];
+    worksheet.eachRow((row) => {
+      const cells: string[] = [];
+      row.eachCell((cell) => {
+        const text = cell.text.trim();
+        if (text) cells.push(text);
+      });
+      if (cells.length > 0) rows.push(cells.join(" | "));
+    });
+    if (rows.length > 0) sheets.push(`Sheet: ${worksheet.name}\n${rows.join("\n")}`);
+  });
+  return sheets.join("\n\n");
+}
+
+/**
+ * Extracts the text of a PDF, DOCX, XLSX or plain text attachment locally.
+ * Returns null for unsupported formats.
+ */
+export async function extractAttachmentText(
+  filename: string,
+  mimeType: string,
+  data: Buffer
+): Promise<string | null> {
+  const format = detectFormat(filename, mimeType);
+  let text: string;
+
+  switch (format) {
+    case "pdf":
+      text = await extractPdfText(data);
+      break;
+    case "docx":
+      text = await extractDocxText(data);
+      break;
+    case "xlsx":
+      text = await extractXlsxText(data);
+      break;
+    case "text":
+      text = data.toString("utf-8");
+      break;
+    default:
+      return null;
+  }
+
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/[ \t]{2,}/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
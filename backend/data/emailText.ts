@@ -0,0 +1,209 @@
+import { compile, type FormatCallback, type SelectorDefinition } from "html-to-text";
+
+/**
+ * What is removed from email bodies before indexing. Quoted reply history
+ * repeats earlier emails (already indexed on their own) and signatures add the
+ * same noise to every email.
+ */
+export interface EmailTextRules {
+  stripQuotes: boolean;
+  stripSignatures: boolean;
+  // A line matching one of these starts the quoted history; it and everything after it are dropped
+  quoteMarkers: RegExp[];
+  // A line matching one of these starts the signature; it and everything after it are dropped
+  signatureMarkers: RegExp[];
+}
+
+const DEFAULT_QUOTE_MARKERS = [
+  // Gmail / Apple Mail / Thunderbird: "On Mon, 3 Jun 2024 at 10:02, Sarah <sarah@acme.com> wrote:" (may wrap once)
+  /^On\b[^\n]{0,250}(?:\n[^\n]{0,250})?\bwrote:[ \t]*$/im,
+  // Outlook ("Date:" instead of "Sent:" is a forwarded message, which is the content)
+  /^-{2,}[ \t]*Original Message[ \t]*-{2,}/im,
+  /^From:[^\n]+\nSent:[^\n]+\n(?:To|Subject):/im,
+];
+
+const DEFAULT_SIGNATURE_MARKERS = [
+  // RFC 3676 signature delimiter
+  /^--[ \t]?$/m,
+  /^Sent from my (?:iPhone|iPad|Android|phone|mobile|BlackBerry)\b/im,
+  /^Get Outlook for (?:iOS|Android)\b/im,
+];
+
+// HTML elements mail clients wrap quoted history and signatures in
+const QUOTE_SELECTORS = [".gmail_quote", "blockquote[type=cite]", ".moz-cite-prefix", ".yahoo_quoted"];
+const SIGNATURE_SELECTORS = [".gmail_signature", ".moz-signature", "#Signature", ".signature"];
+
+/**
+ * Parses an extra marker from the environment (a case-insensitive regular
+ * expression matched against each line). Invalid expressions are ignored.
+ */
+function parseMarker(name: string): RegExp[] {
+  const source = process.env[name];
+  if (!source) return [];
+  try {
+    return [new RegExp(source, "im")];
+  } catch (error: any) {
+    console.error(`Ignoring invalid ${name}:`, error.message);
+    return [];
+  }
+}
+
+/**
+ * Rules from GMAIL_STRIP_QUOTES / GMAIL_STRIP_SIGNATURES ("false" keeps them) and
+ * the extra markers GMAIL_QUOTE_MARKER / GMAIL_SIGNATURE_MARKER
+ */
+export function getEmailTextRules(): EmailTextRules {
+  return {
+    stripQuotes: process.env.GMAIL_STRIP_QUOTES !== "false",
+    stripSignatures: process.env.GMAIL_STRIP_SIGNATURES !== "false",
+    quoteMarkers: [...DEFAULT_QUOTE_MARKERS, ...parseMarker("GMAIL_QUOTE_MARKER")],
+    signatureMarkers: [...DEFAULT_SIGNATURE_MARKERS, ...parseMarker("GMAIL_SIGNATURE_MARKER")],
+  };
+}
+
+/**
+ * Renders a table one row per line with cells separated by " | " (like
+ * spreadsheet attachments). Rows of layout tables, whose cells hold whole
+ * blocks of text, keep each cell on its own lines instead.
+ */
+const formatRowTable: FormatCallback = (elem, walk, builder, formatOptions) => {
+  builder.openTable();
+  elem.children.forEach(walkTable);
+  builder.closeTable({
+    tableToString: (rows) =>
+      rows
+        .map((cells) => {
+          const texts = cells.map((cell) => cell.text.trim()).filter(Boolean);
+          return texts.some((text) => text.includes("\n")) ? texts.join("\n") : texts.join(" | ");
+        })
+        .filter(Boolean)
+        .join("\n"),
+    leadingLineBreaks: formatOptions.leadingLineBreaks ?? 1,
+    trailingLineBreaks: formatOptions.trailingLineBreaks ?? 1,
+  });
+
+  function walkTable(node: any): void {
+    if (node.type !== "tag") return;
+
+    switch (node.name) {
+      case "thead":
+      case "tbody":
+      case "tfoot":
+      case "center":
+        node.children.forEach(walkTable);
+        return;
+      case "tr":
+        builder.openTableRow();
+        for (const cell of node.children) {
+          if (cell.type !== "tag" || (cell.name !== "td" && cell.name !== "th")) continue;
+          builder.openTableCell({ maxColumnWidth: Number.MAX_SAFE_INTEGER });
+          walk(cell.children, builder);
+          builder.closeTableCell();
+        }
+        builder.closeTableRow();
+        return;
+    }
+  }
+};
+
+const converters = new Map<string, ReturnType<typeof compile>>();
+
+/**
+ * HTML-to-text converter for the given rules (compiling one is not free, so they are reused)
+ */
+function getConverter(rules: EmailTextRules) {
+  const key = `${rules.stripQuotes}:${rules.stripSignatures}`;
+  let converter = converters.get(key);
+  if (!converter) {
+    const skipped = [
+      "img",
+      "[style*='display:none']",
+      "[style*='display: none']",
+      ...(rules.stripQuotes ? QUOTE_SELECTORS : []),
+      ...(rules.stripSignatures ? SIGNATURE_SELECTORS : []),
+    ];
+    const selectors: SelectorDefinition[] = [
+      // Link text stays, tracking URLs do not
+      { selector: "a", options: { ignoreHref: true } },
+      { selector: "table", format: "rowTable" },
+      ...["h1", "h2", "h3", "h4", "h5", "h6"].map((selector) => ({ selector, options: { uppercase: false } })),
+      ...skipped.map((selector) => ({ selector, format: "skip" })),
+    ];
+    converter = compile({
+      wordwrap: false,
+      formatters: { rowTable: formatRowTable },
+      selectors,
+    });
+    converters.set(key, converter);
+  }
+  return converter;
+}
+
+/**
+ * Cuts the text at the earliest marker that has text before it (an email
+ * consisting only of a forwarded message keeps it)
+ */
+function cutAtMarkers(text: string, markers: RegExp[]): string {
+  let end = text.length;
+  for (const marker of markers) {
+    const match = marker.exec(text);
+    if (match && match.index < end && text.substring(0, match.index).trim()) {
+      end = match.index;
+    }
+  }
+  return text.substring(0, end);
+}
+
+function stripQuotesAndSignatures(text: string, rules: EmailTextRules): string {
+  let result = text;
+  if (rules.stripQuotes) {
+    result = cutAtMarkers(result, rules.quoteMarkers);
+    // "> " quoted lines interleaved with the reply
+    result = result.replace(/^>.*(?:\n|$)/gm, "");
+  }
+  if (rules.stripSignatures) {
+    result = cutAtMarkers(result, rules.signatureMarkers);
+  }
+  return result;
+}
+
+/**
+ * Normalizes whitespace and removes what carries no searchable text: URLs,
+ * image placeholders, separator lines and invisible preheader padding
+ */
+function cleanText(text: string): string {
+  return text
+    .replace(/\r\n/g, "\n")
+    .replace(/[\u200b-\u200d\u034f\u00ad\ufeff]/g, "")
+    .replace(/\u00a0/g, " ")
+    .replace(/<(?:https?|ftp|mailto):[^>\s]*>/gi, "")
+    .replace(/(?:https?|ftp):\/\/[^\s)\]>]+/gi, "")
+    .replace(/\[image:[^\]]*\]/gi, "")
+    .replace(/^[ \t]*[-=*_~]{3,}[ \t]*$/gm, "")
+    .replace(/\t/g, " ")
+    .replace(/ {2,}/g, " ")
+    .replace(/^ +| +$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Readable text of an email HTML body: tables, lists and paragraphs keep their
+ * structure; scripts, styles, images and hidden elements are dropped.
+ */
+export function htmlToText(html: string, rules: EmailTextRules = getEmailTextRules()): string {
+  return cleanText(stripQuotesAndSignatures(getConverter(rules)(html), rules));
+}
+
+/**
+ * Indexable text of an email body. The text/plain alternative is preferred;
+ * the HTML alternative is converted when there is no usable plain text.
+ */
+export function emailBodyToText(
+  body: { plain: string; html: string },
+  rules: EmailTextRules = getEmailTextRules()
+): string {
+  const plain = cleanText(stripQuotesAndSignatures(body.plain, rules));
+  if (plain || !body.html) return plain;
+  return htmlToText(body.html, rules);
+}
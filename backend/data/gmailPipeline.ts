@@ -1,38 +1,38 @@
 import { google } from "googleapis";
 import moment from "moment";
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
 import { AppDataSource } from "../data-source";
 import { OAuthAccount } from "../entities/OAuthAccount";
 import { GmailSyncLog } from "../entities/GmailSyncLog";
-import { MilvusClient } from "@zilliz/milvus2-sdk-node";
-import { OpenAIEmbeddings } from "@langchain/openai";
+import { getVectorStore } from "../vectorstore";
+import { getEmbeddings } from "../llm";
+import { AccountRevokedError, isRevokedCredentialError, markAccountRevoked } from "./accountStatus";
+import { extractAttachmentText, isSupportedAttachment } from "./attachmentText";
+import { emailBodyToText } from "./emailText";
+import { emptySyncProgress, PartialSyncError, type IngestOptions, type SyncProgress } from "./types";
 
 const oauthRepository = AppDataSource.getRepository(OAuthAccount);
 const syncLogRepository = AppDataSource.getRepository(GmailSyncLog);
 
-// Initialize OpenAI embeddings (lazy - only connects when used)
-const embeddings = new OpenAIEmbeddings({
-  openAIApiKey: process.env.OPENAI_API_KEY,
-  modelName: "text-embedding-ada-002", // 1536 dimensions
-});
+// Embeddings model selected by EMBEDDING_PROVIDER
+const embeddings = getEmbeddings();
 
-// Lazy initialization for Milvus client to avoid connection at module load
-let milvusClient: MilvusClient | null = null;
+const vectorStore = getVectorStore("Gmail");
 
-function getMilvusClient(): MilvusClient {
-  if (!milvusClient) {
-    let address = process.env.MILVUS_ADDRESS || "in03-e3d59000ddbccb2.serverless.aws-eu-central-1.cloud.zilliz.com";
-    address = address.replace(/^https?:\/\//, "");
+// Text splitter for chunking email bodies (same settings as Notion pages)
+const textSplitter = new RecursiveCharacterTextSplitter({
+  chunkSize: 1000,
+  chunkOverlap: 200,
+});
 
-    milvusClient = new MilvusClient({
-      address,
-      token: `${process.env.MILVUS_USER}:${process.env.MILVUS_PASSWORD}`,
-      ssl: true,
-    });
-  }
-  return milvusClient;
-}
+// Messages with these labels are not indexed (and are removed from the index when they get them)
+const EXCLUDED_LABELS = ["TRASH", "SPAM"];
+
+const DEFAULT_BACKFILL_DAYS = 90;
+const DEFAULT_ATTACHMENT_MAX_MB = 10;
 
-const COLLECTION_NAME = "Gmail";
+// Syncs in which an email may fail to index before it is given up
+const MAX_EMAIL_ATTEMPTS = 3;
 
 /**
  * Creates a Google OAuth2 client with the user's tokens
@@ -91,159 +91,290 @@ async function refreshGoogleToken(googleAccount: OAuthAccount): Promise<string>
 }
 
 /**
- * Cleans and extracts only meaningful text from email content
+ * Decoded text/plain and text/html bodies of a message, at any nesting depth
+ * (multipart/mixed, alternative, related). Attached text files are not bodies.
  */
-function cleanEmailContent(rawContent: string): string {
-  let content = rawContent;
-
-  // Remove HTML tags
-  content = content.replace(/<[^>]*>/g, " ");
+function collectBodyParts(payload: any, body = { plain: "", html: "" }): { plain: string; html: string } {
+  if (!payload) return body;
+
+  if (payload.body?.data && !payload.filename) {
+    const text = Buffer.from(payload.body.data, "base64url").toString("utf-8");
+    if (payload.mimeType === "text/plain") {
+      body.plain += text;
+    } else if (payload.mimeType === "text/html") {
+      body.html += text;
+    }
+  }
 
-  // Remove URLs (http, https, ftp)
-  content = content.replace(/(?:https?|ftp):\/\/[^\s\)\]\>]+/gi, "");
+  for (const part of payload.parts || []) {
+    collectBodyParts(part, body);
+  }
+  return body;
+}
 
-  // Remove markdown-style links like ( http://... ) or [text](url)
-  content = content.replace(/\([^)]*https?:\/\/[^)]*\)/gi, "");
-  content = content.replace(/\[[^\]]*\]\([^)]*\)/gi, "");
+/**
+ * Extracts the readable text of an email: the plain text body when there is
+ * one, otherwise the converted HTML body, without quoted replies and signatures
+ */
+function extractEmailContent(payload: any): string {
+  return emailBodyToText(collectBodyParts(payload));
+}
 
-  // Remove email addresses
-  content = content.replace(/[\w.-]+@[\w.-]+\.\w+/gi, "");
+/**
+ * Gets email header value by name
+ */
+function getHeader(headers: any[], name: string): string {
+  const header = headers?.find((h: any) => h.name.toLowerCase() === name.toLowerCase());
+  return header?.value || "";
+}
 
-  // Remove tracking parameters and UTM codes
-  content = content.replace(/\?utm_[^\s]*/gi, "");
+/**
+ * Lowercased email addresses in an address header (From, To, Cc)
+ */
+function parseAddresses(value: string): string[] {
+  return (value.match(/[^\s<>,;:"']+@[^\s<>,;:"']+/g) ?? []).map((address) => address.toLowerCase());
+}
 
-  // Remove lines that are just dashes, asterisks, or equals signs (separators)
-  content = content.replace(/^[-=*_]{3,}$/gm, "");
+/**
+ * Display name of a From header ("Sarah Lee" <sarah@acme.com> -> Sarah Lee),
+ * or the address when there is none
+ */
+function parseSenderName(value: string): string {
+  const name = value.replace(/<[^>]*>/, "").replace(/["']/g, "").trim();
+  return name || parseAddresses(value)[0] || value;
+}
 
-  // Remove lines that contain only special characters
-  content = content.replace(/^[\s*#\-=_©®™]+$/gm, "");
+// A file attached to a message (its data is downloaded separately)
+interface AttachmentPart {
+  filename: string;
+  mimeType: string;
+  attachmentId: string;
+  size: number;
+}
 
-  // Remove common footer/unsubscribe text patterns
-  content = content.replace(/unsubscribe|opt.?out|manage.*preferences|notification.*settings|edit.*settings/gi, "");
+// Text extracted from an attachment, indexed as chunks of its email
+interface AttachmentText {
+  filename: string;
+  text: string;
+}
 
-  // Remove "View in browser" type links
-  content = content.replace(/view.*in.*browser|click.*here|learn.*more/gi, "");
+/**
+ * The file attachments of a message, at any nesting depth
+ */
+function findAttachmentParts(payload: any): AttachmentPart[] {
+  if (!payload) return [];
+  const own: AttachmentPart[] =
+    payload.filename && payload.body?.attachmentId
+      ? [
+          {
+            filename: payload.filename,
+            mimeType: payload.mimeType || "application/octet-stream",
+            attachmentId: payload.body.attachmentId,
+            size: payload.body.size || 0,
+          },
+        ]
+      : [];
+  return [...own, ...(payload.parts || []).flatMap((part: any) => findAttachmentParts(part))];
+}
 
-  // Remove copyright notices
-  content = content.replace(/©\s*\d{4}[^.\n]*/gi, "");
+/**
+ * Largest attachment downloaded for indexing, from GMAIL_ATTACHMENT_MAX_MB (0 = attachments are not indexed)
+ */
+function getAttachmentMaxBytes(): number {
+  const value = Number(process.env.GMAIL_ATTACHMENT_MAX_MB ?? DEFAULT_ATTACHMENT_MAX_MB);
+  return (Number.isFinite(value) && value >= 0 ? value : DEFAULT_ATTACHMENT_MAX_MB) * 1024 * 1024;
+}
 
-  // Normalize whitespace
-  content = content
-    .replace(/\r\n/g, "\n") // Normalize line endings
-    .replace(/\t/g, " ") // Replace tabs with spaces
-    .replace(/ {2,}/g, " ") // Multiple spaces to single space
-    .replace(/\n{3,}/g, "\n\n") // Multiple newlines to double newline
-    .replace(/^\s+$/gm, "") // Remove lines with only whitespace
-    .trim();
+type GmailClient = ReturnType<typeof google.gmail>;
 
-  // Remove empty parentheses and brackets that remain after URL removal
-  content = content.replace(/\(\s*\)/g, "");
-  content = content.replace(/\[\s*\]/g, "");
+// Label id -> lowercased label name (user labels are only known to searches by name)
+type LabelNames = Map<string, string>;
 
-  // Final cleanup - remove any remaining excessive whitespace
-  content = content.replace(/\n{3,}/g, "\n\n").trim();
+/**
+ * Loads the names of the mailbox's labels
+ */
+async function getLabelNames(gmail: GmailClient): Promise<LabelNames> {
+  const response = await gmail.users.labels.list({ userId: "me" });
+  return new Map(
+    (response.data.labels || [])
+      .filter((label) => label.id && label.name)
+      .map((label) => [label.id!, label.name!.toLowerCase()])
+  );
+}
 
-  return content;
+function toLabelNames(labelIds: string[], labelNames: LabelNames): string[] {
+  return labelIds.map((id) => labelNames.get(id) ?? id.toLowerCase());
 }
 
 /**
- * Extracts plain text from email payload
+ * Downloads the supported attachments under the size limit and extracts their
+ * text. An attachment that cannot be read is left out; the email is still indexed.
  */
-function extractEmailContent(payload: any): string {
-  let content = "";
+async function fetchAttachmentTexts(
+  gmail: GmailClient,
+  emailId: string,
+  parts: AttachmentPart[]
+): Promise<AttachmentText[]> {
+  const maxBytes = getAttachmentMaxBytes();
+  const attachments: AttachmentText[] = [];
 
-  if (payload.body?.data) {
-    // Decode base64url encoded content
-    content = Buffer.from(payload.body.data, "base64url").toString("utf-8");
-  }
+  for (const part of parts) {
+    if (!isSupportedAttachment(part.filename, part.mimeType) || part.size > maxBytes) continue;
 
-  if (payload.parts) {
-    for (const part of payload.parts) {
-      if (part.mimeType === "text/plain" && part.body?.data) {
-        content += Buffer.from(part.body.data, "base64url").toString("utf-8");
-      } else if (part.mimeType === "multipart/alternative" && part.parts) {
-        // Recursively handle nested parts
-        content += extractEmailContent(part);
+    try {
+      const response = await gmail.users.messages.attachments.get({
+        userId: "me",
+        messageId: emailId,
+        id: part.attachmentId,
+      });
+      const data = Buffer.from(response.data.data || "", "base64url");
+      const text = await extractAttachmentText(part.filename, part.mimeType, data);
+      if (text) {
+        attachments.push({ filename: part.filename, text });
       }
+    } catch (error: any) {
+      console.error(`Could not read attachment "${part.filename}" of email ${emailId}:`, error.message);
     }
   }
 
-  // Clean and extract only meaningful text
-  return cleanEmailContent(content);
+  return attachments;
 }
 
+// Filterable details of an email stored next to its vector
+interface EmailDetails {
+  emailId: string;
+  threadId: string;
+  sender: string;
+  recipients: string[];
+  subject: string;
+  content: string;
+  attachments: AttachmentText[];
+  receivedAt: Date;
+  labelIds: string[];
+  hasAttachment: boolean;
+}
+
+type SyncOutcome = "processed" | "deleted" | "skipped";
+
 /**
- * Gets email header value by name
+ * Initial backfill horizon in days from GMAIL_BACKFILL_DAYS (0 = the whole mailbox)
  */
-function getHeader(headers: any[], name: string): string {
-  const header = headers?.find((h: any) => h.name.toLowerCase() === name.toLowerCase());
-  return header?.value || "";
+function getBackfillDays(): number {
+  const value = Number(process.env.GMAIL_BACKFILL_DAYS ?? DEFAULT_BACKFILL_DAYS);
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_BACKFILL_DAYS;
+}
+
+function isNotFound(error: any): boolean {
+  return error?.code === 404 || error?.response?.status === 404;
 }
 
 /**
- * Checks if an email has already been synced
+ * Loads the ids of every email already synced for a user
  */
-async function isEmailSynced(userId: string, emailId: string): Promise<boolean> {
-  const existingLog = await syncLogRepository.findOne({
-    where: {
-      userId,
-      emailId,
-    },
+async function getSyncedEmailIds(userId: string): Promise<Set<string>> {
+  const logs = await syncLogRepository.find({
+    where: { userId },
+    select: ["emailId"],
   });
-  return !!existingLog;
+  return new Set(logs.map((log) => log.emailId));
 }
 
 /**
- * Records a synced email in the database
+ * Records a synced email in the database (updates the existing entry on re-sync)
  */
 async function recordSyncedEmail(
   userId: string,
   emailId: string,
   sender: string,
   subject: string,
-  receivedAt: Date
+  receivedAt: Date,
+  labelIds: string[]
 ): Promise<void> {
-  const syncLog = syncLogRepository.create({
-    userId,
-    emailId,
-    sender: sender.substring(0, 256),
-    subject: subject.substring(0, 512),
-    receivedAt,
-  });
-  await syncLogRepository.save(syncLog);
+  await syncLogRepository.upsert(
+    {
+      userId,
+      emailId,
+      sender: sender.substring(0, 256),
+      subject: subject.substring(0, 512),
+      receivedAt,
+      labelIds,
+    },
+    ["userId", "emailId"]
+  );
 }
 
 /**
- * Stores an email in Zilliz vector database
+ * Stores an email in the vector store, one row per chunk of its body and of
+ * each attachment's text (attachment rows carry the attachment's filename)
  */
-async function storeEmailInZilliz(
+async function storeEmailInVectorStore(
   userId: string,
-  emailId: string,
-  sender: string,
-  subject: string,
-  content: string
+  email: EmailDetails,
+  labelNames: LabelNames
 ): Promise<void> {
-  // Generate embedding for subject + content
-  const textForEmbedding = `${subject}\n\n${content}`;
-  const embeddingVector = await embeddings.embedQuery(textForEmbedding);
-
-  // Prepare data for insertion
-  const data = {
+  const { emailId, sender, subject, content } = email;
+
+  const bodyChunks = content ? await textSplitter.splitText(content) : [];
+  const attachmentChunks = await Promise.all(
+    email.attachments.map(async (attachment) => ({
+      filename: attachment.filename,
+      chunks: await textSplitter.splitText(attachment.text),
+    }))
+  );
+
+  const chunks = [
+    ...bodyChunks.map((chunk, index) => ({ key: String(index), index, chunk, filename: null })),
+    ...attachmentChunks.flatMap((attachment, attachmentIndex) =>
+      attachment.chunks.map((chunk, index) => ({
+        key: `a${attachmentIndex}:${index}`,
+        index,
+        chunk,
+        filename: attachment.filename,
+      }))
+    ),
+  ];
+
+  // Generate embeddings for subject (+ attachment filename) + chunk
+  const textsForEmbedding = chunks.map(({ chunk, filename }) =>
+    filename ? `${subject}\n\n${filename}\n\n${chunk}` : `${subject}\n\n${chunk}`
+  );
+  const embeddingVectors = await embeddings.embedDocuments(textsForEmbedding);
+
+  // Metadata shared by every chunk of the email
+  const emailMetadata = {
     user_id: userId.substring(0, 64),
     email_id: emailId.substring(0, 128),
+    thread_id: email.threadId.substring(0, 128),
     sender: sender.substring(0, 256),
+    // Lowercased for the search tool's "from" filter
+    sender_address: (parseAddresses(sender)[0] ?? "").substring(0, 256),
+    sender_name: parseSenderName(sender).toLowerCase().substring(0, 256),
+    recipients: email.recipients,
     subject: subject.substring(0, 512),
-    content: content.substring(0, 10000),
-    embedding: embeddingVector,
+    received_at: email.receivedAt.getTime(),
+    labels: email.labelIds,
+    label_names: toLabelNames(email.labelIds, labelNames),
+    has_attachment: email.hasAttachment,
   };
 
-  // Insert into Zilliz
+  const records = chunks.map(({ key, index, chunk, filename }, position) => ({
+    id: `${userId}:${emailId}:${key}`,
+    embedding: embeddingVectors[position]!,
+    metadata: {
+      ...emailMetadata,
+      chunk_index: index,
+      ...(filename && { attachment_filename: filename.substring(0, 512) }),
+      content: chunk,
+    },
+  }));
+
   try {
-    const insertResult = await getMilvusClient().insert({
-      collection_name: COLLECTION_NAME,
-      data: [data],
-    });
-    console.log(`Inserted email: ${subject.substring(0, 50)}...`);
+    // Delete the previous rows of this email (to handle updates and emails
+    // indexed as a single row before chunking) only once its new rows are
+    // embedded, so a failed embedding leaves the email searchable
+    await vectorStore.deleteByFilter({ user_id: userId, email_id: emailId });
+    await vectorStore.upsert(records);
+    console.log(`Inserted email in ${records.length} chunks: ${subject.substring(0, 50)}...`);
   } catch (error: any) {
     console.error(`Error inserting email "${subject}":`, error.message);
     throw error;
@@ -251,11 +382,408 @@ async function storeEmailInZilliz(
 }
 
 /**
- * Fetches and ingests Gmail emails from the last 5 days
+ * Removes an email from the vector store and the sync log
+ */
+async function removeSyncedEmail(userId: string, emailId: string): Promise<void> {
+  await vectorStore.deleteByFilter({ user_id: userId, email_id: emailId });
+  await syncLogRepository.delete({ userId, emailId });
+}
+
+/**
+ * Fetches a message and indexes it, or removes it when it no longer exists
+ * or has been moved to trash/spam
+ */
+async function syncMessage(
+  gmail: GmailClient,
+  userId: string,
+  emailId: string,
+  labelNames: LabelNames
+): Promise<SyncOutcome> {
+  let email;
+  try {
+    const emailResponse = await gmail.users.messages.get({
+      userId: "me",
+      id: emailId,
+      format: "full",
+    });
+    email = emailResponse.data;
+  } catch (error: any) {
+    if (isNotFound(error)) {
+      await removeSyncedEmail(userId, emailId);
+      return "deleted";
+    }
+    throw error;
+  }
+
+  const labelIds = email.labelIds || [];
+  if (labelIds.some((label) => EXCLUDED_LABELS.includes(label))) {
+    await removeSyncedEmail(userId, emailId);
+    return "deleted";
+  }
+
+  const headers = email.payload?.headers || [];
+
+  const subject = getHeader(headers, "Subject") || "(No Subject)";
+  const sender = getHeader(headers, "From") || "Unknown";
+  const recipients = parseAddresses(`${getHeader(headers, "To")}, ${getHeader(headers, "Cc")}`);
+  // Gmail's receive time; the Date header is set by the sender and may be missing or wrong
+  const dateStr = getHeader(headers, "Date");
+  const receivedAt = email.internalDate
+    ? new Date(Number(email.internalDate))
+    : dateStr ? new Date(dateStr) : new Date();
+
+  // Extract email content
+  const content = extractEmailContent(email.payload);
+  const attachmentParts = findAttachmentParts(email.payload);
+  const attachments = await fetchAttachmentTexts(gmail, emailId, attachmentParts);
+
+  if ((!content || content.trim().length === 0) && attachments.length === 0) {
+    console.log(`Email "${subject.substring(0, 30)}..." has no content, skipping...`);
+    return "skipped";
+  }
+
+  console.log(`\n--- Processing: ${subject.substring(0, 50)}... ---`);
+  console.log(`From: ${sender.substring(0, 50)}`);
+  console.log(`Content length: ${content.length} characters`);
+  if (attachments.length > 0) {
+    console.log(`Attachments: ${attachments.map((attachment) => attachment.filename).join(", ")}`);
+  }
+
+  // Store in the vector store
+  await storeEmailInVectorStore(
+    userId,
+    {
+      emailId,
+      threadId: email.threadId || emailId,
+      sender,
+      recipients,
+      subject,
+      content,
+      attachments,
+      receivedAt,
+      labelIds,
+      hasAttachment: attachmentParts.length > 0,
+    },
+    labelNames
+  );
+
+  // Record in sync log
+  await recordSyncedEmail(userId, emailId, sender, subject, receivedAt, labelIds);
+
+  return "processed";
+}
+
+/**
+ * Applies a label change. Already indexed emails only get their labels updated
+ * (no re-embedding); emails that are not indexed yet (e.g. restored from trash)
+ * are synced in full.
+ */
+async function syncMessageLabels(
+  gmail: GmailClient,
+  userId: string,
+  emailId: string,
+  syncedIds: Set<string>,
+  labelNames: LabelNames
+): Promise<SyncOutcome> {
+  if (!syncedIds.has(emailId)) {
+    return syncMessage(gmail, userId, emailId, labelNames);
+  }
+
+  let labelIds: string[];
+  try {
+    const emailResponse = await gmail.users.messages.get({
+      userId: "me",
+      id: emailId,
+      format: "minimal",
+    });
+    labelIds = emailResponse.data.labelIds || [];
+  } catch (error: any) {
+    if (isNotFound(error)) {
+      await removeSyncedEmail(userId, emailId);
+      return "deleted";
+    }
+    throw error;
+  }
+
+  if (labelIds.some((label) => EXCLUDED_LABELS.includes(label))) {
+    await removeSyncedEmail(userId, emailId);
+    return "deleted";
+  }
+
+  await vectorStore.updateMetadata(
+    { user_id: userId, email_id: emailId },
+    { labels: labelIds, label_names: toLabelNames(labelIds, labelNames) }
+  );
+  await syncLogRepository.update({ userId, emailId }, { labelIds });
+
+  return "processed";
+}
+
+/**
+ * Full backfill: lists every message within the backfill horizon and indexes
+ * the ones not synced yet
+ * @returns The mailbox history id to continue incremental syncs from
+ */
+async function runFullSync(
+  gmail: GmailClient,
+  userId: string,
+  labelNames: LabelNames,
+  forceSync: boolean,
+  progress: SyncProgress,
+  failedIds: Set<string>,
+  onProgress?: (progress: SyncProgress) => void
+): Promise<string | null> {
+  // Read the history id before listing, so changes made during the backfill
+  // are picked up by the next incremental sync
+  const profile = await gmail.users.getProfile({ userId: "me" });
+  const historyId = profile.data.historyId || null;
+
+  const backfillDays = getBackfillDays();
+  const query = backfillDays > 0
+    ? `after:${moment().subtract(backfillDays, "days").format("YYYY/MM/DD")}`
+    : undefined;
+
+  console.log("\n=== Gmail Full Sync ===");
+  console.log(`User ID: ${userId}`);
+  console.log(`Backfill horizon: ${backfillDays > 0 ? `${backfillDays} days` : "entire mailbox"}`);
+
+  // Fetch email list from Gmail
+  const allMessages: string[] = [];
+  let pageToken: string | null = null;
+
+  do {
+    const listParams: any = {
+      userId: "me",
+      maxResults: 500,
+    };
+
+    if (query) {
+      listParams.q = query;
+    }
+    if (pageToken) {
+      listParams.pageToken = pageToken;
+    }
+
+    const response = await gmail.users.messages.list(listParams);
+
+    for (const message of response.data.messages || []) {
+      if (message.id) {
+        allMessages.push(message.id);
+      }
+    }
+
+    pageToken = response.data.nextPageToken || null;
+  } while (pageToken);
+
+  console.log(`Total emails found: ${allMessages.length}`);
+  progress.total += allMessages.length;
+  onProgress?.(progress);
+
+  // Skip already synced emails (unless force sync)
+  const syncedIds = forceSync ? new Set<string>() : await getSyncedEmailIds(userId);
+
+  for (const emailId of allMessages) {
+    if (syncedIds.has(emailId)) {
+      progress.skipped++;
+      onProgress?.(progress);
+      continue;
+    }
+
+    try {
+      progress[await syncMessage(gmail, userId, emailId, labelNames)]++;
+
+      // Add a small delay to avoid rate limiting
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    } catch (emailError: any) {
+      console.error(`Error processing email ${emailId}:`, emailError.message);
+      progress.failed++;
+      failedIds.add(emailId);
+    }
+    onProgress?.(progress);
+  }
+
+  return historyId;
+}
+
+/**
+ * Incremental sync: applies the mailbox changes recorded since `startHistoryId`
+ * @returns The new history id, or null when `startHistoryId` is too old
+ * for the history API (a full sync is needed)
+ */
+async function runIncrementalSync(
+  gmail: GmailClient,
+  userId: string,
+  labelNames: LabelNames,
+  startHistoryId: string,
+  progress: SyncProgress,
+  failedIds: Set<string>,
+  onProgress?: (progress: SyncProgress) => void
+): Promise<string | null> {
+  console.log("\n=== Gmail Incremental Sync ===");
+  console.log(`User ID: ${userId}`);
+  console.log(`Changes since history id: ${startHistoryId}`);
+
+  // Latest change per message; a deletion or a new message wins over label changes
+  const changes = new Map<string, "added" | "deleted" | "labels">();
+  let latestHistoryId = startHistoryId;
+  let pageToken: string | null = null;
+
+  do {
+    let response;
+    try {
+      const historyParams: any = {
+        userId: "me",
+        startHistoryId,
+        historyTypes: ["messageAdded", "messageDeleted", "labelAdded", "labelRemoved"],
+        maxResults: 500,
+      };
+      if (pageToken) {
+        historyParams.pageToken = pageToken;
+      }
+      response = await gmail.users.history.list(historyParams);
+    } catch (error: any) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+
+    for (const record of response.data.history || []) {
+      for (const added of record.messagesAdded || []) {
+        if (added.message?.id) changes.set(added.message.id, "added");
+      }
+      for (const deleted of record.messagesDeleted || []) {
+        if (deleted.message?.id) changes.set(deleted.message.id, "deleted");
+      }
+      for (const labelChange of [...(record.labelsAdded || []), ...(record.labelsRemoved || [])]) {
+        const emailId = labelChange.message?.id;
+        if (emailId && !changes.has(emailId)) changes.set(emailId, "labels");
+      }
+    }
+
+    latestHistoryId = response.data.historyId || latestHistoryId;
+    pageToken = response.data.nextPageToken || null;
+  } while (pageToken);
+
+  console.log(`Changed emails: ${changes.size}`);
+  progress.total += changes.size;
+  onProgress?.(progress);
+
+  const syncedIds = await getSyncedEmailIds(userId);
+
+  for (const [emailId, change] of changes) {
+    try {
+      if (change === "deleted") {
+        if (syncedIds.has(emailId)) {
+          await removeSyncedEmail(userId, emailId);
+          progress.deleted++;
+        } else {
+          progress.skipped++;
+        }
+      } else if (change === "labels") {
+        progress[await syncMessageLabels(gmail, userId, emailId, syncedIds, labelNames)]++;
+      } else {
+        progress[await syncMessage(gmail, userId, emailId, labelNames)]++;
+      }
+    } catch (emailError: any) {
+      console.error(`Error processing email ${emailId}:`, emailError.message);
+      progress.failed++;
+      failedIds.add(emailId);
+    }
+    onProgress?.(progress);
+  }
+
+  return latestHistoryId;
+}
+
+/**
+ * Retries the emails that failed to index in earlier syncs. They are retried
+ * on their own because the history cursor has already moved past them.
+ */
+async function retryFailedEmails(
+  gmail: GmailClient,
+  userId: string,
+  labelNames: LabelNames,
+  emailIds: string[],
+  progress: SyncProgress,
+  failedIds: Set<string>,
+  onProgress?: (progress: SyncProgress) => void
+): Promise<void> {
+  console.log(`Retrying ${emailIds.length} email(s) that failed in earlier syncs`);
+  progress.total += emailIds.length;
+  onProgress?.(progress);
+
+  for (const emailId of emailIds) {
+    try {
+      progress[await syncMessage(gmail, userId, emailId, labelNames)]++;
+    } catch (emailError: any) {
+      console.error(`Error processing email ${emailId}:`, emailError.message);
+      progress.failed++;
+      failedIds.add(emailId);
+    }
+    onProgress?.(progress);
+  }
+}
+
+/**
+ * Counts one more failed attempt for each email that failed in this sync.
+ * Emails that reach MAX_EMAIL_ATTEMPTS are given up; emails that were indexed
+ * this time are dropped.
+ * @returns The emails to retry in the next sync, or null when there are none
+ */
+function countFailedAttempts(
+  previousAttempts: Record<string, number>,
+  failedIds: Set<string>
+): Record<string, number> | null {
+  const attempts: Record<string, number> = {};
+
+  for (const emailId of failedIds) {
+    const count = (previousAttempts[emailId] ?? 0) + 1;
+    if (count >= MAX_EMAIL_ATTEMPTS) {
+      console.error(`Giving up on email ${emailId} after ${count} failed attempts`);
+    } else {
+      attempts[emailId] = count;
+    }
+  }
+
+  return Object.keys(attempts).length > 0 ? attempts : null;
+}
+
+/**
+ * Asks Gmail to publish mailbox changes to the GMAIL_PUBSUB_TOPIC Pub/Sub topic,
+ * whose push subscription calls the Gmail webhook. A watch expires after 7
+ * days, so it is renewed on every sync. Failures are logged only: the
+ * scheduled syncs still pick up new mail.
+ */
+async function watchMailbox(gmail: GmailClient): Promise<void> {
+  const topicName = process.env.GMAIL_PUBSUB_TOPIC;
+  if (!topicName) return;
+
+  try {
+    const response = await gmail.users.watch({
+      userId: "me",
+      requestBody: { topicName },
+    });
+    const expiration = response.data.expiration ? new Date(Number(response.data.expiration)).toISOString() : "unknown";
+    console.log(`Gmail push notifications enabled until ${expiration}`);
+  } catch (error: any) {
+    console.error("Error enabling Gmail push notifications:", error.response?.data || error.message);
+  }
+}
+
+/**
+ * Syncs a user's Gmail into the vector store. The first sync (or a forced one)
+ * backfills GMAIL_BACKFILL_DAYS of mail; later syncs only apply the changes
+ * since the stored history id, including deleted and relabeled emails.
+ * Emails that fail to index are retried by the next syncs, up to MAX_EMAIL_ATTEMPTS.
+ * Errors are rethrown so the job queue can retry the sync.
  * @param userId - The user ID to fetch emails for
- * @param forceSync - If true, bypasses the duplicate check and re-syncs all emails
+ * @param options.forceSync - If true, runs a full sync and re-indexes every email in the horizon
+ * @param options.onProgress - Called with the per-email counters as the sync advances
  */
-export async function ingestGmailEmails(userId: string, forceSync: boolean = false): Promise<void> {
+export async function ingestGmailEmails(userId: string, options: IngestOptions = {}): Promise<void> {
+  const { forceSync = false, onProgress } = options;
+
   try {
     // Get the Google OAuth credentials for this user
     const googleAccount = await oauthRepository.findOne({
@@ -288,116 +816,58 @@ export async function ingestGmailEmails(userId: string, forceSync: boolean = fal
     // Create Gmail API client
     const gmail = google.gmail({ version: "v1", auth: oauth2Client });
 
-    // Calculate the date 5 days ago
-    const fiveDaysAgo = moment().subtract(5, "days").format("YYYY/MM/DD");
-
-    console.log("\n=== Processing Gmail Emails from Last 5 Days ===");
-    console.log(`User ID: ${userId}`);
-    console.log(`Date range: ${fiveDaysAgo} to now`);
-
-    // Fetch email list from Gmail
-    let allMessages: any[] = [];
-    let pageToken: string | null = null;
-    let hasMore = true;
-
-    while (hasMore) {
-      const listParams: any = {
-        userId: "me",
-        q: `after:${fiveDaysAgo}`,
-        maxResults: 100,
-      };
-      
-      if (pageToken) {
-        listParams.pageToken = pageToken;
-      }
-
-      const response = await gmail.users.messages.list(listParams);
+    const progress = emptySyncProgress();
+    const labelNames = await getLabelNames(gmail);
+    const previousAttempts = googleAccount.failedEmailAttempts ?? {};
+    const failedIds = new Set<string>();
+    let historyId: string | null = null;
 
-      if (response.data.messages) {
-        allMessages.push(...response.data.messages);
-      }
-      
-      pageToken = response.data.nextPageToken || null;
-      hasMore = !!pageToken;
+    // Emails that failed in earlier syncs go first, so the sync below sees
+    // the ones that are indexed now as synced
+    if (Object.keys(previousAttempts).length > 0) {
+      await retryFailedEmails(gmail, userId, labelNames, Object.keys(previousAttempts), progress, failedIds, onProgress);
     }
 
-    console.log(`Total emails found: ${allMessages.length}`);
+    if (googleAccount.historyId && !forceSync) {
+      historyId = await runIncrementalSync(gmail, userId, labelNames, googleAccount.historyId, progress, failedIds, onProgress);
 
-    let processedCount = 0;
-    let skippedCount = 0;
-
-    // Process each email
-    for (const message of allMessages) {
-      const emailId = message.id;
-
-      // Check if email was already synced (skip if not force sync)
-      if (!forceSync) {
-        const alreadySynced = await isEmailSynced(userId, emailId);
-        if (alreadySynced) {
-          skippedCount++;
-          continue;
-        }
+      if (historyId === null) {
+        console.log("Gmail history id expired, falling back to a full sync");
       }
+    }
 
-      try {
-        // Fetch full email details
-        const emailResponse = await gmail.users.messages.get({
-          userId: "me",
-          id: emailId,
-          format: "full",
-        });
-
-        const email = emailResponse.data;
-        const headers = email.payload?.headers || [];
-
-        const subject = getHeader(headers, "Subject") || "(No Subject)";
-        const sender = getHeader(headers, "From") || "Unknown";
-        const dateStr = getHeader(headers, "Date");
-        const receivedAt = dateStr ? new Date(dateStr) : new Date();
-
-        // Extract email content
-        const content = extractEmailContent(email.payload);
-
-        if (!content || content.trim().length === 0) {
-          console.log(`Email "${subject.substring(0, 30)}..." has no content, skipping...`);
-          skippedCount++;
-          continue;
-        }
-
-        console.log(`\n--- Processing: ${subject.substring(0, 50)}... ---`);
-        console.log(`From: ${sender.substring(0, 50)}`);
-        console.log(`Content length: ${content.length} characters`);
-
-        // Store in Zilliz
-        await storeEmailInZilliz(userId, emailId, sender, subject, content);
-
-        // Record in sync log
-        await recordSyncedEmail(userId, emailId, sender, subject, receivedAt);
+    if (historyId === null) {
+      historyId = await runFullSync(gmail, userId, labelNames, forceSync, progress, failedIds, onProgress);
+    }
 
-        processedCount++;
+    // The cursor always moves on, so an email that keeps failing cannot hold
+    // back the rest of the mailbox; failed emails are retried by the next syncs
+    const failedEmailAttempts = countFailedAttempts(previousAttempts, failedIds);
 
-        // Add a small delay to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 200));
-
-      } catch (emailError: any) {
-        console.error(`Error processing email ${emailId}:`, emailError.message);
-        skippedCount++;
-      }
-    }
+    await oauthRepository.update(googleAccount.id, { historyId, failedEmailAttempts });
+    await watchMailbox(gmail);
 
     console.log("\n=== Gmail Pipeline Complete ===");
-    console.log(`Total emails found: ${allMessages.length}`);
-    console.log(`Emails processed (new): ${processedCount}`);
-    console.log(`Emails skipped (already synced or no content): ${skippedCount}`);
+    console.log(`Emails processed (new or updated): ${progress.processed}`);
+    console.log(`Emails deleted: ${progress.deleted}`);
+    console.log(`Emails skipped (already synced or no content): ${progress.skipped}`);
+    console.log(`Emails failed: ${progress.failed}`);
     console.log("================================\n");
 
+    if (progress.failed > 0) {
+      throw new PartialSyncError("Gmail", progress.failed);
+    }
+
   } catch (error: any) {
-    if (error.response?.status === 401) {
+    if (isRevokedCredentialError(error)) {
       console.error("Gmail authentication failed. User may need to reconnect their Google account.");
       console.error("Error details:", error.response?.data);
+      await markAccountRevoked(userId, "google");
+      throw new AccountRevokedError("Google");
     } else {
       console.error("Error in Gmail pipeline:", error.response?.data || error.message);
     }
+    throw error;
   }
 }
 
@@ -410,13 +880,10 @@ export async function deleteUserGmailData(userId: string): Promise<void> {
   try {
     console.log(`\n=== Deleting Gmail Data for User: ${userId} ===`);
 
-    // Delete from Zilliz vector database
+    // Delete from the vector store
     try {
-      const deleteResult = await getMilvusClient().delete({
-        collection_name: COLLECTION_NAME,
-        filter: `user_id == "${userId}"`,
-      });
-      console.log(`Deleted vectors from Zilliz Gmail collection`);
+      await vectorStore.deleteByFilter({ user_id: userId });
+      console.log(`Deleted vectors from Gmail collection`);
     } catch (error: any) {
       console.log(`No Gmail vectors to delete or collection doesn't exist:`, error.message);
     }
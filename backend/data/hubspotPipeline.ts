@@ -0,0 +1,665 @@
+import axios from "axios";
+import moment from "moment";
+import { createHash } from "crypto";
+import { In } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { OAuthAccount } from "../entities/OAuthAccount";
+import { HubspotSyncLog, type HubspotObjectType } from "../entities/HubspotSyncLog";
+import { getVectorStore } from "../vectorstore";
+import { getEmbeddings } from "../llm";
+import { AccountRevokedError, isRevokedCredentialError, markAccountRevoked } from "./accountStatus";
+import { emptySyncProgress, PartialSyncError, type IngestOptions, type SyncProgress } from "./types";
+
+const oauthRepository = AppDataSource.getRepository(OAuthAccount);
+const syncLogRepository = AppDataSource.getRepository(HubspotSyncLog);
+
+// Embeddings model selected by EMBEDDING_PROVIDER
+const embeddings = getEmbeddings();
+
+const vectorStore = getVectorStore("Hubspot");
+
+const HUBSPOT_API_URL = "https://api.hubapi.com";
+
+// Records embedded per embeddings/vector store call
+const EMBEDDING_BATCH_SIZE = 50;
+
+// Associated record names listed in a document before it is truncated
+const MAX_ASSOCIATED_NAMES = 20;
+
+type AssociationName = "contacts" | "companies" | "deals";
+
+interface HubspotObjectConfig {
+  type: HubspotObjectType;
+  // CRM v3 objects API path segment
+  path: "contacts" | "companies" | "deals" | "notes";
+  properties: string[];
+  associations: AssociationName[];
+  // Object type id used in record URLs (notes have no record page)
+  recordTypeId: string | null;
+  // OAuth scope needed to read the object type
+  scope: string;
+}
+
+const OBJECT_CONFIGS: HubspotObjectConfig[] = [
+  {
+    type: "contact",
+    path: "contacts",
+    properties: ["firstname", "lastname", "email", "phone", "company", "jobtitle", "lifecyclestage", "city", "country"],
+    associations: ["companies", "deals"],
+    recordTypeId: "0-1",
+    scope: "crm.objects.contacts.read",
+  },
+  {
+    type: "company",
+    path: "companies",
+    properties: ["name", "domain", "industry", "city", "country", "phone", "numberofemployees", "annualrevenue", "description"],
+    associations: ["contacts", "deals"],
+    recordTypeId: "0-2",
+    scope: "crm.objects.companies.read",
+  },
+  {
+    type: "deal",
+    path: "deals",
+    properties: ["dealname", "amount", "dealstage", "pipeline", "closedate", "description"],
+    associations: ["contacts", "companies"],
+    recordTypeId: "0-3",
+    scope: "crm.objects.deals.read",
+  },
+  {
+    type: "note",
+    path: "notes",
+    properties: ["hs_note_body", "hs_timestamp"],
+    associations: ["contacts", "companies", "deals"],
+    recordTypeId: null,
+    // Notes are read with the scope of the records they are attached to
+    scope: "crm.objects.contacts.read",
+  },
+];
+
+const ASSOCIATION_TYPES: Record<AssociationName, HubspotObjectType> = {
+  contacts: "contact",
+  companies: "company",
+  deals: "deal",
+};
+
+// Labels for the properties written into the indexed text
+const PROPERTY_LABELS: Record<string, string> = {
+  email: "Email",
+  phone: "Phone",
+  company: "Company",
+  jobtitle: "Job title",
+  lifecyclestage: "Lifecycle stage",
+  city: "City",
+  country: "Country",
+  domain: "Domain",
+  industry: "Industry",
+  numberofemployees: "Employees",
+  annualrevenue: "Annual revenue",
+  description: "Description",
+  amount: "Amount",
+  dealstage: "Deal stage",
+  pipeline: "Pipeline",
+  closedate: "Close date",
+};
+
+interface CrmObject {
+  type: HubspotObjectType;
+  id: string;
+  properties: Record<string, string | null>;
+  updatedAt: string | null;
+  associations: Partial<Record<AssociationName, string[]>>;
+}
+
+/**
+ * Refreshes the HubSpot access token using the refresh token
+ */
+async function refreshHubspotToken(hubspotAccount: OAuthAccount): Promise<string> {
+  const clientId = process.env.HUBSPOT_CLIENT_ID;
+  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET;
+
+  if (!clientId || !clientSecret) {
+    throw new Error("HubSpot OAuth credentials not configured");
+  }
+
+  if (!hubspotAccount.refreshToken) {
+    throw new Error("No refresh token available. User needs to re-authenticate.");
+  }
+
+  const tokenResponse = await axios.post(
+    `${HUBSPOT_API_URL}/oauth/v1/token`,
+    new URLSearchParams({
+      grant_type: "refresh_token",
+      client_id: clientId,
+      client_secret: clientSecret,
+      refresh_token: hubspotAccount.refreshToken,
+    }).toString(),
+    {
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+    }
+  );
+
+  const { access_token, refresh_token, expires_in } = tokenResponse.data;
+
+  hubspotAccount.accessToken = access_token;
+  if (refresh_token) {
+    hubspotAccount.refreshToken = refresh_token;
+  }
+  hubspotAccount.tokenExpiresAt = moment().add(expires_in, "seconds").toDate();
+
+  await oauthRepository.save(hubspotAccount);
+
+  return access_token;
+}
+
+/**
+ * Reads a record returned by the CRM objects API, including the ids of its associated records
+ */
+function toCrmObject(config: HubspotObjectConfig, result: any): CrmObject {
+  const associations: CrmObject["associations"] = {};
+  for (const name of config.associations) {
+    const ids: string[] = (result.associations?.[name]?.results || []).map((a: any) => String(a.id));
+    if (ids.length > 0) {
+      // The same pair can be listed once per association label
+      associations[name] = [...new Set(ids)];
+    }
+  }
+
+  return {
+    type: config.type,
+    id: String(result.id),
+    properties: result.properties || {},
+    updatedAt: result.updatedAt || null,
+    associations,
+  };
+}
+
+/**
+ * Pages through every (non-archived) record of one CRM object type,
+ * including the ids of its associated records
+ */
+async function fetchAllObjects(config: HubspotObjectConfig, accessToken: string): Promise<CrmObject[]> {
+  const objects: CrmObject[] = [];
+  let after: string | undefined = undefined;
+
+  do {
+    const response: { data: { results: any[]; paging?: { next?: { after?: string } } } } = await axios.get(
+      `${HUBSPOT_API_URL}/crm/v3/objects/${config.path}`,
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        params: {
+          limit: 100,
+          properties: config.properties.join(","),
+          associations: config.associations.join(","),
+          archived: false,
+          ...(after && { after }),
+        },
+      }
+    );
+
+    for (const result of response.data.results || []) {
+      objects.push(toCrmObject(config, result));
+    }
+
+    after = response.data.paging?.next?.after;
+
+    // Add a small delay to stay within HubSpot's rate limits
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  } while (after);
+
+  return objects;
+}
+
+/**
+ * Fetches a single record with its associations; null when it was deleted,
+ * archived or merged into another record
+ */
+async function fetchObject(config: HubspotObjectConfig, id: string, accessToken: string): Promise<CrmObject | null> {
+  try {
+    const response = await axios.get(`${HUBSPOT_API_URL}/crm/v3/objects/${config.path}/${id}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      params: {
+        properties: config.properties.join(","),
+        associations: config.associations.join(","),
+        archived: false,
+      },
+    });
+    return toCrmObject(config, response.data);
+  } catch (error: any) {
+    if (error.response?.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Converts a note body (HubSpot stores rich text as HTML) to plain text
+ */
+function noteBodyToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Display name of a CRM record
+ */
+function getObjectTitle(object: CrmObject): string {
+  const props = object.properties;
+
+  switch (object.type) {
+    case "contact":
+      return `${props.firstname || ""} ${props.lastname || ""}`.trim() || props.email || `Contact ${object.id}`;
+    case "company":
+      return props.name || props.domain || `Company ${object.id}`;
+    case "deal":
+      return props.dealname || `Deal ${object.id}`;
+    case "note": {
+      const date = props.hs_timestamp ? moment(props.hs_timestamp).format("YYYY-MM-DD") : null;
+      const preview = noteBodyToText(props.hs_note_body || "").split("\n")[0]?.substring(0, 60) || "";
+      return [date ? `Note (${date})` : "Note", preview].filter(Boolean).join(": ");
+    }
+  }
+}
+
+/**
+ * Builds the text that is embedded for a record: its properties plus the
+ * names of the contacts, companies and deals it is associated with
+ */
+function buildObjectContent(object: CrmObject, title: string, names: Map<string, string>): string {
+  const typeLabel = object.type.charAt(0).toUpperCase() + object.type.slice(1);
+  const lines: string[] = [];
+
+  if (object.type === "note") {
+    lines.push(title);
+  } else {
+    lines.push(`${typeLabel}: ${title}`);
+    for (const [property, label] of Object.entries(PROPERTY_LABELS)) {
+      const value = object.properties[property];
+      if (value) {
+        lines.push(`${label}: ${value}`);
+      }
+    }
+  }
+
+  for (const [associationName, ids] of Object.entries(object.associations)) {
+    const associatedType = ASSOCIATION_TYPES[associationName as AssociationName];
+    const associatedNames = (ids || [])
+      .map((id) => names.get(`${associatedType}:${id}`))
+      .filter((name): name is string => !!name);
+
+    if (associatedNames.length === 0) continue;
+
+    const listed = associatedNames.slice(0, MAX_ASSOCIATED_NAMES).join(", ");
+    const more = associatedNames.length > MAX_ASSOCIATED_NAMES
+      ? ` and ${associatedNames.length - MAX_ASSOCIATED_NAMES} more`
+      : "";
+    lines.push(`Associated ${associationName}: ${listed}${more}`);
+  }
+
+  if (object.type === "note" && object.properties.hs_note_body) {
+    lines.push("", noteBodyToText(object.properties.hs_note_body));
+  }
+
+  return lines.join("\n");
+}
+
+function getRecordUrl(object: CrmObject, portalId: string | null): string | null {
+  const config = OBJECT_CONFIGS.find((c) => c.type === object.type);
+  if (!portalId || !config?.recordTypeId) return null;
+  return `https://app.hubspot.com/contacts/${portalId}/record/${config.recordTypeId}/${object.id}`;
+}
+
+/**
+ * Scopes granted to the account: the stored scope list, or the one in the
+ * access token info kept as its profile; null when neither is known
+ */
+function getGrantedScopes(hubspotAccount: OAuthAccount): Set<string> | null {
+  const scopes: string[] = hubspotAccount.scopes
+    ? hubspotAccount.scopes.split(/\s+/)
+    : Array.isArray(hubspotAccount.rawProfile?.scopes) ? hubspotAccount.rawProfile.scopes : [];
+  return scopes.length > 0 ? new Set(scopes) : null;
+}
+
+/**
+ * HubSpot answers 403 for object types the token has no scope for
+ */
+function isMissingScopeError(error: any): boolean {
+  return error?.response?.status === 403;
+}
+
+/**
+ * Returns a valid access token for the account, refreshing it when it is
+ * expired or about to expire (within 5 minutes)
+ */
+async function getAccessToken(hubspotAccount: OAuthAccount): Promise<string> {
+  const expiresAt = hubspotAccount.tokenExpiresAt ? moment(hubspotAccount.tokenExpiresAt) : null;
+
+  if (expiresAt && moment().isAfter(expiresAt.subtract(5, "minutes"))) {
+    return refreshHubspotToken(hubspotAccount);
+  }
+  return hubspotAccount.accessToken;
+}
+
+/**
+ * Embeds and stores the records whose text changed since the last sync (all of
+ * them with forceSync) in batches, and records them in the sync log
+ */
+async function indexObjects(
+  userId: string,
+  objects: CrmObject[],
+  titles: Map<string, string>,
+  logsByKey: Map<string, HubspotSyncLog>,
+  portalId: string | null,
+  forceSync: boolean,
+  progress: SyncProgress,
+  onProgress: IngestOptions["onProgress"]
+): Promise<void> {
+  // Work out which records are new or changed
+  const changed: Array<{ object: CrmObject; title: string; content: string; contentHash: string }> = [];
+  for (const object of objects) {
+    const key = `${object.type}:${object.id}`;
+    const title = titles.get(key) || getObjectTitle(object);
+    const content = buildObjectContent(object, title, titles);
+    const contentHash = createHash("sha256").update(content).digest("hex");
+
+    if (!forceSync && logsByKey.get(key)?.contentHash === contentHash) {
+      progress.skipped++;
+      continue;
+    }
+    changed.push({ object, title, content, contentHash });
+  }
+  onProgress?.(progress);
+
+  console.log(`Records to index: ${changed.length}`);
+
+  // Embed and store changed records in batches
+  for (let i = 0; i < changed.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = changed.slice(i, i + EMBEDDING_BATCH_SIZE);
+
+    try {
+      const embeddingVectors = await embeddings.embedDocuments(batch.map((item) => item.content));
+
+      await vectorStore.upsert(
+        batch.map(({ object, title, content }, index) => {
+          const url = getRecordUrl(object, portalId);
+          return {
+            id: `${userId}:${object.type}:${object.id}`,
+            embedding: embeddingVectors[index]!,
+            metadata: {
+              user_id: userId.substring(0, 64),
+              object_type: object.type,
+              object_id: object.id,
+              title: title.substring(0, 512),
+              content: content.substring(0, 10000),
+              ...(url && { url }),
+            },
+          };
+        })
+      );
+
+      await syncLogRepository.upsert(
+        batch.map(({ object, title, contentHash }) => ({
+          userId,
+          objectType: object.type,
+          objectId: object.id,
+          title: title.substring(0, 512),
+          lastModifiedAt: object.updatedAt ? new Date(object.updatedAt) : null,
+          contentHash,
+        })),
+        ["userId", "objectType", "objectId"]
+      );
+
+      progress.processed += batch.length;
+    } catch (batchError: any) {
+      // Not recorded in the sync log, so these records are retried on the next sync
+      console.error("Error indexing HubSpot records:", batchError.message);
+      progress.failed += batch.length;
+    }
+    onProgress?.(progress);
+  }
+}
+
+/**
+ * Re-indexes only the records a webhook reported as changed ("contact:<id>",
+ * "company:<id>", "deal:<id>"). Records that no longer exist (deleted, archived
+ * or merged away) are removed. Associated records are named from the sync log;
+ * records that list a renamed record are updated by the next full sync.
+ */
+async function ingestHubspotTargets(
+  userId: string,
+  targets: string[],
+  readableConfigs: HubspotObjectConfig[],
+  accessToken: string,
+  portalId: string | null,
+  forceSync: boolean,
+  onProgress: IngestOptions["onProgress"]
+): Promise<void> {
+  const existingLogs = await syncLogRepository.find({ where: { userId } });
+  const logsByKey = new Map(existingLogs.map((log) => [`${log.objectType}:${log.objectId}`, log]));
+  const titles = new Map(existingLogs.map((log) => [`${log.objectType}:${log.objectId}`, log.title]));
+
+  const objects: CrmObject[] = [];
+  const removedLogs: HubspotSyncLog[] = [];
+  for (const target of targets) {
+    const [type, id] = target.split(":");
+    const config = readableConfigs.find((c) => c.type === type);
+    if (!config || !id) continue;
+
+    let object: CrmObject | null;
+    try {
+      object = await fetchObject(config, id, accessToken);
+    } catch (error: any) {
+      if (!isMissingScopeError(error)) throw error;
+      console.log(`No access to HubSpot ${config.path} (missing ${config.scope}), skipping ${target}`);
+      continue;
+    }
+    if (object) {
+      objects.push(object);
+      titles.set(target, getObjectTitle(object));
+    } else {
+      const log = logsByKey.get(target);
+      if (log) removedLogs.push(log);
+    }
+  }
+
+  console.log(`\n=== Re-indexing ${objects.length} changed HubSpot records (${removedLogs.length} removed) ===`);
+
+  const progress = emptySyncProgress();
+  progress.total = objects.length + removedLogs.length;
+  onProgress?.(progress);
+
+  await indexObjects(userId, objects, titles, logsByKey, portalId, forceSync, progress, onProgress);
+
+  for (const log of removedLogs) {
+    await vectorStore.deleteByFilter({ user_id: userId, object_type: log.objectType, object_id: log.objectId });
+  }
+  if (removedLogs.length > 0) {
+    await syncLogRepository.delete({ id: In(removedLogs.map((log) => log.id)) });
+    progress.deleted += removedLogs.length;
+    onProgress?.(progress);
+  }
+
+  console.log(
+    `HubSpot records re-indexed: ${progress.processed}, unchanged: ${progress.skipped}, removed: ${progress.deleted}, failed: ${progress.failed}`
+  );
+
+  if (progress.failed > 0) {
+    throw new PartialSyncError("HubSpot", progress.failed);
+  }
+}
+
+/**
+ * Fetches HubSpot contacts, companies, deals and notes (with their associations)
+ * and indexes them in the vector store. Records whose text did not change since
+ * the last sync are skipped; records deleted or archived in HubSpot are removed.
+ * Errors are rethrown, and records that failed to index end the sync with a
+ * PartialSyncError once the others are done, so the job queue can retry the sync.
+ * @param userId - The user ID to sync HubSpot data for
+ * @param options.forceSync - If true, re-embeds every record
+ * @param options.targets - Only re-index these changed records ("contact:<id>", ...), for webhooks
+ * @param options.onProgress - Called with the per-record counters as the sync advances
+ */
+export async function ingestHubspotData(userId: string, options: IngestOptions = {}): Promise<void> {
+  const { forceSync = false, targets, onProgress } = options;
+
+  try {
+    // Get the HubSpot OAuth credentials for this user
+    const hubspotAccount = await oauthRepository.findOne({
+      where: {
+        userId,
+        provider: "hubspot",
+      },
+    });
+
+    if (!hubspotAccount) {
+      console.log("HubSpot account not connected for user:", userId);
+      return;
+    }
+
+    const accessToken = await getAccessToken(hubspotAccount);
+    const portalId = hubspotAccount.rawProfile?.hub_id ? String(hubspotAccount.rawProfile.hub_id) : null;
+
+    // Accounts connected before an object type was indexed lack its scope;
+    // those types are skipped instead of failing the whole sync
+    const grantedScopes = getGrantedScopes(hubspotAccount);
+    const readableConfigs = OBJECT_CONFIGS.filter((config) => !grantedScopes || grantedScopes.has(config.scope));
+
+    if (targets) {
+      await ingestHubspotTargets(userId, targets, readableConfigs, accessToken, portalId, forceSync, onProgress);
+      return;
+    }
+
+    console.log("\n=== Processing HubSpot CRM Data ===");
+    console.log(`User ID: ${userId}`);
+
+    // Fetch every object type first: documents include the names of associated records
+    const objects: CrmObject[] = [];
+    const fetchedTypes = new Set<HubspotObjectType>();
+    for (const config of readableConfigs) {
+      try {
+        const fetched = await fetchAllObjects(config, accessToken);
+        console.log(`Fetched ${fetched.length} ${config.path}`);
+        objects.push(...fetched);
+        fetchedTypes.add(config.type);
+      } catch (error: any) {
+        if (!isMissingScopeError(error)) throw error;
+        console.log(`No access to HubSpot ${config.path} (missing ${config.scope}), skipping...`);
+      }
+    }
+
+    const missingScopes = [
+      ...new Set(OBJECT_CONFIGS.filter((config) => !fetchedTypes.has(config.type)).map((config) => config.scope)),
+    ];
+    await oauthRepository.update(hubspotAccount.id, { missingScopes: missingScopes.join(" ") || null });
+    if (missingScopes.length > 0) {
+      console.log(`HubSpot account needs to be reconnected to grant: ${missingScopes.join(", ")}`);
+    }
+    if (fetchedTypes.size === 0) {
+      // Nothing is readable: retrying cannot help until the user reconnects
+      await markAccountRevoked(userId, "hubspot");
+      throw new AccountRevokedError("HubSpot");
+    }
+
+    const titles = new Map<string, string>();
+    for (const object of objects) {
+      titles.set(`${object.type}:${object.id}`, getObjectTitle(object));
+    }
+
+    const progress = emptySyncProgress();
+    progress.total = objects.length;
+    onProgress?.(progress);
+
+    const existingLogs = await syncLogRepository.find({ where: { userId } });
+    const logsByKey = new Map(existingLogs.map((log) => [`${log.objectType}:${log.objectId}`, log]));
+
+    await indexObjects(userId, objects, titles, logsByKey, portalId, forceSync, progress, onProgress);
+
+    // Remove records that were deleted or archived in HubSpot (types that could
+    // not be read keep what was indexed before)
+    const removedLogs = existingLogs.filter(
+      (log) => fetchedTypes.has(log.objectType) && !titles.has(`${log.objectType}:${log.objectId}`)
+    );
+    for (const config of OBJECT_CONFIGS) {
+      const removedIds = removedLogs.filter((log) => log.objectType === config.type).map((log) => log.objectId);
+      if (removedIds.length === 0) continue;
+
+      await vectorStore.deleteByFilter({
+        user_id: userId,
+        object_type: config.type,
+        object_id: { $in: removedIds },
+      });
+    }
+    if (removedLogs.length > 0) {
+      await syncLogRepository.delete({ id: In(removedLogs.map((log) => log.id)) });
+      progress.deleted += removedLogs.length;
+      onProgress?.(progress);
+    }
+
+    console.log("\n=== HubSpot Pipeline Complete ===");
+    console.log(`Total records found: ${objects.length}`);
+    console.log(`Records processed (new/updated): ${progress.processed}`);
+    console.log(`Records skipped (no changes): ${progress.skipped}`);
+    console.log(`Records deleted: ${progress.deleted}`);
+    console.log(`Records failed: ${progress.failed}`);
+    console.log("================================\n");
+
+    if (progress.failed > 0) {
+      throw new PartialSyncError("HubSpot", progress.failed);
+    }
+
+  } catch (error: any) {
+    if (isRevokedCredentialError(error)) {
+      console.error("HubSpot authentication failed. User may need to reconnect their HubSpot account.");
+      console.error("Error details:", error.response?.data);
+      await markAccountRevoked(userId, "hubspot");
+      throw new AccountRevokedError("HubSpot");
+    } else {
+      console.error("Error in HubSpot pipeline:", error.response?.data || error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Deletes all HubSpot data from the vector database for a specific user
+ * Also clears the sync log entries
+ * @param userId - The user ID to delete data for
+ */
+export async function deleteUserHubspotData(userId: string): Promise<void> {
+  try {
+    console.log(`\n=== Deleting HubSpot Data for User: ${userId} ===`);
+
+    // Delete from the vector store
+    try {
+      await vectorStore.deleteByFilter({ user_id: userId });
+      console.log(`Deleted vectors from HubSpot collection`);
+    } catch (error: any) {
+      console.log(`No HubSpot vectors to delete or collection doesn't exist:`, error.message);
+    }
+
+    // Delete from sync log table
+    const deleteLogResult = await syncLogRepository.delete({ userId });
+    console.log(`Deleted ${deleteLogResult.affected || 0} entries from HubSpot sync log`);
+
+    console.log(`=== HubSpot Data Deletion Complete ===\n`);
+  } catch (error: any) {
+    console.error("Error deleting HubSpot data:", error.message);
+    throw error;
+  }
+}
@@ -0,0 +1,169 @@
+import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import type { RenderedBlock } from "./notionMarkdown";
+
+// Longest chunk, breadcrumb included
+const CHUNK_SIZE = 1000;
+// Room always left for block text when the breadcrumb is long
+const MIN_BODY_SIZE = 400;
+
+// Overlap between the pieces of a block that is split by the text splitter
+const BLOCK_OVERLAP = 200;
+
+const LIST_ITEM_TYPES = new Set(["bulleted_list_item", "numbered_list_item", "to_do"]);
+
+/**
+ * A chunk of a Notion page: `content` starts with the page title and heading
+ * breadcrumb, `blockId` is the first block it covers (null for the properties
+ * of a database row), so citations can link to the block
+ */
+export interface NotionChunk {
+  content: string;
+  // Headings the chunk sits under ("Setup > Database"), empty before the first heading
+  section: string;
+  blockId: string | null;
+}
+
+// Blocks that are kept together when they fit in a chunk: one block, or a run of list items
+interface BlockGroup {
+  blockId: string | null;
+  items: Array<{ blockId: string | null; text: string }>;
+  separator: string;
+}
+
+function groupText(group: BlockGroup): string {
+  return group.items.map((item) => item.text).join(group.separator);
+}
+
+/**
+ * Consecutive blocks under the same headings
+ */
+function groupSections(blocks: RenderedBlock[]): Array<{ headings: string[]; blocks: RenderedBlock[] }> {
+  const sections: Array<{ headings: string[]; blocks: RenderedBlock[] }> = [];
+  for (const block of blocks) {
+    const last = sections[sections.length - 1];
+    if (last && last.headings.join("\n") === block.headings.join("\n")) {
+      last.blocks.push(block);
+    } else {
+      sections.push({ headings: block.headings, blocks: [block] });
+    }
+  }
+  return sections;
+}
+
+/**
+ * Groups a section's blocks: each list (a run of list items) is one group, every
+ * other block (a toggle with its contents, a table, a paragraph) is its own
+ */
+function groupBlocks(blocks: RenderedBlock[]): BlockGroup[] {
+  const groups: BlockGroup[] = [];
+  let previousType = "";
+  for (const block of blocks) {
+    const item = { blockId: block.id, text: block.markdown };
+    const last = groups[groups.length - 1];
+    if (last && LIST_ITEM_TYPES.has(block.type) && LIST_ITEM_TYPES.has(previousType)) {
+      last.items.push(item);
+    } else {
+      groups.push({ blockId: block.id, items: [item], separator: "\n" });
+    }
+    previousType = block.type;
+  }
+  return groups;
+}
+
+/**
+ * Packs a section's block groups into chunk bodies of at most `maxSize`
+ * characters (joined by `joiner`). A group is only split when it does not fit
+ * in a chunk on its own: lists between items, other blocks by a text splitter.
+ */
+async function packGroups(
+  groups: BlockGroup[],
+  maxSize: number,
+  joiner = "\n\n"
+): Promise<Array<{ blockId: string | null; text: string }>> {
+  const bodies: Array<{ blockId: string | null; text: string }> = [];
+  let current: { blockId: string | null; parts: string[]; size: number } | null = null;
+
+  const flush = () => {
+    if (current && current.parts.length > 0) {
+      bodies.push({ blockId: current.blockId, text: current.parts.join(joiner) });
+    }
+    current = null;
+  };
+
+  for (const group of groups) {
+    const text = groupText(group);
+
+    if (text.length > maxSize) {
+      flush();
+      if (group.items.length > 1) {
+        // A long list: its items are packed like blocks
+        const itemGroups = group.items.map((item) => ({ blockId: item.blockId, items: [item], separator: "\n" }));
+        bodies.push(...(await packGroups(itemGroups, maxSize, group.separator)));
+      } else {
+        // Long paragraphs, code blocks, tables
+        const splitter = new RecursiveCharacterTextSplitter({ chunkSize: maxSize, chunkOverlap: BLOCK_OVERLAP });
+        for (const piece of await splitter.splitText(text)) {
+          bodies.push({ blockId: group.blockId, text: piece });
+        }
+      }
+      continue;
+    }
+
+    if (current && current.size + joiner.length + text.length > maxSize) {
+      flush();
+    }
+    if (!current) {
+      current = { blockId: group.blockId, parts: [], size: -joiner.length };
+    }
+    current.parts.push(text);
+    current.size += joiner.length + text.length;
+  }
+  flush();
+
+  return bodies;
+}
+
+/**
+ * Splits a rendered Notion page on its block tree: chunks never cross a heading,
+ * and lists, toggles and other blocks are only cut when they are too long for a
+ * chunk. Every chunk is prefixed with "Page title > Heading > Subheading".
+ * Database rows start with a chunk of their properties.
+ */
+export async function chunkNotionPage(
+  pageTitle: string,
+  blocks: RenderedBlock[],
+  propertiesText: string
+): Promise<NotionChunk[]> {
+  const sections = groupSections(blocks).map((section) => {
+    // The heading is in the breadcrumb; chunks of its section link to it
+    const heading = section.blocks[0]?.type.startsWith("heading_") ? section.blocks[0] : undefined;
+    return {
+      headings: section.headings,
+      headingId: heading?.id ?? null,
+      groups: groupBlocks(heading ? section.blocks.slice(1) : section.blocks),
+    };
+  });
+  if (propertiesText) {
+    sections.unshift({
+      headings: [],
+      headingId: null,
+      groups: [{ blockId: null, items: [{ blockId: null, text: propertiesText }], separator: "\n" }],
+    });
+  }
+
+  const chunks: NotionChunk[] = [];
+  for (const section of sections) {
+    const breadcrumb = [pageTitle, ...section.headings].join(" > ");
+    const maxSize = Math.max(CHUNK_SIZE - breadcrumb.length - 2, MIN_BODY_SIZE);
+
+    const bodies = await packGroups(section.groups, maxSize);
+    bodies.forEach((body, index) => {
+      chunks.push({
+        content: `${breadcrumb}\n\n${body.text}`,
+        section: section.headings.join(" > "),
+        blockId: index === 0 && section.headingId ? section.headingId : body.blockId,
+      });
+    });
+  }
+  return chunks;
+}
@@ -0,0 +1,271 @@
+import axios from "axios";
+
+/**
+ * A rendered top-level block of a page. Container blocks (columns, synced
+ * blocks, toggleable headings) are flattened into their children; list items
+ * and toggles keep their nested children in their own Markdown.
+ */
+export interface RenderedBlock {
+  id: string;
+  // Notion block type (heading_2, bulleted_list_item, table, ...)
+  type: string;
+  markdown: string;
+  // Headings the block sits under, outermost first (a heading includes itself)
+  headings: string[];
+}
+
+const INDENT = "  ";
+
+type BlockListResponse = { data: { results: any[]; has_more: boolean; next_cursor: string | null } };
+
+/**
+ * Fetches every child block of a page or block
+ */
+async function fetchBlockChildren(blockId: string, accessToken: string): Promise<any[]> {
+  const blocks: any[] = [];
+  let cursor: string | undefined = undefined;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response: BlockListResponse = await axios.get(`https://api.notion.com/v1/blocks/${blockId}/children`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+        "Notion-Version": "2022-06-28",
+      },
+      params: cursor ? { start_cursor: cursor, page_size: 100 } : { page_size: 100 },
+    });
+
+    blocks.push(...(response.data.results || []));
+    hasMore = response.data.has_more;
+    cursor = response.data.next_cursor || undefined;
+  }
+
+  return blocks;
+}
+
+/**
+ * Rich text as Markdown: inline code, bold, italic, strikethrough, links and
+ * equations. Mentions (people, pages, dates) are rendered by their plain text.
+ */
+function renderRichText(richText: any[] | undefined): string {
+  return (richText || [])
+    .map((rt: any) => {
+      if (rt.type === "equation") return `$${rt.equation?.expression ?? rt.plain_text ?? ""}$`;
+
+      let text: string = rt.plain_text || "";
+      if (!text.trim()) return text;
+      const annotations = rt.annotations || {};
+      if (annotations.code) text = `\`${text}\``;
+      if (annotations.bold) text = `**${text}**`;
+      if (annotations.italic) text = `*${text}*`;
+      if (annotations.strikethrough) text = `~~${text}~~`;
+      if (rt.href && rt.type !== "mention") text = `[${text}](${rt.href})`;
+      return text;
+    })
+    .join("");
+}
+
+function indent(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `${INDENT}${line}` : line))
+    .join("\n");
+}
+
+/**
+ * Renders a Notion table: the first row is the header, cells are escaped for Markdown
+ */
+function renderTable(rows: any[]): string {
+  const lines = rows
+    .filter((row) => row.type === "table_row")
+    .map(
+      (row) =>
+        `| ${(row.table_row?.cells || [])
+          .map((cell: any[]) => renderRichText(cell).replace(/\|/g, "\\|").replace(/\n/g, " "))
+          .join(" | ")} |`
+    );
+  if (lines.length === 0) return "";
+
+  const columns = rows[0]?.table_row?.cells?.length || 1;
+  const separator = `|${" --- |".repeat(columns)}`;
+  return [lines[0], separator, ...lines.slice(1)].join("\n");
+}
+
+/**
+ * Renders Notion blocks to Markdown, tracking the heading hierarchy
+ */
+class NotionMarkdownRenderer {
+  private readonly headings: string[] = [];
+  private readonly blocks: RenderedBlock[] = [];
+
+  constructor(private readonly accessToken: string) {}
+
+  async renderPage(pageId: string): Promise<RenderedBlock[]> {
+    await this.renderBlocks(await fetchBlockChildren(pageId, this.accessToken));
+    return this.blocks;
+  }
+
+  /**
+   * Renders a sibling list of top-level blocks into `this.blocks`
+   */
+  private async renderBlocks(blocks: any[]): Promise<void> {
+    let listNumber = 0;
+
+    for (const block of blocks) {
+      listNumber = block.type === "numbered_list_item" ? listNumber + 1 : 0;
+      const content = block[block.type] || {};
+
+      switch (block.type) {
+        case "heading_1":
+        case "heading_2":
+        case "heading_3": {
+          const level = Number(block.type.slice(-1));
+          const title = renderRichText(content.rich_text);
+          // Deeper or sibling headings of the previous section end here
+          this.headings.splice(level - 1);
+          while (this.headings.length < level - 1) this.headings.push("");
+          this.headings.push(title);
+          this.push(block, `${"#".repeat(level)} ${title}`);
+          // Toggleable heading
+          if (block.has_children) {
+            await this.renderBlocks(await this.children(block.id));
+          }
+          break;
+        }
+        case "column_list":
+          for (const column of await this.children(block.id)) {
+            await this.renderBlocks(await this.children(column.id));
+          }
+          break;
+        case "synced_block":
+          await this.renderBlocks(await this.syncedContent(block));
+          break;
+        default: {
+          const markdown = await this.renderBlock(block, listNumber);
+          if (markdown.trim()) {
+            this.push(block, markdown);
+          }
+        }
+      }
+    }
+  }
+
+  private push(block: any, markdown: string): void {
+    this.blocks.push({ id: block.id, type: block.type, markdown, headings: this.headings.filter(Boolean) });
+  }
+
+  private children(blockId: string): Promise<any[]> {
+    return fetchBlockChildren(blockId, this.accessToken);
+  }
+
+  /**
+   * Content of a synced block: copies point at the original block, whose children hold it
+   */
+  private async syncedContent(block: any): Promise<any[]> {
+    const sourceId = block.synced_block?.synced_from?.block_id ?? block.id;
+    try {
+      return await this.children(sourceId);
+    } catch (error: any) {
+      // The original lives on a page not shared with the integration
+      console.error(`Could not read synced block ${sourceId}:`, error.response?.data?.message || error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Markdown of a single block and its nested children (indented below it)
+   */
+  private async renderBlock(block: any, listNumber: number): Promise<string> {
+    const content = block[block.type] || {};
+    const text = renderRichText(content.rich_text);
+    let markdown: string;
+
+    switch (block.type) {
+      case "paragraph":
+        markdown = text;
+        break;
+      case "heading_1":
+      case "heading_2":
+      case "heading_3":
+        // Headings nested in lists or toggles do not start sections
+        markdown = `${"#".repeat(Number(block.type.slice(-1)))} ${text}`;
+        break;
+      case "bulleted_list_item":
+      case "toggle":
+        markdown = `- ${text}`;
+        break;
+      case "numbered_list_item":
+        markdown = `${listNumber || 1}. ${text}`;
+        break;
+      case "to_do":
+        markdown = `- [${content.checked ? "x" : " "}] ${text}`;
+        break;
+      case "quote":
+        markdown = text
+          .split("\n")
+          .map((line) => `> ${line}`)
+          .join("\n");
+        break;
+      case "callout":
+        markdown = `> ${content.icon?.emoji ? `${content.icon.emoji} ` : ""}${text}`;
+        break;
+      case "code":
+        markdown = `\`\`\`${content.language || ""}\n${text}\n\`\`\``;
+        break;
+      case "equation":
+        markdown = `$$\n${content.expression || ""}\n$$`;
+        break;
+      case "table":
+        // Rows are the table's children
+        return renderTable(await this.children(block.id));
+      case "child_page":
+        return `[Page: ${content.title || "Untitled"}]`;
+      case "child_database":
+        return `[Database: ${content.title || "Untitled"}]`;
+      case "image":
+      case "video":
+      case "audio":
+      case "file":
+      case "pdf":
+        return `[${block.type}: ${renderRichText(content.caption) || content.name || block.type}]`;
+      case "bookmark":
+      case "link_preview":
+      case "embed":
+        return `[Link: ${content.url || ""}]`;
+      case "divider":
+        return "---";
+      case "column_list":
+      case "column":
+      case "synced_block":
+        // Containers nested in lists or toggles: only their content is shown
+        markdown = "";
+        break;
+      default:
+        // Table of contents, breadcrumbs, unsupported blocks
+        return "";
+    }
+
+    if (!block.has_children && block.type !== "synced_block") return markdown;
+
+    // Nested blocks (sub-lists, toggle contents, ...)
+    const children = block.type === "synced_block" ? await this.syncedContent(block) : await this.children(block.id);
+    const childLines: string[] = [];
+    let childNumber = 0;
+    for (const child of children) {
+      childNumber = child.type === "numbered_list_item" ? childNumber + 1 : 0;
+      const childMarkdown = await this.renderBlock(child, childNumber);
+      if (childMarkdown.trim()) childLines.push(markdown ? indent(childMarkdown) : childMarkdown);
+    }
+    return [markdown, ...childLines].filter(Boolean).join("\n");
+  }
+}
+
+/**
+ * Renders the content of a Notion page to Markdown blocks: tables become
+ * Markdown tables, synced blocks show their original's content and column
+ * layouts are read column by column
+ */
+export function renderPageBlocks(pageId: string, accessToken: string): Promise<RenderedBlock[]> {
+  return new NotionMarkdownRenderer(accessToken).renderPage(pageId);
+}
@@ -3,44 +3,22 @@ import moment from "moment";
 import { AppDataSource } from "../data-source";
 import { OAuthAccount } from "../entities/OAuthAccount";
 import { NotionSyncLog } from "../entities/NotionSyncLog";
-import { MilvusClient } from "@zilliz/milvus2-sdk-node";
-import { OpenAIEmbeddings } from "@langchain/openai";
-import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
+import { getVectorStore } from "../vectorstore";
+import { getEmbeddings } from "../llm";
+import { AccountRevokedError, isRevokedCredentialError, markAccountRevoked } from "./accountStatus";
+import { chunkNotionPage, type NotionChunk } from "./notionChunker";
+import { renderPageBlocks } from "./notionMarkdown";
+import { serializeProperties } from "./notionProperties";
+import type { VectorMetadata } from "../vectorstore";
+import { emptySyncProgress, type IngestOptions } from "./types";
 
 const oauthRepository = AppDataSource.getRepository(OAuthAccount);
 const syncLogRepository = AppDataSource.getRepository(NotionSyncLog);
 
-// Initialize OpenAI embeddings (lazy - only connects when used)
-const embeddings = new OpenAIEmbeddings({
-  openAIApiKey: process.env.OPENAI_API_KEY,
-  modelName: "text-embedding-ada-002", // 1536 dimensions
-});
-
-// Lazy initialization for Milvus client to avoid connection at module load
-let milvusClient: MilvusClient | null = null;
-
-function getMilvusClient(): MilvusClient {
-  if (!milvusClient) {
-    // Remove https:// prefix if present - Zilliz uses gRPC which needs just hostname
-    let address = process.env.MILVUS_ADDRESS || "in03-e3d59000ddbccb2.serverless.aws-eu-central-1.cloud.zilliz.com";
-    address = address.replace(/^https?:\/\//, "");
-    
-    milvusClient = new MilvusClient({
-      address,
-      token: `${process.env.MILVUS_USER}:${process.env.MILVUS_PASSWORD}`,
-      ssl: true, // Required for Zilliz Cloud serverless
-    });
-  }
-  return milvusClient;
-}
+// Embeddings model selected by EMBEDDING_PROVIDER
+const embeddings = getEmbeddings();
 
-const COLLECTION_NAME = "Notion";
-
-// Text splitter for chunking content
-const textSplitter = new RecursiveCharacterTextSplitter({
-  chunkSize: 1000,
-  chunkOverlap: 200,
-});
+const vectorStore = getVectorStore("Notion");
 
 /**
  * Refreshes the Notion access token using the refresh token
@@ -89,129 +67,176 @@ async function refreshNotionToken(notionAccount: OAuthAccount): Promise<string>
 }
 
 /**
- * Extracts text content from Notion block
+ * Gets the title from a Notion page
  */
-function extractTextFromBlock(block: any): string {
-  const blockType = block.type;
-  const blockContent = block[blockType];
-
-  if (!blockContent) return "";
+function getPageTitle(page: any): string {
+  let title = "Untitled";
 
-  // Handle rich text blocks
-  if (blockContent.rich_text) {
-    return blockContent.rich_text.map((rt: any) => rt.plain_text || "").join("");
+  if (page.properties?.title?.title?.[0]?.plain_text) {
+    title = page.properties.title.title[0].plain_text;
+  } else if (page.properties?.Name?.title?.[0]?.plain_text) {
+    title = page.properties.Name.title[0].plain_text;
+  } else if (page.properties) {
+    for (const key of Object.keys(page.properties)) {
+      const prop = page.properties[key];
+      if (prop.type === "title" && prop.title?.[0]?.plain_text) {
+        title = prop.title[0].plain_text;
+        break;
+      }
+    }
   }
 
-  // Handle specific block types
-  switch (blockType) {
-    case "paragraph":
-    case "heading_1":
-    case "heading_2":
-    case "heading_3":
-    case "bulleted_list_item":
-    case "numbered_list_item":
-    case "toggle":
-    case "quote":
-    case "callout":
-      return blockContent.rich_text?.map((rt: any) => rt.plain_text || "").join("") || "";
-    case "code":
-      const codeText = blockContent.rich_text?.map((rt: any) => rt.plain_text || "").join("") || "";
-      return `\`\`\`${blockContent.language || ""}\n${codeText}\n\`\`\``;
-    case "to_do":
-      const todoText = blockContent.rich_text?.map((rt: any) => rt.plain_text || "").join("") || "";
-      return `[${blockContent.checked ? "x" : " "}] ${todoText}`;
-    case "child_page":
-      return `[Page: ${blockContent.title || "Untitled"}]`;
-    case "child_database":
-      return `[Database: ${blockContent.title || "Untitled"}]`;
-    case "image":
-    case "video":
-    case "file":
-    case "pdf":
-      return `[${blockType}: ${blockContent.caption?.map((c: any) => c.plain_text).join("") || blockType}]`;
-    case "bookmark":
-    case "link_preview":
-      return `[Link: ${blockContent.url || ""}]`;
-    case "table":
-      return "[Table]";
-    case "divider":
-      return "---";
-    default:
-      return "";
-  }
+  return title;
 }
 
 /**
- * Fetches all blocks (content) from a Notion page recursively
+ * Gets the title of a Notion database
  */
-async function fetchPageContent(pageId: string, accessToken: string): Promise<string> {
-  const blocks: string[] = [];
-  let cursor: string | undefined = undefined;
+function getDatabaseTitle(database: any): string {
+  return (database.title || []).map((rt: any) => rt.plain_text || "").join("") || "Untitled database";
+}
+
+type NotionListResponse = { data: { results: any[]; has_more: boolean; next_cursor: string | null } };
+
+/**
+ * Fetches every result of a paginated Notion list endpoint (search, database query)
+ */
+async function fetchAllResults(url: string, body: object, accessToken: string): Promise<any[]> {
+  const results: any[] = [];
   let hasMore = true;
+  let nextCursor: string | undefined = undefined;
+
+  while (hasMore) {
+    const response: NotionListResponse = await axios.post(
+      url,
+      {
+        ...body,
+        page_size: 100,
+        ...(nextCursor && { start_cursor: nextCursor }),
+      },
+      {
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+          "Notion-Version": "2022-06-28",
+        },
+      }
+    );
 
-  try {
-    while (hasMore) {
-      const response: { data: { results: any[]; has_more: boolean; next_cursor: string | null } } = await axios.get(
-        `https://api.notion.com/v1/blocks/${pageId}/children`,
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-            "Notion-Version": "2022-06-28",
-          },
-          params: cursor ? { start_cursor: cursor, page_size: 100 } : { page_size: 100 },
-        }
-      );
+    results.push(...(response.data.results || []));
+    hasMore = response.data.has_more;
+    nextCursor = response.data.next_cursor || undefined;
+  }
 
-      const results = response.data.results || [];
+  return results;
+}
 
-      for (const block of results) {
-        const text = extractTextFromBlock(block);
-        if (text) {
-          blocks.push(text);
-        }
+/**
+ * Fetches the pages shared with the integration, plus the rows of every shared
+ * database (rows are pages too, but the search API does not always return them).
+ * `complete` is false when a database could not be read, so some reachable rows
+ * may be missing from `pages`.
+ */
+async function fetchAllPages(
+  accessToken: string
+): Promise<{ pages: any[]; databaseTitles: Map<string, string>; complete: boolean }> {
+  const searchUrl = "https://api.notion.com/v1/search";
+  const sort = { direction: "descending", timestamp: "last_edited_time" };
+
+  const pages = new Map<string, any>();
+  const searchedPages = await fetchAllResults(
+    searchUrl,
+    { filter: { property: "object", value: "page" }, sort },
+    accessToken
+  );
+  for (const page of searchedPages) {
+    pages.set(page.id, page);
+  }
 
-        // Recursively fetch children if block has children
-        if (block.has_children && block.type !== "child_page" && block.type !== "child_database") {
-          const childContent = await fetchPageContent(block.id, accessToken);
-          if (childContent) {
-            blocks.push(childContent);
-          }
-        }
-      }
+  const databases = await fetchAllResults(
+    searchUrl,
+    { filter: { property: "object", value: "database" }, sort },
+    accessToken
+  );
+  const databaseTitles = new Map<string, string>();
+  let complete = true;
 
-      hasMore = response.data.has_more;
-      cursor = response.data.next_cursor || undefined;
+  for (const database of databases) {
+    databaseTitles.set(database.id, getDatabaseTitle(database));
+    try {
+      const rows = await fetchAllResults(
+        `https://api.notion.com/v1/databases/${database.id}/query`,
+        {},
+        accessToken
+      );
+      for (const row of rows) {
+        pages.set(row.id, row);
+      }
+    } catch (error: any) {
+      if (isRevokedCredentialError(error)) throw error;
+      // Rows returned by the search are still indexed
+      console.error(`Error querying database ${database.id}:`, error.response?.data || error.message);
+      complete = false;
     }
+  }
 
-    return blocks.join("\n\n");
-  } catch (error: any) {
-    console.error(`Error fetching content for page ${pageId}:`, error.response?.data || error.message);
-    return "";
+  return { pages: [...pages.values()], databaseTitles, complete };
+}
+
+/**
+ * Database, properties text and filterable prop_* values of a database row
+ * (empty for a regular page)
+ */
+function getRowMetadata(
+  page: any,
+  databaseTitles: Map<string, string>,
+  pageTitles: Map<string, string>
+): { propertiesText: string; metadata: VectorMetadata } {
+  const databaseId = page.parent?.type === "database_id" ? page.parent.database_id : null;
+  if (!databaseId) {
+    return { propertiesText: "", metadata: {} };
   }
+
+  const { text, metadata } = serializeProperties(page.properties, pageTitles);
+  const databaseTitle = (databaseTitles.get(databaseId) || "Untitled database").substring(0, 512);
+  return {
+    propertiesText: text,
+    metadata: {
+      ...metadata,
+      database_id: databaseId,
+      database_title: databaseTitle,
+      // Lowercased for case-insensitive database filters
+      database_name: databaseTitle.toLowerCase(),
+      ...(text && { properties: text.substring(0, 4000) }),
+    },
+  };
 }
 
 /**
- * Gets the title from a Notion page
+ * Archived pages and pages in the trash are still returned by the API for a while
  */
-function getPageTitle(page: any): string {
-  let title = "Untitled";
+function isArchived(page: any): boolean {
+  return page.archived === true || page.in_trash === true;
+}
 
-  if (page.properties?.title?.title?.[0]?.plain_text) {
-    title = page.properties.title.title[0].plain_text;
-  } else if (page.properties?.Name?.title?.[0]?.plain_text) {
-    title = page.properties.Name.title[0].plain_text;
-  } else if (page.properties) {
-    for (const key of Object.keys(page.properties)) {
-      const prop = page.properties[key];
-      if (prop.type === "title" && prop.title?.[0]?.plain_text) {
-        title = prop.title[0].plain_text;
-        break;
-      }
-    }
-  }
+/**
+ * Loads the ids of every page already synced for a user
+ */
+async function getSyncedPageIds(userId: string): Promise<Set<string>> {
+  const logs = await syncLogRepository.find({
+    where: { userId },
+    select: ["pageId"],
+  });
+  return new Set(logs.map((log) => log.pageId));
+}
 
-  return title;
+/**
+ * Removes a page that is gone from Notion (or no longer shared) from the index
+ * and the sync log, so it is no longer found or cited
+ */
+async function purgePage(userId: string, pageId: string): Promise<void> {
+  await vectorStore.deleteByFilter({ user_id: userId, page_id: pageId });
+  await syncLogRepository.delete({ userId, pageId });
 }
 
 /**
@@ -278,69 +303,246 @@ async function updateSyncLog(
 }
 
 /**
- * Stores chunks in Zilliz vector database
+ * Stores chunks in the vector store
  */
-async function storeChunksInZilliz(
+async function storeChunksInVectorStore(
   userId: string,
   pageId: string,
   pageTitle: string,
-  chunks: string[]
+  pageUrl: string | undefined,
+  chunks: NotionChunk[],
+  rowMetadata: VectorMetadata = {}
 ): Promise<void> {
   if (chunks.length === 0) {
     console.log(`No chunks to store for page: ${pageTitle}`);
     return;
   }
 
-  // Delete existing chunks for this page (to handle updates)
+  // Generate embeddings for all chunks (their content starts with the page title and headings)
+  const textsForEmbedding = chunks.map((chunk) => chunk.content);
+
+  console.log(`Generating embeddings for ${chunks.length} chunks...`);
+  const embeddingVectors = await embeddings.embedDocuments(textsForEmbedding);
+
+  // Prepare records for insertion
+  const records = chunks.map((chunk, index) => ({
+    id: `${userId}:${pageId}:${index}`,
+    embedding: embeddingVectors[index]!,
+    metadata: {
+      user_id: userId.substring(0, 64), // Ensure max length
+      page_id: pageId.substring(0, 128),
+      page_title: pageTitle.substring(0, 512),
+      ...(pageUrl && { page_url: pageUrl.substring(0, 512) }),
+      ...rowMetadata,
+      chunk_index: index,
+      ...(chunk.section && { section: chunk.section.substring(0, 1000) }),
+      ...(chunk.blockId && { block_id: chunk.blockId }),
+      content: chunk.content.substring(0, 10000),
+    },
+  }));
+
   try {
-    await getMilvusClient().delete({
-      collection_name: COLLECTION_NAME,
-      filter: `page_id == "${pageId}"`,
-    });
-    console.log(`Deleted existing chunks for page: ${pageTitle}`);
+    // Delete existing chunks for this page (to handle updates), once the new ones are
+    // embedded so that a failed embedding leaves the page searchable. A failed
+    // delete fails the page, since its old chunks past the new count would remain.
+    await vectorStore.deleteByFilter({ user_id: userId, page_id: pageId });
+    await vectorStore.upsert(records);
+    console.log(`Inserted ${records.length} chunks for page: ${pageTitle}`);
   } catch (error: any) {
-    // Collection might not exist or no matching records
-    console.log(`No existing chunks to delete for page: ${pageTitle}`);
+    console.error(`Error inserting chunks for page ${pageTitle}:`, error.message);
+    throw error;
   }
+}
 
-  // Generate embeddings for all chunks
-  // Combine page_title + content for embedding as per requirement
-  const textsForEmbedding = chunks.map((chunk) => `${pageTitle}\n\n${chunk}`);
+/**
+ * Renders, chunks and stores one page (database rows with their properties)
+ * and records it in the sync log. Returns the number of chunks stored, 0 for a
+ * page without content.
+ */
+async function indexPage(
+  userId: string,
+  page: any,
+  accessToken: string,
+  databaseTitles: Map<string, string>,
+  pageTitles: Map<string, string>
+): Promise<number> {
+  const pageId = page.id;
+  const pageTitle = getPageTitle(page);
+  const lastEditedTime = new Date(page.last_edited_time);
+
+  // Render the page content; database rows are indexed with their properties
+  const { propertiesText, metadata: rowMetadata } = getRowMetadata(page, databaseTitles, pageTitles);
+  const blocks = await renderPageBlocks(pageId, accessToken);
+  const chunks = await chunkNotionPage(pageTitle, blocks, propertiesText);
 
-  console.log(`Generating embeddings for ${chunks.length} chunks...`);
-  const embeddingVectors = await embeddings.embedDocuments(textsForEmbedding);
+  if (chunks.length === 0) {
+    console.log(`Page "${pageTitle}" has no content, skipping...`);
+    // Its content may have been cleared: what was indexed before must go
+    await vectorStore.deleteByFilter({ user_id: userId, page_id: pageId });
+    // Still update sync log to avoid re-checking empty pages
+    await updateSyncLog(userId, pageId, pageTitle, lastEditedTime, 0);
+    return 0;
+  }
 
-  // Prepare data for insertion
-  const data = chunks.map((chunk, index) => ({
-    user_id: userId.substring(0, 64), // Ensure max length
-    page_id: pageId.substring(0, 128),
-    page_title: pageTitle.substring(0, 512),
-    chunk_index: index,
-    content: chunk.substring(0, 10000),
-    embedding: embeddingVectors[index],
-  }));
+  console.log(`Split into ${chunks.length} chunks`);
 
-  // Insert into Zilliz
+  // Store chunks in the vector store
+  await storeChunksInVectorStore(userId, pageId, pageTitle, page.url, chunks, rowMetadata);
+
+  // Update the sync log
+  await updateSyncLog(userId, pageId, pageTitle, lastEditedTime, chunks.length);
+
+  return chunks.length;
+}
+
+/**
+ * Returns a valid access token for the account, refreshing it when it is about to expire
+ */
+async function getAccessToken(notionAccount: OAuthAccount): Promise<string> {
+  const expiresAt = notionAccount.tokenExpiresAt ? moment(notionAccount.tokenExpiresAt) : null;
+
+  if (expiresAt && moment().isAfter(expiresAt.subtract(5, "minutes"))) {
+    return refreshNotionToken(notionAccount);
+  }
+  return notionAccount.accessToken;
+}
+
+/**
+ * Fetches a page or database by id; null when it was deleted or is no longer
+ * shared with the integration
+ */
+async function fetchNotionObject(kind: "pages" | "databases", id: string, accessToken: string): Promise<any | null> {
   try {
-    const insertResult = await getMilvusClient().insert({
-      collection_name: COLLECTION_NAME,
-      data: data,
+    const response = await axios.get(`https://api.notion.com/v1/${kind}/${id}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Notion-Version": "2022-06-28",
+      },
     });
-
-    console.log(`Inserted ${insertResult.insert_cnt} chunks for page: ${pageTitle}`);
+    return response.data;
   } catch (error: any) {
-    console.error(`Error inserting chunks for page ${pageTitle}:`, error.message);
+    if (error.response?.status === 404) return null;
     throw error;
   }
 }
 
 /**
- * Fetches all Notion pages for a user and stores them in Zilliz vector database
- * (only processes pages that have changed since last sync)
+ * Titles of the pages already synced for a user, used for relations of
+ * re-indexed rows instead of searching the whole workspace
+ */
+async function getSyncedPageTitles(userId: string): Promise<Map<string, string>> {
+  const logs = await syncLogRepository.find({
+    where: { userId },
+    select: ["pageId", "pageTitle"],
+  });
+  return new Map(logs.map((log) => [log.pageId, log.pageTitle]));
+}
+
+/**
+ * Re-indexes only the pages and databases a webhook reported as changed
+ * ("page:<id>", "database:<id>"): a changed page is re-rendered, or purged when
+ * it was deleted, archived or unshared; a changed database has its rows re-indexed.
+ * Unlike a full sync, pages are re-indexed without comparing last_edited_time,
+ * since webhooks may arrive before the edit shows up in it.
+ */
+async function ingestNotionTargets(
+  userId: string,
+  targets: string[],
+  accessToken: string,
+  onProgress: IngestOptions["onProgress"]
+): Promise<void> {
+  const pageTitles = await getSyncedPageTitles(userId);
+  const databaseTitles = new Map<string, string>();
+
+  // Pages to re-index, by id (a row may be reported both itself and by its database)
+  const pages = new Map<string, any>();
+  const purgedPageIds: string[] = [];
+
+  for (const target of targets) {
+    const [kind, id] = target.split(":");
+    if (!id) continue;
+
+    if (kind === "page") {
+      const page = await fetchNotionObject("pages", id, accessToken);
+      if (!page || isArchived(page)) {
+        purgedPageIds.push(id);
+      } else {
+        pages.set(page.id, page);
+      }
+    } else if (kind === "database") {
+      const database = await fetchNotionObject("databases", id, accessToken);
+      if (!database || isArchived(database)) {
+        // Its rows are no longer reachable and are purged by the next full sync
+        console.log(`Database ${id} is no longer reachable, skipping...`);
+        continue;
+      }
+      databaseTitles.set(database.id, getDatabaseTitle(database));
+      const rows = await fetchAllResults(`https://api.notion.com/v1/databases/${database.id}/query`, {}, accessToken);
+      for (const row of rows.filter((row) => !isArchived(row))) {
+        pages.set(row.id, row);
+      }
+    }
+  }
+
+  // Titles of the databases the changed rows belong to
+  for (const page of pages.values()) {
+    const databaseId = page.parent?.type === "database_id" ? page.parent.database_id : null;
+    if (databaseId && !databaseTitles.has(databaseId)) {
+      const database = await fetchNotionObject("databases", databaseId, accessToken);
+      databaseTitles.set(databaseId, database ? getDatabaseTitle(database) : "Untitled database");
+    }
+    pageTitles.set(page.id, getPageTitle(page));
+  }
+
+  console.log(`\n=== Re-indexing ${pages.size} changed Notion pages (${purgedPageIds.length} removed) ===`);
+
+  const progress = emptySyncProgress();
+  progress.total = pages.size + purgedPageIds.length;
+  onProgress?.(progress);
+
+  for (const pageId of purgedPageIds) {
+    try {
+      await purgePage(userId, pageId);
+      progress.deleted++;
+    } catch (purgeError: any) {
+      console.error(`Error purging page ${pageId}:`, purgeError.message);
+      progress.failed++;
+    }
+    onProgress?.(progress);
+  }
+
+  for (const page of pages.values()) {
+    try {
+      const chunkCount = await indexPage(userId, page, accessToken, databaseTitles, pageTitles);
+      if (chunkCount > 0) {
+        progress.processed++;
+      } else {
+        progress.skipped++;
+      }
+    } catch (pageError: any) {
+      console.error(`Error processing page ${page.id}:`, pageError.message);
+      progress.failed++;
+    }
+    onProgress?.(progress);
+  }
+
+  console.log(
+    `Notion pages re-indexed: ${progress.processed}, removed: ${progress.deleted}, failed: ${progress.failed}`
+  );
+}
+
+/**
+ * Fetches all Notion pages for a user and stores them in the vector store
+ * (only processes pages that have changed since last sync).
+ * Errors are rethrown so the job queue can retry the sync.
  * @param userId - The user ID to fetch pages for
- * @param forceSync - If true, bypasses the change detection and re-syncs all pages
+ * @param options.forceSync - If true, bypasses the change detection and re-syncs all pages
+ * @param options.targets - Only re-index these changed pages and databases (webhooks)
+ * @param options.onProgress - Called with the per-page counters as the sync advances
  */
-export async function ingestAllNotionPages(userId: string, forceSync: boolean = false): Promise<void> {
+export async function ingestAllNotionPages(userId: string, options: IngestOptions = {}): Promise<void> {
+  const { forceSync = false, targets, onProgress } = options;
+
   try {
     // Get the Notion OAuth credentials for this user
     const notionAccount = await oauthRepository.findOne({
@@ -355,74 +557,76 @@ export async function ingestAllNotionPages(userId: string, forceSync: boolean =
       return;
     }
 
-    let accessToken = notionAccount.accessToken;
-
-    // Check if token is expired
-    const now = moment();
-    const expiresAt = notionAccount.tokenExpiresAt
-      ? moment(notionAccount.tokenExpiresAt)
-      : null;
+    const accessToken = await getAccessToken(notionAccount);
 
-    if (expiresAt && now.isAfter(expiresAt.subtract(5, "minutes"))) {
-      accessToken = await refreshNotionToken(notionAccount);
+    if (targets) {
+      await ingestNotionTargets(userId, targets, accessToken, onProgress);
+      return;
     }
 
-    // Fetch all pages from Notion using the Search API (with pagination)
-    const allPages: any[] = [];
-    let hasMore = true;
-    let nextCursor: string | undefined = undefined;
-
-    while (hasMore) {
-      const response: { data: { results: any[]; has_more: boolean; next_cursor: string | null } } = await axios.post(
-        "https://api.notion.com/v1/search",
-        {
-          filter: {
-            property: "object",
-            value: "page",
-          },
-          sort: {
-            direction: "descending",
-            timestamp: "last_edited_time",
-          },
-          page_size: 100,
-          ...(nextCursor && { start_cursor: nextCursor }),
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "Content-Type": "application/json",
-            "Notion-Version": "2022-06-28",
-          },
-        }
-      );
-
-      allPages.push(...(response.data.results || []));
-      hasMore = response.data.has_more;
-      nextCursor = response.data.next_cursor || undefined;
+    // Fetch all pages and database rows from Notion
+    const { pages: fetchedPages, databaseTitles, complete } = await fetchAllPages(accessToken);
+    const allPages = fetchedPages.filter((page) => !isArchived(page));
+    // Related rows are shown by title
+    const pageTitles = new Map<string, string>(allPages.map((page) => [page.id, getPageTitle(page)]));
+
+    // Reconcile the index with the pages Notion still returns: archived pages and
+    // synced pages that are no longer reachable (deleted or unshared) are purged
+    const syncedPageIds = await getSyncedPageIds(userId);
+    const reachablePageIds = new Set(allPages.map((page) => page.id));
+    const archivedPageIds = fetchedPages
+      .filter((page) => isArchived(page) && syncedPageIds.has(page.id))
+      .map((page) => page.id);
+    // Without every database's rows, missing rows cannot be told apart from unreadable ones
+    const unreachablePageIds = complete
+      ? [...syncedPageIds].filter((pageId) => !reachablePageIds.has(pageId) && !archivedPageIds.includes(pageId))
+      : [];
+    if (!complete) {
+      console.log("Some databases could not be read, not purging unreachable pages this time");
     }
 
     console.log("\n=== Processing All Notion Pages ===");
     console.log(`User ID: ${userId}`);
-    console.log(`Total pages found: ${allPages.length}`);
-
-    let processedCount = 0;
-    let skippedCount = 0;
+    console.log(`Total pages found: ${allPages.length} (${databaseTitles.size} databases)`);
+
+    const progress = emptySyncProgress();
+    progress.total = allPages.length + archivedPageIds.length + unreachablePageIds.length;
+    onProgress?.(progress);
+
+    let archivedPurged = 0;
+    let unreachablePurged = 0;
+    for (const pageId of [...archivedPageIds, ...unreachablePageIds]) {
+      try {
+        await purgePage(userId, pageId);
+        if (archivedPageIds.includes(pageId)) {
+          archivedPurged++;
+        } else {
+          unreachablePurged++;
+        }
+        progress.deleted++;
+      } catch (purgeError: any) {
+        // The sync log is kept, so the purge is retried on the next sync
+        console.error(`Error purging page ${pageId}:`, purgeError.message);
+        progress.failed++;
+      }
+      onProgress?.(progress);
+    }
 
     // Process each page
     for (const page of allPages) {
       const pageId = page.id;
       const pageTitle = getPageTitle(page);
-      const lastEditedTime = new Date(page.last_edited_time);
 
       console.log(`\n--- Checking page: ${pageTitle} (${pageId}) ---`);
 
       // Check if the page needs to be synced (skip check if forceSync is true)
       if (!forceSync) {
-        const needsSync = await shouldSyncPage(userId, pageId, lastEditedTime);
+        const needsSync = await shouldSyncPage(userId, pageId, new Date(page.last_edited_time));
 
         if (!needsSync) {
           console.log(`Page "${pageTitle}" has not changed since last sync, skipping...`);
-          skippedCount++;
+          progress.skipped++;
+          onProgress?.(progress);
           continue;
         }
       } else {
@@ -431,30 +635,19 @@ export async function ingestAllNotionPages(userId: string, forceSync: boolean =
 
       console.log(`Page "${pageTitle}" has changed, processing...`);
 
-      // Fetch the full content of the page
-      const content = await fetchPageContent(pageId, accessToken);
-
-      if (!content || content.trim().length === 0) {
-        console.log(`Page "${pageTitle}" has no content, skipping...`);
-        // Still update sync log to avoid re-checking empty pages
-        await updateSyncLog(userId, pageId, pageTitle, lastEditedTime, 0);
-        skippedCount++;
-        continue;
+      try {
+        const chunkCount = await indexPage(userId, page, accessToken, databaseTitles, pageTitles);
+        if (chunkCount > 0) {
+          progress.processed++;
+        } else {
+          progress.skipped++;
+        }
+      } catch (pageError: any) {
+        // The sync log is not updated, so the page is retried on the next sync
+        console.error(`Error processing page ${pageId}:`, pageError.message);
+        progress.failed++;
       }
-
-      console.log(`Content length: ${content.length} characters`);
-
-      // Chunk the content
-      const chunks = await textSplitter.splitText(content);
-      console.log(`Split into ${chunks.length} chunks`);
-
-      // Store chunks in Zilliz
-      await storeChunksInZilliz(userId, pageId, pageTitle, chunks);
-
-      // Update the sync log
-      await updateSyncLog(userId, pageId, pageTitle, lastEditedTime, chunks.length);
-
-      processedCount++;
+      onProgress?.(progress);
 
       // Add a small delay to avoid rate limiting
       await new Promise((resolve) => setTimeout(resolve, 500));
@@ -462,17 +655,23 @@ export async function ingestAllNotionPages(userId: string, forceSync: boolean =
 
     console.log("\n=== Notion Pipeline Complete ===");
     console.log(`Total pages found: ${allPages.length}`);
-    console.log(`Pages processed (new/updated): ${processedCount}`);
-    console.log(`Pages skipped (no changes): ${skippedCount}`);
+    console.log(`Pages processed (new/updated): ${progress.processed}`);
+    console.log(`Pages skipped (no changes): ${progress.skipped}`);
+    console.log(`Pages purged (archived or in trash): ${archivedPurged}`);
+    console.log(`Pages purged (deleted or no longer shared): ${unreachablePurged}`);
+    console.log(`Pages failed: ${progress.failed}`);
     console.log("================================\n");
 
   } catch (error: any) {
-    if (error.response?.status === 401) {
+    if (isRevokedCredentialError(error)) {
       console.error("Notion authentication failed. User may need to reconnect their Notion account.");
       console.error("Error details:", error.response?.data);
+      await markAccountRevoked(userId, "notion");
+      throw new AccountRevokedError("Notion");
     } else {
       console.error("Error in Notion pipeline:", error.response?.data || error.message);
     }
+    throw error;
   }
 }
 
@@ -485,13 +684,10 @@ export async function deleteUserNotionData(userId: string): Promise<void> {
   try {
     console.log(`\n=== Deleting Notion Data for User: ${userId} ===`);
 
-    // Delete from Zilliz vector database
+    // Delete from the vector store
     try {
-      const deleteResult = await getMilvusClient().delete({
-        collection_name: COLLECTION_NAME,
-        filter: `user_id == "${userId}"`,
-      });
-      console.log(`Deleted vectors from Zilliz Notion collection`);
+      await vectorStore.deleteByFilter({ user_id: userId });
+      console.log(`Deleted vectors from Notion collection`);
     } catch (error: any) {
       console.log(`No Notion vectors to delete or collection doesn't exist:`, error.message);
     }
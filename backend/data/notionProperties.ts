@@ -0,0 +1,149 @@
+import type { MetadataScalar, VectorMetadata } from "../vectorstore";
+
+// Longest serialized property value kept in the indexed text
+const MAX_VALUE_LENGTH = 500;
+
+/**
+ * Metadata field of a database property ("Due date" -> prop_due_date), so
+ * arbitrary property names are valid field names in every vector store
+ */
+export function propertyMetadataKey(propertyName: string): string {
+  const normalized = propertyName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .substring(0, 60);
+  return `prop_${normalized || "unnamed"}`;
+}
+
+function plainText(richText: any[] | undefined): string {
+  return (richText || []).map((rt: any) => rt.plain_text || "").join("");
+}
+
+/**
+ * A typed property value, either shown as text (text) or used by filters
+ * (values: lowercased strings matched with equality, a number, a date as
+ * epoch ms or a checkbox boolean)
+ */
+interface PropertyValue {
+  text: string;
+  values: string[];
+  number?: number;
+  date?: number;
+  checkbox?: boolean;
+}
+
+const EMPTY_VALUE: PropertyValue = { text: "", values: [] };
+
+function textValue(...texts: string[]): PropertyValue {
+  const values = texts.map((text) => text.trim()).filter(Boolean);
+  return { text: values.join(", "), values: values.map((value) => value.toLowerCase()) };
+}
+
+function dateValue(date: { start?: string; end?: string | null } | null | undefined): PropertyValue {
+  if (!date?.start) return EMPTY_VALUE;
+  const start = Date.parse(date.start);
+  return {
+    text: date.end ? `${date.start} to ${date.end}` : date.start,
+    values: [],
+    ...(!Number.isNaN(start) && { date: start }),
+  };
+}
+
+function numberValue(value: number | null | undefined): PropertyValue {
+  return typeof value === "number" ? { text: String(value), values: [], number: value } : EMPTY_VALUE;
+}
+
+function personName(person: any): string {
+  return person?.name || person?.person?.email || "";
+}
+
+/**
+ * Reads a database row property of any type. Relations are shown by the
+ * titles of the related pages when those pages are known.
+ */
+function readProperty(property: any, pageTitles: Map<string, string>): PropertyValue {
+  switch (property?.type) {
+    case "title":
+    case "rich_text":
+      return textValue(plainText(property[property.type]));
+    case "number":
+      return numberValue(property.number);
+    case "select":
+    case "status":
+      return textValue(property[property.type]?.name || "");
+    case "multi_select":
+      return textValue(...(property.multi_select || []).map((option: any) => option.name || ""));
+    case "date":
+      return dateValue(property.date);
+    case "people":
+      return textValue(...(property.people || []).map(personName));
+    case "created_by":
+    case "last_edited_by":
+      return textValue(personName(property[property.type]));
+    case "checkbox":
+      return { text: property.checkbox ? "Yes" : "No", values: [], checkbox: Boolean(property.checkbox) };
+    case "url":
+    case "email":
+    case "phone_number":
+      return textValue(property[property.type] || "");
+    case "relation":
+      return textValue(...(property.relation || []).map((related: any) => pageTitles.get(related.id) || ""));
+    case "files":
+      return textValue(...(property.files || []).map((file: any) => file.name || ""));
+    case "created_time":
+    case "last_edited_time":
+      return dateValue({ start: property[property.type] });
+    case "unique_id": {
+      const { prefix, number } = property.unique_id || {};
+      return number === null || number === undefined ? EMPTY_VALUE : textValue(prefix ? `${prefix}-${number}` : String(number));
+    }
+    case "formula": {
+      const formula = property.formula || {};
+      if (formula.type === "number") return numberValue(formula.number);
+      if (formula.type === "date") return dateValue(formula.date);
+      if (formula.type === "boolean") return { text: formula.boolean ? "Yes" : "No", values: [], checkbox: Boolean(formula.boolean) };
+      return textValue(formula.string || "");
+    }
+    case "rollup": {
+      const rollup = property.rollup || {};
+      if (rollup.type === "number") return numberValue(rollup.number);
+      if (rollup.type === "date") return dateValue(rollup.date);
+      const items = (rollup.array || []).map((item: any) => readProperty(item, pageTitles));
+      return textValue(...items.map((item: PropertyValue) => item.text));
+    }
+    default:
+      return EMPTY_VALUE;
+  }
+}
+
+/**
+ * Serializes the typed properties of a database row: `text` ("Status: Blocked",
+ * one property per line) is indexed with the row, `metadata` holds the filterable
+ * values under prop_* fields (the title is already the page title)
+ */
+export function serializeProperties(
+  properties: Record<string, any> | undefined,
+  pageTitles: Map<string, string>
+): { text: string; metadata: VectorMetadata } {
+  const lines: string[] = [];
+  const metadata: VectorMetadata = {};
+
+  for (const [name, property] of Object.entries(properties || {})) {
+    if (property?.type === "title") continue;
+
+    const value = readProperty(property, pageTitles);
+    if (!value.text) continue;
+
+    lines.push(`${name}: ${value.text.substring(0, MAX_VALUE_LENGTH)}`);
+
+    const key = propertyMetadataKey(name);
+    const filterValue: MetadataScalar | MetadataScalar[] | undefined =
+      value.date ?? value.number ?? value.checkbox ?? (value.values.length > 0 ? value.values : undefined);
+    if (filterValue !== undefined) {
+      metadata[key] = filterValue;
+    }
+  }
+
+  return { text: lines.join("\n"), metadata };
+}
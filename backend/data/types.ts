@@ -0,0 +1,31 @@
+// Per-item counters reported by the ingestion pipelines while they run
+export interface SyncProgress {
+  // Items found for this run (emails, pages, ...); 0 until known
+  total: number;
+  processed: number;
+  deleted: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface IngestOptions {
+  // Re-index every item instead of only new/changed ones
+  forceSync?: boolean;
+  // Only re-index these objects ("<kind>:<id>", e.g. "page:<id>" or "contact:<id>")
+  // instead of the whole account; set for changes reported by webhooks
+  targets?: string[] | undefined;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export function emptySyncProgress(): SyncProgress {
+  return { total: 0, processed: 0, deleted: 0, skipped: 0, failed: 0 };
+}
+
+// Thrown by a pipeline after a run in which some items failed: the items are
+// retried by the job queue's next attempt instead of being skipped for good
+export class PartialSyncError extends Error {
+  constructor(provider: string, failed: number) {
+    super(`${provider} sync could not index ${failed} item(s); they will be retried`);
+    this.name = "PartialSyncError";
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  type Relation,
+} from 'typeorm';
+import type { Chat } from './Chat.ts';
+
+// One LangGraph checkpoint (full graph state, including tool calls and tool
+// results) for a chat. The LangGraph thread_id is the chat id.
+@Entity('agent_checkpoints')
+export class AgentCheckpoint {
+  @PrimaryColumn({ type: 'uuid' })
+  chatId!: string;
+
+  @PrimaryColumn({ type: 'varchar', length: 255, default: '' })
+  checkpointNs!: string;
+
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  checkpointId!: string;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  parentCheckpointId!: string | null;
+
+  // Serializer type tag returned by serde.dumpsTyped (e.g. 'json')
+  @Column({ type: 'varchar', length: 32 })
+  type!: string;
+
+  @Column({ type: 'bytea' })
+  checkpoint!: Buffer;
+
+  @Column({ type: 'bytea' })
+  metadata!: Buffer;
+
+  @ManyToOne('Chat', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'chatId' })
+  chat!: Relation<Chat>;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt!: Date;
+}
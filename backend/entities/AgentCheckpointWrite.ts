@@ -0,0 +1,41 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  type Relation,
+} from 'typeorm';
+import type { Chat } from './Chat.ts';
+
+// Pending channel writes attached to a checkpoint (LangGraph putWrites)
+@Entity('agent_checkpoint_writes')
+export class AgentCheckpointWrite {
+  @PrimaryColumn({ type: 'uuid' })
+  chatId!: string;
+
+  @PrimaryColumn({ type: 'varchar', length: 255, default: '' })
+  checkpointNs!: string;
+
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  checkpointId!: string;
+
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  taskId!: string;
+
+  @PrimaryColumn({ type: 'int' })
+  idx!: number;
+
+  @Column({ type: 'varchar', length: 255 })
+  channel!: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  type!: string;
+
+  @Column({ type: 'bytea' })
+  value!: Buffer;
+
+  @ManyToOne('Chat', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'chatId' })
+  chat!: Relation<Chat>;
+}
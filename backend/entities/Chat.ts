@@ -23,6 +23,10 @@ export class Chat {
   @Column({ type: 'uuid' })
   userId!: string;
 
+  // Last message of the branch currently shown (and continued) in this chat
+  @Column({ type: 'uuid', nullable: true })
+  activeMessageId!: string | null;
+
   @ManyToOne('User', { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'userId' })
   user!: Relation<User>;
@@ -5,15 +5,35 @@ import {
   CreateDateColumn,
   ManyToOne,
   JoinColumn,
+  Index,
   type Relation,
 } from 'typeorm';
 import type { Chat } from './Chat.ts';
 
-// Citation type for tool references
+// Citation type for tool references; the answer cites it as [number] (messages
+// saved before citations carried source ids only have tool, title and subtitle)
 export interface Citation {
+  number?: number;
   tool: 'notion' | 'gmail' | 'hubspot';
+  sourceId?: string;
   title: string;
   subtitle?: string;
+  attachment?: string;
+  url?: string | null;
+  snippet?: string;
+  score?: number;
+}
+
+// Tool call made by the agent while answering (shown as a timeline in the chat)
+export interface ToolStep {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  durationMs?: number;
+  resultCount?: number;
+  error?: string;
 }
 
 @Entity('chat_messages')
@@ -30,13 +50,34 @@ export class ChatMessage {
   @Column({ type: 'uuid' })
   chatId!: string;
 
+  // Previous message on the same branch (null for the first message of a chat).
+  // Messages sharing a parent are alternative versions (edits or regenerations).
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  parentMessageId!: string | null;
+
+  // Agent checkpoint saved after this assistant message; replies continue from it
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  checkpointId!: string | null;
+
   @Column({ type: 'jsonb', nullable: true })
   citations!: Citation[] | null;
 
+  @Column({ type: 'jsonb', nullable: true })
+  toolSteps!: ToolStep[] | null;
+
+  // Set when the user stopped the response; content is the partial answer
+  @Column({ type: 'boolean', default: false })
+  cancelled!: boolean;
+
   @ManyToOne('Chat', 'messages', { onDelete: 'CASCADE' })
   @JoinColumn({ name: 'chatId' })
   chat!: Relation<Chat>;
 
+  @ManyToOne('ChatMessage', { onDelete: 'CASCADE', nullable: true })
+  @JoinColumn({ name: 'parentMessageId' })
+  parentMessage!: Relation<ChatMessage> | null;
+
   @CreateDateColumn({ type: 'timestamp with time zone' })
   createdAt!: Date;
 }
@@ -28,6 +28,10 @@ export class GmailSyncLog {
   @Column({ type: 'timestamp with time zone' })
   receivedAt!: Date;
 
+  // Gmail label ids (INBOX, UNREAD, user labels, ...) as of the last sync
+  @Column({ type: 'text', array: true, default: '{}' })
+  labelIds!: string[];
+
   @CreateDateColumn({ type: 'timestamp with time zone' })
   createdAt!: Date;
 
@@ -0,0 +1,44 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Unique,
+} from 'typeorm';
+
+export type HubspotObjectType = 'contact' | 'company' | 'deal' | 'note';
+
+@Entity('hubspot_sync_logs')
+@Unique(['userId', 'objectType', 'objectId'])
+export class HubspotSyncLog {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 16 })
+  objectType!: HubspotObjectType;
+
+  @Column({ type: 'varchar', length: 64 })
+  objectId!: string;
+
+  @Column({ type: 'varchar', length: 512 })
+  title!: string;
+
+  // Last modification time of the CRM record (updatedAt in the CRM API)
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lastModifiedAt!: Date | null;
+
+  // Hash of the indexed text (record + associated record names); the record is
+  // re-embedded only when it changes, which also catches association changes
+  @Column({ type: 'varchar', length: 64 })
+  contentHash!: string;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone' })
+  updatedAt!: Date;
+}
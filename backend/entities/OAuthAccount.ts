@@ -6,10 +6,12 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   Unique,
+  Index,
   JoinColumn,
   type Relation,
 } from 'typeorm';
 import type { User } from './User.ts';
+import { encryptedColumnTransformer } from '../utils/encryption';
 
 @Entity('oauth_accounts')
 @Unique(['provider', 'providerAccountId'])
@@ -33,10 +35,11 @@ export class OAuthAccount {
   @Column({ name: 'provider_account_id', type: 'varchar', length: 255 })
   providerAccountId!: string; // unique user id from provider
 
-  @Column({ type: 'text' })
+  // Encrypted at rest (envelope AES-GCM, see utils/encryption.ts)
+  @Column({ type: 'text', transformer: encryptedColumnTransformer })
   accessToken!: string;
 
-  @Column({ type: 'text', nullable: true })
+  @Column({ type: 'text', nullable: true, transformer: encryptedColumnTransformer })
   refreshToken!: string | null;
 
   @Column({ type: 'timestamp with time zone', nullable: true })
@@ -48,6 +51,32 @@ export class OAuthAccount {
   @Column({ type: 'jsonb', nullable: true })
   rawProfile!: any | null;
 
+  // Gmail history cursor: incremental syncs fetch changes after this id
+  // (null until the first full backfill has completed)
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  historyId!: string | null;
+
+  // Gmail emails that failed to index, with their number of failed syncs;
+  // later syncs retry them until they are indexed or given up
+  @Column({ type: 'jsonb', nullable: true })
+  failedEmailAttempts!: Record<string, number> | null;
+
+  // Set when the provider rejects the credentials (revoked access, dead refresh token);
+  // scheduled syncs skip the account until the user reconnects
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  revokedAt!: Date | null;
+
+  // Scopes the account was not granted but a sync needs (e.g. HubSpot accounts
+  // connected before companies and deals were indexed); the data behind them
+  // is skipped until the user reconnects
+  @Column({ type: 'text', nullable: true })
+  missingScopes!: string | null;
+
+  // When the scheduler should queue the next periodic sync (null = as soon as possible)
+  @Index()
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  nextSyncAt!: Date | null;
+
   @CreateDateColumn({ type: 'timestamp with time zone' })
   createdAt!: Date;
 
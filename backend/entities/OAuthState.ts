@@ -0,0 +1,28 @@
+import {
+  Entity,
+  PrimaryColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+// Outstanding OAuth `state` nonces. A row is deleted when its callback consumes it,
+// which makes every state single-use (also across multiple backend instances).
+@Entity('oauth_states')
+export class OAuthState {
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  nonce!: string;
+
+  @Column({ type: 'uuid' })
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 50 })
+  provider!: string; // e.g., 'google', 'notion', 'hubspot'
+
+  @Index()
+  @Column({ type: 'timestamp with time zone' })
+  expiresAt!: Date;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt!: Date;
+}
@@ -0,0 +1,78 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  JoinColumn,
+  type Relation,
+} from 'typeorm';
+import type { User } from './User.ts';
+import type { SyncProgress } from '../data/types';
+
+export type SyncJobType = 'gmail' | 'notion' | 'hubspot';
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Background ingestion job. The worker claims queued jobs with
+// FOR UPDATE SKIP LOCKED, so several backend instances can share the table.
+@Entity('sync_jobs')
+@Index(['status', 'runAt'])
+@Index(['userId', 'createdAt'])
+// At most one queued job per account: new requests are merged into it
+@Index(['userId', 'type'], { unique: true, where: `"status" = 'queued'` })
+export class SyncJob {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @ManyToOne('User', { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId', referencedColumnName: 'id' })
+  user!: Relation<User>;
+
+  @Column({ type: 'uuid', name: 'userId' })
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  type!: SyncJobType;
+
+  @Column({ type: 'varchar', length: 16, default: 'queued' })
+  status!: SyncJobStatus;
+
+  // Pipeline options, e.g. { forceSync: true }, or the changed objects a
+  // webhook reported ({ targets: ['page:<id>'] }) to re-index only those
+  @Column({ type: 'jsonb', default: {} })
+  payload!: { forceSync?: boolean; targets?: string[] };
+
+  @Column({ type: 'jsonb', nullable: true })
+  progress!: SyncProgress | null;
+
+  @Column({ type: 'int', default: 0 })
+  attempts!: number;
+
+  @Column({ type: 'int', default: 5 })
+  maxAttempts!: number;
+
+  // Earliest time the job may (re)run; pushed back exponentially after failures
+  @Column({ type: 'timestamp with time zone', default: () => 'now()' })
+  runAt!: Date;
+
+  // Set when claimed and refreshed while the job runs (lease heartbeat)
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  lockedAt!: Date | null;
+
+  @Column({ type: 'text', nullable: true })
+  lastError!: string | null;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  startedAt!: Date | null;
+
+  @Column({ type: 'timestamp with time zone', nullable: true })
+  finishedAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamp with time zone' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamp with time zone' })
+  updatedAt!: Date;
+}
@@ -4,6 +4,8 @@ import { Server as SocketServer } from "socket.io";
 import { AppDataSource } from "./data-source";
 import app from "./app";
 import { setupSocketHandlers } from "./controllers/chatController";
+import { startSyncWorker } from "./jobs/syncWorker";
+import { startSyncScheduler } from "./jobs/syncScheduler";
 const PORT = process.env.PORT || 4000;
 
 // Create HTTP server
@@ -25,6 +27,10 @@ AppDataSource.initialize()
   .then(async () => {
     console.log("✅ Data Source has been initialized!");
 
+    // Process queued ingestion jobs in the background, and re-sync connected accounts periodically
+    startSyncWorker(io);
+    startSyncScheduler();
+
     httpServer.listen(PORT, () => {
       console.log(`🚀 Server is running on port ${PORT}`);
     });
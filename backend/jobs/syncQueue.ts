@@ -0,0 +1,262 @@
+import type { Server as SocketServer } from "socket.io";
+import { LessThan } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { SyncJob, type SyncJobType } from "../entities/SyncJob";
+import type { SyncProgress } from "../data/types";
+
+const jobRepository = AppDataSource.getRepository(SyncJob);
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+// Retry delay: 30s, 1m, 2m, 4m, ... capped at one hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+// A webhook job covering more changed objects than this re-syncs the whole account
+const MAX_JOB_TARGETS = 500;
+// A running job whose lease was not refreshed for this long is assumed to be
+// orphaned (worker crashed or restarted) and is queued again
+const STALE_LOCK_MS = 15 * 60 * 1000;
+
+let io: SocketServer | null = null;
+
+/**
+ * Registers the Socket.IO server used to push job updates to their owners
+ */
+export function setSyncSocketServer(server: SocketServer): void {
+  io = server;
+}
+
+/**
+ * Public view of a job (API responses and socket events)
+ */
+export function serializeSyncJob(job: SyncJob) {
+  return {
+    id: job.id,
+    type: job.type,
+    status: job.status,
+    progress: job.progress,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    lastError: job.lastError,
+    runAt: job.runAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    createdAt: job.createdAt,
+  };
+}
+
+function emitJobUpdate(job: SyncJob): void {
+  io?.to(`user:${job.userId}`).emit("sync-job-updated", serializeSyncJob(job));
+}
+
+/**
+ * Targets a waiting job should cover once a new request is merged into it:
+ * undefined (the whole account) as soon as either side is a full sync
+ */
+export function mergeTargets(pending: string[] | undefined, requested: string[] | undefined): string[] | undefined {
+  if (!pending || !requested) return undefined;
+  const merged = [...new Set([...pending, ...requested])];
+  return merged.length > MAX_JOB_TARGETS ? undefined : merged;
+}
+
+function findQueuedSyncJob(userId: string, type: SyncJobType): Promise<SyncJob | null> {
+  return jobRepository.findOne({ where: { userId, type, status: "queued" } });
+}
+
+/**
+ * Merges a request into a job that is still waiting to run
+ * @returns False when a worker claimed the job meanwhile
+ */
+async function mergeIntoQueuedJob(pending: SyncJob, payload: SyncJob["payload"]): Promise<boolean> {
+  const targets = mergeTargets(pending.payload.targets, payload.targets);
+  const forceSync = !!(pending.payload.forceSync || payload.forceSync);
+  if (forceSync === !!pending.payload.forceSync && targets?.length === pending.payload.targets?.length) {
+    return true;
+  }
+
+  const merged = { ...(forceSync && { forceSync }), ...(targets && { targets }) };
+  const result = await jobRepository.update({ id: pending.id, status: "queued" }, { payload: merged });
+  if (!result.affected) {
+    return false;
+  }
+
+  pending.payload = merged;
+  emitJobUpdate(pending);
+  return true;
+}
+
+/**
+ * Queues an ingestion job. A job of the same type that is still waiting for
+ * the user is reused instead of queueing a duplicate (a partial unique index
+ * allows one queued job per user and type). `targets` limits the job to the
+ * given changed objects (webhooks); without it the whole account is synced.
+ */
+export async function enqueueSyncJob(
+  userId: string,
+  type: SyncJobType,
+  options: { forceSync?: boolean; targets?: string[] } = {}
+): Promise<SyncJob> {
+  const targets = options.targets && options.targets.length <= MAX_JOB_TARGETS ? options.targets : undefined;
+  const payload = { ...(options.forceSync && { forceSync: true }), ...(targets && { targets: [...new Set(targets)] }) };
+
+  // Concurrent requests race between the read and the insert: the loser of the
+  // insert merges into the winner's job, and a job claimed meanwhile is not merged into
+  for (;;) {
+    const pending = await findQueuedSyncJob(userId, type);
+    if (pending) {
+      if (await mergeIntoQueuedJob(pending, options)) {
+        return pending;
+      }
+      continue;
+    }
+
+    const job = jobRepository.create({
+      userId,
+      type,
+      status: "queued",
+      payload,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      runAt: new Date(),
+    });
+    const result = await jobRepository.createQueryBuilder().insert().values(job).orIgnore().execute();
+    if (result.raw.length > 0) {
+      emitJobUpdate(job);
+      return job;
+    }
+  }
+}
+
+/**
+ * Drops jobs that have not started yet (e.g. when the account is disconnected;
+ * a running job stops by itself once it sees the account is gone)
+ */
+export async function cancelQueuedSyncJobs(userId: string, type: SyncJobType): Promise<void> {
+  await jobRepository.delete({ userId, type, status: "queued" });
+}
+
+/**
+ * Latest jobs of a user, newest first
+ */
+export async function getRecentSyncJobs(userId: string, limit: number = 20): Promise<SyncJob[]> {
+  return jobRepository.find({
+    where: { userId },
+    order: { createdAt: "DESC" },
+    take: limit,
+  });
+}
+
+/**
+ * Atomically claims the next due job. Jobs of a user/type that already has a
+ * running job are left alone, so one account is never synced twice at once.
+ */
+export async function claimNextSyncJob(): Promise<SyncJob | null> {
+  // For UPDATE ... RETURNING the postgres driver returns [rows, affectedCount]
+  const [rows]: [Array<{ id: string }>, number] = await AppDataSource.query(
+    `UPDATE "sync_jobs"
+     SET "status" = 'running', "attempts" = "attempts" + 1, "lockedAt" = now(),
+         "startedAt" = now(), "updatedAt" = now()
+     WHERE "id" = (
+       SELECT "id" FROM "sync_jobs" AS "job"
+       WHERE "job"."status" = 'queued' AND "job"."runAt" <= now()
+         AND NOT EXISTS (
+           SELECT 1 FROM "sync_jobs" AS "active"
+           WHERE "active"."status" = 'running'
+             AND "active"."userId" = "job"."userId" AND "active"."type" = "job"."type"
+         )
+       ORDER BY "job"."runAt" ASC
+       LIMIT 1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING "id"`
+  );
+
+  const claimedId = rows[0]?.id;
+  if (!claimedId) {
+    return null;
+  }
+
+  const job = await jobRepository.findOneBy({ id: claimedId });
+  if (job) {
+    emitJobUpdate(job);
+  }
+  return job;
+}
+
+/**
+ * Refreshes the lease of a job that is still running, so it is not taken for
+ * an orphaned one while a long phase reports no progress
+ */
+export async function refreshSyncJobLease(job: SyncJob): Promise<void> {
+  // The job itself is left alone: the worker may be saving its outcome meanwhile
+  await jobRepository.update({ id: job.id, status: "running" }, { lockedAt: new Date() });
+}
+
+/**
+ * Stores the job's progress and refreshes its lease
+ */
+export async function updateSyncJobProgress(job: SyncJob, progress: SyncProgress): Promise<void> {
+  job.progress = { ...progress };
+  job.lockedAt = new Date();
+  await jobRepository.update(job.id, { progress: job.progress, lockedAt: job.lockedAt });
+  emitJobUpdate(job);
+}
+
+export async function completeSyncJob(job: SyncJob, progress: SyncProgress | null): Promise<void> {
+  job.status = "completed";
+  job.progress = progress ? { ...progress } : job.progress;
+  job.lockedAt = null;
+  job.lastError = null;
+  job.finishedAt = new Date();
+  await jobRepository.save(job);
+  emitJobUpdate(job);
+}
+
+/**
+ * Records a failed attempt: the job is queued again with exponential backoff,
+ * or marked failed once it has used all its attempts (or `retry` is false).
+ * When the account already has a queued job, the retry is merged into that
+ * one instead, as only one job per user and type may be queued.
+ */
+export async function failSyncJob(
+  job: SyncJob,
+  error: unknown,
+  options: { retry?: boolean } = {}
+): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  const retry = options.retry ?? true;
+
+  job.lastError = message.substring(0, 2000);
+  job.lockedAt = null;
+
+  const pending = retry && job.attempts < job.maxAttempts ? await findQueuedSyncJob(job.userId, job.type) : null;
+
+  if (pending && (await mergeIntoQueuedJob(pending, job.payload))) {
+    job.status = "failed";
+    job.finishedAt = new Date();
+  } else if (retry && job.attempts < job.maxAttempts) {
+    const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+    job.status = "queued";
+    job.runAt = new Date(Date.now() + delay);
+  } else {
+    job.status = "failed";
+    job.finishedAt = new Date();
+  }
+
+  await jobRepository.save(job);
+  emitJobUpdate(job);
+}
+
+/**
+ * Queues running jobs whose worker stopped refreshing the lease
+ */
+export async function requeueStaleSyncJobs(): Promise<void> {
+  const staleJobs = await jobRepository.find({
+    where: {
+      status: "running",
+      lockedAt: LessThan(new Date(Date.now() - STALE_LOCK_MS)),
+    },
+  });
+
+  for (const job of staleJobs) {
+    await failSyncJob(job, new Error("Sync job was interrupted"));
+  }
+}
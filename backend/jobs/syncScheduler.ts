@@ -0,0 +1,98 @@
+import { In, IsNull, LessThanOrEqual } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { OAuthAccount } from "../entities/OAuthAccount";
+import type { SyncJobType } from "../entities/SyncJob";
+import { enqueueSyncJob } from "./syncQueue";
+
+const oauthRepository = AppDataSource.getRepository(OAuthAccount);
+
+// OAuth providers that have an ingestion pipeline, and the job that syncs them
+export const PROVIDER_SYNC_JOBS: Record<string, SyncJobType> = {
+  google: "gmail",
+  notion: "notion",
+  hubspot: "hubspot",
+};
+
+const SCHEDULER_TICK_MS = 60 * 1000;
+const DEFAULT_INTERVAL_MINUTES = 60;
+const DEFAULT_JITTER_MINUTES = 10;
+
+function readMinutes(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * When an account synced now should be synced again: SYNC_INTERVAL_MINUTES
+ * plus a random 0..SYNC_JITTER_MINUTES delay, so accounts connected together
+ * do not all hit the provider APIs at the same moment.
+ * Returns null when periodic syncing is disabled (interval 0).
+ */
+export function getNextSyncAt(from: Date = new Date()): Date | null {
+  const intervalMinutes = readMinutes("SYNC_INTERVAL_MINUTES", DEFAULT_INTERVAL_MINUTES);
+  if (intervalMinutes === 0) {
+    return null;
+  }
+
+  const jitterMinutes = readMinutes("SYNC_JITTER_MINUTES", DEFAULT_JITTER_MINUTES);
+  const delayMs = (intervalMinutes + Math.random() * jitterMinutes) * 60 * 1000;
+  return new Date(from.getTime() + delayMs);
+}
+
+/**
+ * Queues a sync for every connected, non-revoked account that is due
+ */
+async function queueDueSyncs(): Promise<void> {
+  const now = new Date();
+  const providers = In(Object.keys(PROVIDER_SYNC_JOBS));
+
+  const dueAccounts = await oauthRepository.find({
+    where: [
+      { provider: providers, revokedAt: IsNull(), nextSyncAt: LessThanOrEqual(now) },
+      { provider: providers, revokedAt: IsNull(), nextSyncAt: IsNull() },
+    ],
+    select: ["id", "userId", "provider", "nextSyncAt"],
+  });
+
+  for (const account of dueAccounts) {
+    const type = PROVIDER_SYNC_JOBS[account.provider];
+    if (!type) continue;
+
+    // Move the account's slot forward first; only the instance whose update
+    // matched the old value queues the job
+    const claimed = await oauthRepository.update(
+      { id: account.id, nextSyncAt: account.nextSyncAt ?? IsNull() },
+      { nextSyncAt: getNextSyncAt(now) }
+    );
+    if (claimed.affected !== 1) continue;
+
+    try {
+      await enqueueSyncJob(account.userId, type);
+    } catch (error: any) {
+      console.error(`Failed to queue scheduled ${type} sync for user ${account.userId}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Starts the periodic re-sync of connected Gmail, Notion and HubSpot accounts
+ * (disabled with SYNC_INTERVAL_MINUTES=0)
+ */
+export function startSyncScheduler(): void {
+  if (readMinutes("SYNC_INTERVAL_MINUTES", DEFAULT_INTERVAL_MINUTES) === 0) {
+    console.log("Periodic sync disabled (SYNC_INTERVAL_MINUTES=0)");
+    return;
+  }
+
+  const tick = async () => {
+    try {
+      await queueDueSyncs();
+    } catch (error: any) {
+      console.error("Sync scheduler error:", error.message);
+    } finally {
+      setTimeout(tick, SCHEDULER_TICK_MS);
+    }
+  };
+
+  void tick();
+}
@@ -0,0 +1,159 @@
+import type { Server as SocketServer } from "socket.io";
+import { deleteUserGmailData, ingestGmailEmails } from "../data/gmailPipeline";
+import { deleteUserNotionData, ingestAllNotionPages } from "../data/notionPipeline";
+import { deleteUserHubspotData, ingestHubspotData } from "../data/hubspotPipeline";
+import { AccountDisconnectedError, AccountRevokedError, isAccountConnected } from "../data/accountStatus";
+import { emptySyncProgress, type IngestOptions, type SyncProgress } from "../data/types";
+import type { SyncJob, SyncJobType } from "../entities/SyncJob";
+import {
+  claimNextSyncJob,
+  completeSyncJob,
+  failSyncJob,
+  refreshSyncJobLease,
+  requeueStaleSyncJobs,
+  setSyncSocketServer,
+  updateSyncJobProgress,
+} from "./syncQueue";
+import { PROVIDER_SYNC_JOBS } from "./syncScheduler";
+
+const POLL_INTERVAL_MS = 5 * 1000;
+// Progress is persisted (and pushed to the client) at most this often
+const PROGRESS_FLUSH_MS = 1000;
+// The lease of a running job is refreshed this often, well within the queue's stale lock timeout
+const LEASE_REFRESH_MS = 60 * 1000;
+
+const handlers: Record<SyncJobType, (userId: string, options: IngestOptions) => Promise<void>> = {
+  gmail: ingestGmailEmails,
+  notion: ingestAllNotionPages,
+  hubspot: ingestHubspotData,
+};
+
+// Removes a user's indexed data, as disconnecting the account does
+const dataRemovers: Record<SyncJobType, (userId: string) => Promise<void>> = {
+  gmail: deleteUserGmailData,
+  notion: deleteUserNotionData,
+  hubspot: deleteUserHubspotData,
+};
+
+// OAuth provider of each job type
+const JOB_PROVIDERS = Object.fromEntries(
+  Object.entries(PROVIDER_SYNC_JOBS).map(([provider, type]) => [type, provider])
+) as Record<SyncJobType, string>;
+
+let started = false;
+
+/**
+ * Runs a claimed job and records its outcome
+ */
+async function runJob(job: SyncJob): Promise<void> {
+  console.log(`Running ${job.type} sync job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  const provider = JOB_PROVIDERS[job.type];
+  let latestProgress: SyncProgress = emptySyncProgress();
+  let lastFlush = 0;
+  let flushing: Promise<void> = Promise.resolve();
+  let disconnected = false;
+
+  // Called by the pipelines between items: progress is stored and the account
+  // is checked at most every PROGRESS_FLUSH_MS, and once it has been
+  // disconnected the next call stops the pipeline
+  const onProgress = (progress: SyncProgress) => {
+    if (disconnected) {
+      throw new AccountDisconnectedError(provider);
+    }
+
+    latestProgress = { ...progress };
+    const now = Date.now();
+    if (now - lastFlush >= PROGRESS_FLUSH_MS) {
+      lastFlush = now;
+      flushing = flushing
+        .then(() => updateSyncJobProgress(job, latestProgress))
+        .catch((error) => console.error(`Failed to store progress of sync job ${job.id}:`, error.message))
+        .then(async () => {
+          disconnected = !(await isAccountConnected(job.userId, provider));
+        })
+        .catch((error) => console.error(`Failed to check the account of sync job ${job.id}:`, error.message));
+    }
+  };
+
+  // Keeps the job leased while it runs, including fetch phases without progress
+  const heartbeat = setInterval(() => {
+    refreshSyncJobLease(job).catch((error) =>
+      console.error(`Failed to refresh the lease of sync job ${job.id}:`, error.message)
+    );
+  }, LEASE_REFRESH_MS);
+
+  try {
+    if (!(await isAccountConnected(job.userId, provider))) {
+      throw new AccountDisconnectedError(provider);
+    }
+    await handlers[job.type](job.userId, {
+      forceSync: !!job.payload.forceSync,
+      targets: job.payload.targets,
+      onProgress,
+    });
+    await flushing;
+    await completeSyncJob(job, latestProgress);
+  } catch (error: any) {
+    await flushing;
+    console.error(`Sync job ${job.id} failed:`, error.message);
+    // Kept with the failed attempt, so partial runs show what failed
+    job.progress = { ...latestProgress };
+
+    // Any error once the account is gone (e.g. "not connected") means it was disconnected
+    const stopped =
+      error instanceof AccountDisconnectedError || !(await isAccountConnected(job.userId, provider).catch(() => true));
+    if (stopped) {
+      await removeDataIndexedAfterDisconnect(job);
+    }
+
+    // Revoked credentials and disconnected accounts fail the job right away; everything else is retried
+    await failSyncJob(job, error, { retry: !stopped && !(error instanceof AccountRevokedError) });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Disconnecting deletes the account's data, but items the job was indexing at
+ * that moment may have been written afterwards: they are deleted too, unless
+ * the account has been connected again meanwhile
+ */
+async function removeDataIndexedAfterDisconnect(job: SyncJob): Promise<void> {
+  try {
+    if (!(await isAccountConnected(job.userId, JOB_PROVIDERS[job.type]))) {
+      await dataRemovers[job.type](job.userId);
+    }
+  } catch (error: any) {
+    console.error(`Failed to remove data of disconnected ${job.type} account:`, error.message);
+  }
+}
+
+/**
+ * Starts the background loop that executes queued ingestion jobs.
+ * Job updates are pushed to the owner's socket room as "sync-job-updated".
+ */
+export function startSyncWorker(io: SocketServer): void {
+  if (started) return;
+  started = true;
+
+  setSyncSocketServer(io);
+
+  const tick = async () => {
+    try {
+      await requeueStaleSyncJobs();
+
+      let job = await claimNextSyncJob();
+      while (job) {
+        await runJob(job);
+        job = await claimNextSyncJob();
+      }
+    } catch (error: any) {
+      console.error("Sync worker error:", error.message);
+    } finally {
+      setTimeout(tick, POLL_INTERVAL_MS);
+    }
+  };
+
+  void tick();
+}
@@ -0,0 +1,43 @@
+import { createHash } from "crypto";
+import { Embeddings } from "@langchain/core/embeddings";
+
+/**
+ * Deterministic, offline embeddings: each token is hashed into a signed bucket
+ * of a fixed-size vector (feature hashing), then the vector is L2-normalised.
+ * Texts sharing words get a positive cosine similarity, so retrieval behaves
+ * sensibly in tests without any network access.
+ */
+export class HashEmbeddings extends Embeddings {
+  constructor(private readonly dimensions: number) {
+    super({});
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embed(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const token of tokens) {
+      const digest = createHash("sha256").update(token).digest();
+      const bucket = digest.readUInt32BE(0) % this.dimensions;
+      const sign = (digest[4]! & 1) === 0 ? 1 : -1;
+      vector[bucket]! += sign;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) {
+      // Keep empty texts comparable (a zero vector has no cosine similarity)
+      vector[0] = 1;
+      return vector;
+    }
+
+    return vector.map((value) => value / norm);
+  }
+}
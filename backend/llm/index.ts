@@ -0,0 +1,180 @@
+import { readFileSync } from "fs";
+import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import type { Embeddings } from "@langchain/core/embeddings";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HashEmbeddings } from "./hashEmbeddings";
+import { ScriptedChatModel, type ScriptedStep } from "./scriptedChatModel";
+import { CrossEncoderReranker, LLMReranker, type Reranker } from "./reranker";
+
+export { HashEmbeddings } from "./hashEmbeddings";
+export { ScriptedChatModel, type ScriptedStep, type ScriptedToolCall } from "./scriptedChatModel";
+export { CrossEncoderReranker, LLMReranker, type Reranker } from "./reranker";
+
+/**
+ * Provider names accepted by EMBEDDING_PROVIDER / CHAT_PROVIDER:
+ * - "openai" (default): OpenAI API with OPENAI_API_KEY
+ * - "openai-compatible": any server speaking the OpenAI API (Ollama, vLLM, ...) at LLM_BASE_URL
+ * - "hash" / "scripted": deterministic offline fakes for CI
+ */
+type EmbeddingProvider = "openai" | "openai-compatible" | "hash";
+type ChatProvider = "openai" | "openai-compatible" | "scripted";
+type RerankerProvider = "none" | "cross-encoder" | "llm";
+
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-ada-002"; // 1536 dimensions
+const DEFAULT_CHAT_MODEL = "gpt-4.1-mini";
+const DEFAULT_HASH_DIMENSIONS = 1536;
+
+function readProvider<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+  const value = (process.env[name] || fallback).toLowerCase();
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new Error(`Unknown ${name} "${value}". Use ${allowed.map((v) => `"${v}"`).join(", ")}.`);
+  }
+  return value as T;
+}
+
+/**
+ * Base URL and API key for an OpenAI-compatible server
+ * (local servers usually ignore the key, but the client requires one)
+ */
+function compatibleServer(baseUrlVar: string) {
+  const baseURL = process.env[baseUrlVar] || process.env.LLM_BASE_URL;
+  if (!baseURL) {
+    throw new Error(`${baseUrlVar} or LLM_BASE_URL must be set for the "openai-compatible" provider`);
+  }
+  return {
+    apiKey: process.env.LLM_API_KEY || "not-needed",
+    configuration: { baseURL },
+  };
+}
+
+function embeddingDimensions(): number | undefined {
+  const value = Number(process.env.EMBEDDING_DIMENSIONS);
+  return Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+let embeddings: Embeddings | null = null;
+
+/**
+ * Returns the shared embeddings model selected by EMBEDDING_PROVIDER.
+ * Ingestion and search must use the same provider/model, otherwise stored
+ * vectors and query vectors are not comparable.
+ */
+export function getEmbeddings(): Embeddings {
+  if (embeddings) {
+    return embeddings;
+  }
+
+  const provider = readProvider<EmbeddingProvider>(
+    "EMBEDDING_PROVIDER",
+    ["openai", "openai-compatible", "hash"],
+    "openai"
+  );
+  const model = process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+  const dimensions = embeddingDimensions();
+
+  switch (provider) {
+    case "openai":
+      embeddings = new OpenAIEmbeddings({
+        openAIApiKey: process.env.OPENAI_API_KEY,
+        modelName: model,
+        ...(dimensions && { dimensions }),
+      });
+      break;
+    case "openai-compatible":
+      embeddings = new OpenAIEmbeddings({
+        ...compatibleServer("EMBEDDING_BASE_URL"),
+        modelName: model,
+        ...(dimensions && { dimensions }),
+      });
+      break;
+    case "hash":
+      embeddings = new HashEmbeddings(dimensions ?? DEFAULT_HASH_DIMENSIONS);
+      break;
+  }
+
+  return embeddings;
+}
+
+/**
+ * Loads the scripted chat steps from SCRIPTED_CHAT_FILE (a JSON array), if set
+ */
+function loadChatScript(): ScriptedStep[] | undefined {
+  const file = process.env.SCRIPTED_CHAT_FILE;
+  if (!file) return undefined;
+
+  const script = JSON.parse(readFileSync(file, "utf8"));
+  if (!Array.isArray(script)) {
+    throw new Error("SCRIPTED_CHAT_FILE must contain a JSON array of steps");
+  }
+  return script as ScriptedStep[];
+}
+
+/**
+ * Creates a streaming chat model for the agent, selected by CHAT_PROVIDER
+ * @param options.temperature - Overrides CHAT_TEMPERATURE
+ */
+export function createChatModel(options: { temperature?: number } = {}): BaseChatModel {
+  const provider = readProvider<ChatProvider>(
+    "CHAT_PROVIDER",
+    ["openai", "openai-compatible", "scripted"],
+    "openai"
+  );
+  const model = process.env.CHAT_MODEL || DEFAULT_CHAT_MODEL;
+  const temperature =
+    options.temperature ?? (process.env.CHAT_TEMPERATURE ? Number(process.env.CHAT_TEMPERATURE) : 0.7);
+
+  switch (provider) {
+    case "openai":
+      return new ChatOpenAI({
+        modelName: model,
+        temperature,
+        openAIApiKey: process.env.OPENAI_API_KEY,
+        streaming: true,
+      });
+    case "openai-compatible":
+      return new ChatOpenAI({
+        ...compatibleServer("CHAT_BASE_URL"),
+        modelName: model,
+        temperature,
+        streaming: true,
+      });
+    case "scripted": {
+      const script = loadChatScript();
+      return new ScriptedChatModel(script ? { script } : {});
+    }
+  }
+}
+
+let reranker: Reranker | null | undefined;
+
+/**
+ * Returns the search result reranker selected by RERANKER: "none" (default),
+ * "cross-encoder" (a Cohere-compatible rerank API at RERANK_URL) or "llm"
+ * (the chat model grades the results)
+ */
+export function getReranker(): Reranker | null {
+  if (reranker !== undefined) {
+    return reranker;
+  }
+
+  const provider = readProvider<RerankerProvider>("RERANKER", ["none", "cross-encoder", "llm"], "none");
+
+  switch (provider) {
+    case "none":
+      reranker = null;
+      break;
+    case "cross-encoder": {
+      const url = process.env.RERANK_URL;
+      if (!url) {
+        throw new Error('RERANK_URL must be set for RERANKER="cross-encoder"');
+      }
+      reranker = new CrossEncoderReranker(url, process.env.RERANK_MODEL, process.env.RERANK_API_KEY);
+      break;
+    }
+    case "llm":
+      reranker = new LLMReranker(createChatModel({ temperature: 0 }));
+      break;
+  }
+
+  return reranker;
+}
@@ -0,0 +1,82 @@
+import axios from "axios";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+
+/**
+ * Scores search results against the query after retrieval
+ */
+export interface Reranker {
+  // Relevance of each document to the query (0..1, higher is better), in document order
+  rerank(query: string, documents: string[], signal?: AbortSignal): Promise<number[]>;
+}
+
+// Longest passage sent to the reranker
+const MAX_DOCUMENT_LENGTH = 2000;
+
+/**
+ * Cross-encoder behind a Cohere-compatible rerank API (Cohere, Jina, vLLM,
+ * Infinity, ...): POST { model, query, documents } -> { results: [{ index, relevance_score }] }
+ */
+export class CrossEncoderReranker implements Reranker {
+  constructor(
+    private readonly url: string,
+    private readonly model: string | undefined,
+    private readonly apiKey: string | undefined
+  ) {}
+
+  async rerank(query: string, documents: string[], signal?: AbortSignal): Promise<number[]> {
+    const response = await axios.post(
+      this.url,
+      {
+        ...(this.model && { model: this.model }),
+        query,
+        documents: documents.map((document) => document.substring(0, MAX_DOCUMENT_LENGTH)),
+        top_n: documents.length,
+      },
+      {
+        headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+        timeout: 15000,
+        ...(signal && { signal }),
+      }
+    );
+
+    const scores = new Array<number>(documents.length).fill(0);
+    for (const result of response.data.results ?? []) {
+      if (typeof result.index === "number" && result.index < scores.length) {
+        scores[result.index] = Number(result.relevance_score) || 0;
+      }
+    }
+    return scores;
+  }
+}
+
+/**
+ * Asks the chat model to grade every passage from 0 to 10 in a single call
+ */
+export class LLMReranker implements Reranker {
+  constructor(private readonly model: BaseChatModel) {}
+
+  async rerank(query: string, documents: string[], signal?: AbortSignal): Promise<number[]> {
+    const passages = documents
+      .map((document, index) => `[${index}] ${document.substring(0, MAX_DOCUMENT_LENGTH)}`)
+      .join("\n\n");
+
+    const response = await this.model.invoke(
+      [
+        [
+          "system",
+          "You grade search results. For each passage, rate from 0 (unrelated) to 10 (answers the query exactly) how relevant it is to the query. " +
+            "Reply with only a JSON array of numbers, one per passage, in passage order.",
+        ],
+        ["human", `Query: ${query}\n\nPassages:\n${passages}`],
+      ],
+      signal ? { signal } : {}
+    );
+
+    const text = typeof response.content === "string" ? response.content : JSON.stringify(response.content);
+    const grades = JSON.parse(text.match(/\[[\s\S]*\]/)?.[0] ?? "[]");
+    if (!Array.isArray(grades) || grades.length !== documents.length) {
+      throw new Error("Reranking model did not return one grade per passage");
+    }
+    return grades.map((grade) => Math.min(Math.max(Number(grade) || 0, 0), 10) / 10);
+  }
+}
@@ -0,0 +1,159 @@
+import { BaseChatModel, type BaseChatModelParams } from "@langchain/core/language_models/chat_models";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  AIMessage,
+  AIMessageChunk,
+  HumanMessage,
+  ToolMessage,
+  type BaseMessage,
+} from "@langchain/core/messages";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+
+export interface ScriptedToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * One model step. Steps are counted from the latest user message, so every
+ * user turn replays the script from the start: step 0 answers the user,
+ * step 1 answers after the first round of tool results, and so on.
+ */
+export interface ScriptedStep {
+  content?: string;
+  toolCalls?: ScriptedToolCall[];
+}
+
+export interface ScriptedChatModelParams extends BaseChatModelParams {
+  script?: ScriptedStep[];
+}
+
+// Tool name words that say nothing about which service a tool covers
+const GENERIC_TOOL_WORDS = new Set(["search", "get", "list", "find", "fetch"]);
+
+function messageText(message: BaseMessage | undefined): string {
+  if (!message) return "";
+  return typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+}
+
+/**
+ * Deterministic chat model for offline runs (CI, local development).
+ *
+ * With a script, each step returns the scripted content/tool calls. Without
+ * one it follows a fixed policy: call every bound tool whose name shares a
+ * word with the user message (e.g. "gmail" -> search_gmail), then summarise
+ * the tool results; if no tool matches, reply with an echo of the message.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  private readonly script: ScriptedStep[] | undefined;
+  private tools: StructuredToolInterface[] = [];
+
+  constructor(fields: ScriptedChatModelParams = {}) {
+    const { script, ...rest } = fields;
+    super(rest);
+    this.script = script;
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  override bindTools(tools: StructuredToolInterface[]) {
+    const bound = new ScriptedChatModel(this.script ? { script: this.script } : {});
+    bound.tools = [...this.tools, ...tools];
+    return bound;
+  }
+
+  /**
+   * Decide the next step from the conversation so far
+   */
+  private nextStep(messages: BaseMessage[]): ScriptedStep {
+    const turnStart = messages.map((msg) => HumanMessage.isInstance(msg)).lastIndexOf(true);
+    const userMessage = messageText(messages[turnStart]);
+    const turnMessages = messages.slice(turnStart + 1);
+    const step = turnMessages.filter((msg) => AIMessage.isInstance(msg)).length;
+
+    if (this.script) {
+      return this.script[step] ?? { content: "" };
+    }
+
+    const toolResults = turnMessages.filter((msg): msg is ToolMessage => ToolMessage.isInstance(msg));
+    if (toolResults.length > 0) {
+      const lines = toolResults.map((msg) => `- ${msg.name ?? "tool"}: ${messageText(msg).slice(0, 200)}`);
+      return { content: `Here is what I found:\n${lines.join("\n")}` };
+    }
+
+    const words = new Set(userMessage.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+    const toolCalls = this.tools
+      .filter((tool) =>
+        tool.name
+          .toLowerCase()
+          .split("_")
+          .some((word) => !GENERIC_TOOL_WORDS.has(word) && words.has(word))
+      )
+      .map((tool) => ({ name: tool.name, args: { query: userMessage } }));
+
+    if (toolCalls.length > 0) {
+      return { toolCalls };
+    }
+
+    return { content: `You said: ${userMessage}` };
+  }
+
+  private toolCallsFor(step: ScriptedStep, messages: BaseMessage[]) {
+    const offset = messages.length;
+    return (step.toolCalls ?? []).map((call, index) => ({
+      id: `call_${offset}_${index}`,
+      name: call.name,
+      args: call.args,
+    }));
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const step = this.nextStep(messages);
+    const content = step.content ?? "";
+
+    return {
+      generations: [
+        {
+          text: content,
+          message: new AIMessage({ content, tool_calls: this.toolCallsFor(step, messages) }),
+        },
+      ],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const step = this.nextStep(messages);
+
+    // Stream the content word by word (keeping whitespace) like a real model
+    for (const token of (step.content ?? "").match(/\s*\S+\s*/g) ?? []) {
+      if (options.signal?.aborted) return;
+      const chunk = new ChatGenerationChunk({ message: new AIMessageChunk({ content: token }), text: token });
+      yield chunk;
+      await runManager?.handleLLMNewToken(token, undefined, undefined, undefined, undefined, { chunk });
+    }
+
+    const toolCalls = this.toolCallsFor(step, messages);
+    if (toolCalls.length > 0) {
+      yield new ChatGenerationChunk({
+        message: new AIMessageChunk({
+          content: "",
+          tool_call_chunks: toolCalls.map((call, index) => ({
+            id: call.id,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index,
+            type: "tool_call_chunk" as const,
+          })),
+        }),
+        text: "",
+      });
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from "express";
+import type { Socket } from "socket.io";
 import crypto from "crypto";
 import { AppError, asyncHandler } from "./errorHandler";
 
@@ -29,7 +30,7 @@ function base64UrlDecode(input: string): Buffer {
   return Buffer.from(base64, "base64");
 }
 
-function verifyAuthToken(token: string): JWTPayload {
+export function verifyAuthToken(token: string): JWTPayload {
   const secret = process.env.JWT_SECRET;
   if (!secret) {
     throw new Error("JWT_SECRET environment variable is not set");
@@ -89,3 +90,57 @@ export const authenticate = asyncHandler(
   }
 );
 
+// For top-level form submissions from the frontend (the OAuth initiate endpoints):
+// the JWT is posted as the `token` field. The Origin must be FRONTEND_URL, so
+// another site can't start a flow in the user's browser with its own token.
+export const authenticateFormPost = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const frontendUrl = process.env.FRONTEND_URL;
+    if (!frontendUrl || req.headers.origin !== new URL(frontendUrl).origin) {
+      throw new AppError("Request must come from the frontend", 403);
+    }
+
+    const token = req.body?.token;
+    if (!token || typeof token !== "string") {
+      throw new AppError("No token provided", 401);
+    }
+
+    const payload = verifyAuthToken(token);
+
+    req.userId = payload.sub;
+    req.userEmail = payload.email;
+    req.userName = payload.name;
+
+    next();
+  }
+);
+
+// Socket.IO handshake middleware: verifies the JWT sent as `auth.token`
+// (or an Authorization header) and binds the socket to the verified user.
+export const authenticateSocket = (
+  socket: Socket,
+  next: (err?: Error) => void
+) => {
+  try {
+    const authHeader = socket.handshake.headers.authorization;
+    const token =
+      (typeof socket.handshake.auth?.token === "string" && socket.handshake.auth.token) ||
+      (authHeader?.startsWith("Bearer ") ? authHeader.substring(7) : null);
+
+    if (!token) {
+      throw new AppError("No token provided", 401);
+    }
+
+    const payload = verifyAuthToken(token);
+
+    socket.data.userId = payload.sub;
+    socket.data.userEmail = payload.email;
+    socket.data.userName = payload.name;
+
+    next();
+  } catch (error) {
+    next(
+      new Error(error instanceof AppError ? error.message : "Authentication failed")
+    );
+  }
+};
@@ -0,0 +1,130 @@
+import { Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import { google } from "googleapis";
+import { AppError, asyncHandler } from "./errorHandler";
+import { verifyHubspotSignature, verifyNotionSignature, verifyPushToken } from "../utils/webhookSignatures";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Unparsed JSON body, kept for webhook signature checks
+      rawBody?: Buffer;
+    }
+  }
+}
+
+/**
+ * `verify` option of express.json(): keeps the raw bytes of JSON bodies, since
+ * webhook signatures are computed over the body exactly as it was sent
+ */
+export function captureRawBody(req: IncomingMessage, res: unknown, buf: Buffer): void {
+  (req as Request).rawBody = buf;
+}
+
+function getSecret(name: string): string {
+  const secret = process.env[name];
+  if (!secret) {
+    throw new AppError(`Webhook not configured (${name} is not set)`, 503);
+  }
+  return secret;
+}
+
+/**
+ * Public URL of the request as the provider called it. Behind a proxy or
+ * tunnel, WEBHOOK_BASE_URL gives the public origin.
+ */
+function getRequestUrl(req: Request): string {
+  const baseUrl = process.env.WEBHOOK_BASE_URL || `${req.protocol}://${req.get("host")}`;
+  return `${baseUrl.replace(/\/+$/, "")}${req.originalUrl}`;
+}
+
+/**
+ * Rejects Notion webhook requests not signed with NOTION_WEBHOOK_SECRET. Until
+ * the secret is configured, the unsigned verification request sent when the
+ * subscription is created is let through: it carries the secret, which gets
+ * logged. Once it is set, unsigned requests are rejected like any other.
+ */
+export const verifyNotionWebhook = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (
+      !process.env.NOTION_WEBHOOK_SECRET &&
+      typeof req.body?.verification_token === "string" &&
+      !req.get("x-notion-signature")
+    ) {
+      return next();
+    }
+
+    const secret = getSecret("NOTION_WEBHOOK_SECRET");
+    if (!verifyNotionSignature(req.rawBody ?? Buffer.alloc(0), req.get("x-notion-signature"), secret)) {
+      throw new AppError("Invalid webhook signature", 401);
+    }
+    next();
+  }
+);
+
+/**
+ * Rejects HubSpot webhook requests whose v3 signature (keyed with
+ * HUBSPOT_CLIENT_SECRET) is invalid or older than 5 minutes
+ */
+export const verifyHubspotWebhook = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const secret = getSecret("HUBSPOT_CLIENT_SECRET");
+    const valid = verifyHubspotSignature(
+      {
+        method: req.method,
+        url: getRequestUrl(req),
+        rawBody: req.rawBody ?? Buffer.alloc(0),
+        timestamp: req.get("x-hubspot-request-timestamp"),
+      },
+      req.get("x-hubspot-signature-v3"),
+      secret
+    );
+    if (!valid) {
+      throw new AppError("Invalid webhook signature", 401);
+    }
+    next();
+  }
+);
+
+/**
+ * Authenticates Gmail push notifications delivered by a Pub/Sub push
+ * subscription, with a Google-signed OIDC token for GMAIL_PUBSUB_AUDIENCE
+ * (optionally issued to GMAIL_PUBSUB_SERVICE_ACCOUNT) or with the shared
+ * GMAIL_PUBSUB_VERIFICATION_TOKEN passed as "?token=" in the push endpoint
+ */
+export const verifyPubsubPush = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const audience = process.env.GMAIL_PUBSUB_AUDIENCE;
+
+    if (audience) {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith("Bearer ")) {
+        throw new AppError("No token provided", 401);
+      }
+
+      let email: string | undefined;
+      try {
+        const ticket = await new google.auth.OAuth2().verifyIdToken({
+          idToken: authHeader.substring(7),
+          audience,
+        });
+        const payload = ticket.getPayload();
+        email = payload?.email_verified ? payload.email : undefined;
+      } catch (error: any) {
+        throw new AppError("Invalid push token", 401);
+      }
+
+      const serviceAccount = process.env.GMAIL_PUBSUB_SERVICE_ACCOUNT;
+      if (serviceAccount && email !== serviceAccount) {
+        throw new AppError("Invalid push token", 401);
+      }
+      return next();
+    }
+
+    const expected = getSecret("GMAIL_PUBSUB_VERIFICATION_TOKEN");
+    if (!verifyPushToken(req.query.token, expected)) {
+      throw new AppError("Invalid push token", 401);
+    }
+    next();
+  }
+);
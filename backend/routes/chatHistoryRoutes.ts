@@ -8,6 +8,9 @@ import {
   deleteChat,
   addMessage,
   createChatWithMessage,
+  setActiveMessage,
+  regenerateMessage,
+  editMessage,
 } from "../controllers/chatHistoryController";
 
 const router = express.Router();
@@ -22,8 +25,11 @@ router.post("/with-message", createChatWithMessage); // POST /api/chats/with-mes
 router.get("/:chatId", getChat); // GET /api/chats/:chatId - Get chat with messages
 router.put("/:chatId", updateChat); // PUT /api/chats/:chatId - Update chat title
 router.delete("/:chatId", deleteChat); // DELETE /api/chats/:chatId - Delete a chat
+router.put("/:chatId/active-message", setActiveMessage); // PUT /api/chats/:chatId/active-message - Show the branch through a message
 
 // Message routes
 router.post("/:chatId/messages", addMessage); // POST /api/chats/:chatId/messages - Add message to chat
+router.post("/:chatId/messages/:messageId/regenerate", regenerateMessage); // POST /api/chats/:chatId/messages/:messageId/regenerate - New version of an answer
+router.post("/:chatId/messages/:messageId/edit", editMessage); // POST /api/chats/:chatId/messages/:messageId/edit - Edit a question into a new branch
 
 export default router;
@@ -10,27 +10,46 @@ import {
   disconnectGmail,
   disconnectNotion,
   disconnectHubspot,
+  syncGmailNow,
+  syncNotionNow,
+  syncHubspotNow,
+  redirectInitiateError,
 } from "../controllers/oauthController";
-import { authenticate } from "../middlewares/auth";
+import {
+  handleNotionWebhook,
+  handleHubspotWebhook,
+  handleGmailPushNotification,
+} from "../controllers/webhookController";
+import { authenticate, authenticateFormPost } from "../middlewares/auth";
+import { verifyNotionWebhook, verifyHubspotWebhook, verifyPubsubPush } from "../middlewares/webhookAuth";
 
 const router = express.Router();
 
 router.get("/connection-status", authenticate, getConnectionStatus);
 
+// The initiate routes are form submissions (top-level navigations), so the OAuth
+// state cookie they set is first-party even when the frontend is on another site
+
 // Google OAuth routes
-router.get("/google/initiate", authenticate, initiateGoogleOAuth);
+router.post("/google/initiate", authenticateFormPost, initiateGoogleOAuth, redirectInitiateError("google"));
 router.get("/google/callback", handleGoogleCallback);
 router.delete("/google/disconnect", authenticate, disconnectGmail);
+router.post("/google/sync", authenticate, syncGmailNow);
+router.post("/google/webhook", verifyPubsubPush, handleGmailPushNotification);
 
 // Notion OAuth routes
-router.get("/notion/initiate", authenticate, initiateNotionOAuth);
+router.post("/notion/initiate", authenticateFormPost, initiateNotionOAuth, redirectInitiateError("notion"));
 router.get("/notion/callback", handleNotionCallback);
 router.delete("/notion/disconnect", authenticate, disconnectNotion);
+router.post("/notion/sync", authenticate, syncNotionNow);
+router.post("/notion/webhook", verifyNotionWebhook, handleNotionWebhook);
 
 // HubSpot OAuth routes
-router.get("/hubspot/initiate", authenticate, initiateHubspotOAuth);
+router.post("/hubspot/initiate", authenticateFormPost, initiateHubspotOAuth, redirectInitiateError("hubspot"));
 router.get("/hubspot/callback", handleHubspotCallback);
 router.delete("/hubspot/disconnect", authenticate, disconnectHubspot);
+router.post("/hubspot/sync", authenticate, syncHubspotNow);
+router.post("/hubspot/webhook", verifyHubspotWebhook, handleHubspotWebhook);
 
 export default router;
 
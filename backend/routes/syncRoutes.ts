@@ -0,0 +1,12 @@
+import express from "express";
+import { authenticate } from "../middlewares/auth";
+import { getSyncJobs } from "../controllers/syncController";
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+router.get("/jobs", getSyncJobs); // GET /api/sync/jobs - Latest sync jobs with progress
+
+export default router;
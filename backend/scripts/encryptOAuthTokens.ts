@@ -0,0 +1,62 @@
+import "reflect-metadata";
+import { AppDataSource } from "../data-source";
+import { OAuthAccount } from "../entities/OAuthAccount";
+import { needsReencryption, withoutTokens } from "../utils/encryption";
+
+/**
+ * One-off migration: encrypts plaintext OAuth tokens and re-encrypts tokens
+ * that use an old key id with the current TOKEN_ENCRYPTION_KEY_ID, and removes
+ * the plaintext token copies older connections kept in `rawProfile`.
+ * Safe to run repeatedly.
+ */
+async function encryptOAuthTokens(): Promise<void> {
+  await AppDataSource.initialize();
+
+  const oauthRepository = AppDataSource.getRepository(OAuthAccount);
+
+  // Raw values (bypassing the column transformer) to see what is stored
+  const rows: Array<{ id: string; accessToken: string; refreshToken: string | null; rawProfile: any | null }> =
+    await AppDataSource.query(
+      `SELECT "id", "accessToken", "refreshToken", "rawProfile" FROM "oauth_accounts"`
+    );
+
+  console.log(`\n=== Encrypting OAuth tokens (${rows.length} accounts) ===`);
+
+  let updatedCount = 0;
+  let scrubbedCount = 0;
+
+  for (const row of rows) {
+    const rawProfile = withoutTokens(row.rawProfile);
+    if (JSON.stringify(rawProfile) !== JSON.stringify(row.rawProfile)) {
+      await oauthRepository.update(row.id, { rawProfile });
+      scrubbedCount++;
+    }
+
+    if (!needsReencryption(row.accessToken) && !needsReencryption(row.refreshToken)) {
+      continue;
+    }
+
+    // Loading through the repository decrypts (or passes through plaintext);
+    // update() writes back through the transformer with the current key.
+    const account = await oauthRepository.findOneBy({ id: row.id });
+    if (!account) continue;
+
+    await oauthRepository.update(account.id, {
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken,
+    });
+    updatedCount++;
+  }
+
+  console.log(`Accounts re-encrypted: ${updatedCount}`);
+  console.log(`Accounts already up to date: ${rows.length - updatedCount}`);
+  console.log(`Profiles with plaintext tokens removed: ${scrubbedCount}`);
+  console.log("================================\n");
+
+  await AppDataSource.destroy();
+}
+
+encryptOAuthTokens().catch((error) => {
+  console.error("❌ Token encryption migration failed:", error);
+  process.exit(1);
+});
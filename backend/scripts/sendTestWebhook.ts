@@ -0,0 +1,122 @@
+import dotenv from "dotenv";
+import axios from "axios";
+import { randomUUID } from "crypto";
+import { signHubspotPayload, signNotionPayload } from "../utils/webhookSignatures";
+
+dotenv.config();
+
+const USAGE = `Usage:
+  npm run webhook:test -- notion <workspaceId> <page|database> <id>
+  npm run webhook:test -- hubspot <portalId> <contact|company|deal> <objectId>
+  npm run webhook:test -- gmail <emailAddress>`;
+
+// Where the webhooks are sent; signatures are computed for this origin, as the server checks them
+const baseUrl = (process.env.WEBHOOK_BASE_URL || `http://localhost:${process.env.PORT || 4000}`).replace(/\/+$/, "");
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+async function post(path: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+  const response = await axios.post(`${baseUrl}${path}`, body, {
+    headers: { "Content-Type": "application/json", ...headers },
+    validateStatus: () => true,
+  });
+  console.log(`POST ${path} -> ${response.status}`, response.data);
+}
+
+/**
+ * Sends a Notion page or database event signed with NOTION_WEBHOOK_SECRET
+ */
+async function sendNotion([workspaceId, entityType, entityId]: string[]): Promise<void> {
+  if (!workspaceId || !entityId || (entityType !== "page" && entityType !== "database")) {
+    throw new Error(USAGE);
+  }
+
+  const body = JSON.stringify({
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    workspace_id: workspaceId,
+    type: `${entityType}.content_updated`,
+    entity: { id: entityId, type: entityType },
+    data: {},
+  });
+  await post("/api/oauth/notion/webhook", body, {
+    "X-Notion-Signature": signNotionPayload(body, requireEnv("NOTION_WEBHOOK_SECRET")),
+  });
+}
+
+/**
+ * Sends a HubSpot property change event with a v3 signature keyed with HUBSPOT_CLIENT_SECRET
+ */
+async function sendHubspot([portalId, objectType, objectId]: string[]): Promise<void> {
+  if (!portalId || !objectType || !objectId) {
+    throw new Error(USAGE);
+  }
+
+  const path = "/api/oauth/hubspot/webhook";
+  const body = JSON.stringify([
+    {
+      eventId: Date.now(),
+      subscriptionType: `${objectType}.propertyChange`,
+      portalId: Number(portalId),
+      objectId: Number(objectId),
+      occurredAt: Date.now(),
+      attemptNumber: 0,
+    },
+  ]);
+  const timestamp = String(Date.now());
+  const signature = signHubspotPayload(
+    { method: "POST", url: `${baseUrl}${path}`, rawBody: body, timestamp },
+    requireEnv("HUBSPOT_CLIENT_SECRET")
+  );
+  await post(path, body, {
+    "X-HubSpot-Signature-v3": signature,
+    "X-HubSpot-Request-Timestamp": timestamp,
+  });
+}
+
+/**
+ * Sends a Pub/Sub push message like Gmail's, authenticated with GMAIL_PUBSUB_VERIFICATION_TOKEN
+ */
+async function sendGmail([emailAddress]: string[]): Promise<void> {
+  if (!emailAddress) {
+    throw new Error(USAGE);
+  }
+
+  const data = Buffer.from(JSON.stringify({ emailAddress, historyId: Date.now() })).toString("base64");
+  const body = JSON.stringify({
+    message: { data, messageId: String(Date.now()), publishTime: new Date().toISOString() },
+    subscription: "projects/local/subscriptions/gmail-push",
+  });
+  const token = encodeURIComponent(requireEnv("GMAIL_PUBSUB_VERIFICATION_TOKEN"));
+  await post(`/api/oauth/google/webhook?token=${token}`, body);
+}
+
+/**
+ * Sends a locally signed fake webhook to a running backend, to try the
+ * webhook receivers without a public URL or provider subscriptions
+ */
+async function sendTestWebhook(): Promise<void> {
+  const [provider, ...args] = process.argv.slice(2);
+  const senders: Record<string, (args: string[]) => Promise<void>> = {
+    notion: sendNotion,
+    hubspot: sendHubspot,
+    gmail: sendGmail,
+  };
+
+  const send = provider ? senders[provider] : undefined;
+  if (!send) {
+    throw new Error(USAGE);
+  }
+  await send(args);
+}
+
+sendTestWebhook().catch((error) => {
+  console.error("❌ Test webhook failed:", error.message);
+  process.exit(1);
+});
@@ -0,0 +1,157 @@
+import { after, before, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import axios from "axios";
+import { MemorySaver } from "@langchain/langgraph";
+import { AIMessage, HumanMessage, type BaseMessage } from "@langchain/core/messages";
+import { AppDataSource } from "../data-source";
+import { OAuthAccount } from "../entities/OAuthAccount";
+import { NotionSyncLog } from "../entities/NotionSyncLog";
+import { TypeORMCheckpointSaver } from "../agents/checkpointer";
+import { runLangGraphAgentStreaming, type ToolStep } from "../agents/langgraphAgent";
+import { ingestAllNotionPages } from "../data/notionPipeline";
+import type { ScriptedStep } from "../llm";
+
+// End-to-end turn against the offline backends: a Notion page is ingested into
+// the memory vector store, the scripted model searches it and cites the result
+
+const USER_ID = "user-1";
+const PAGE_ID = "page-1";
+
+// In-memory stand-ins for the account and sync log tables
+const syncLogs: NotionSyncLog[] = [];
+
+Object.assign(AppDataSource.getRepository(OAuthAccount), {
+  findOne: async () => ({ userId: USER_ID, provider: "notion", accessToken: "token", tokenExpiresAt: null }),
+});
+Object.assign(AppDataSource.getRepository(NotionSyncLog), {
+  find: async () => syncLogs,
+  findOne: async () => null,
+  create: (fields: Partial<NotionSyncLog>) => Object.assign(new NotionSyncLog(), fields),
+  save: async (log: NotionSyncLog) => {
+    syncLogs.push(log);
+    return log;
+  },
+});
+
+// Agent memory is kept in memory instead of the checkpoint tables
+const memory = new MemorySaver();
+for (const method of ["getTuple", "list", "put", "putWrites", "deleteThread"] as const) {
+  Object.assign(TypeORMCheckpointSaver.prototype, { [method]: memory[method].bind(memory) });
+}
+
+const script: ScriptedStep[] = [
+  { toolCalls: [{ name: "search_notion", args: { query: "release checklist" } }] },
+  // [7] is not a source of this turn and must be dropped from the stored answer
+  { content: "Tag the release before deploying [1]. Then announce it [7]." },
+];
+
+let scriptDir: string;
+
+before(async () => {
+  scriptDir = mkdtempSync(join(tmpdir(), "velyx-agent-"));
+  const scriptFile = join(scriptDir, "script.json");
+  writeFileSync(scriptFile, JSON.stringify(script));
+  process.env.SCRIPTED_CHAT_FILE = scriptFile;
+
+  mock.method(axios, "get", async (url: string) => {
+    if (url.endsWith(`/pages/${PAGE_ID}`)) {
+      return {
+        data: {
+          id: PAGE_ID,
+          object: "page",
+          url: "https://www.notion.so/page-1",
+          last_edited_time: "2024-06-03T10:00:00.000Z",
+          parent: { type: "workspace", workspace: true },
+          properties: { title: { type: "title", title: [{ plain_text: "Release checklist" }] } },
+        },
+      };
+    }
+    const text = { type: "text", plain_text: "Tag the release before deploying.", annotations: {}, href: null };
+    return {
+      data: {
+        results: [{ id: "block-1", type: "paragraph", has_children: false, paragraph: { rich_text: [text] } }],
+        has_more: false,
+        next_cursor: null,
+      },
+    };
+  });
+
+  await ingestAllNotionPages(USER_ID, { targets: [`page:${PAGE_ID}`] });
+});
+
+after(() => {
+  mock.restoreAll();
+  delete process.env.SCRIPTED_CHAT_FILE;
+  rmSync(scriptDir, { recursive: true, force: true });
+});
+
+test("answers from an ingested Notion page with a citation", async () => {
+  let streamed = "";
+  const steps: ToolStep[] = [];
+
+  const response = await runLangGraphAgentStreaming(
+    "What is on the release checklist?",
+    USER_ID,
+    "chat-1",
+    null,
+    (token) => (streamed += token),
+    { onToolStep: (step) => steps.push(step) }
+  );
+
+  assert.equal(streamed, "Tag the release before deploying [1]. Then announce it [7].");
+  assert.equal(response.content, "Tag the release before deploying [1]. Then announce it.");
+  assert.deepEqual(
+    response.citations.map(({ number, tool, sourceId, title, url, snippet }) => ({
+      number,
+      tool,
+      sourceId,
+      title,
+      url,
+      snippet,
+    })),
+    [
+      {
+        number: 1,
+        tool: "notion",
+        sourceId: PAGE_ID,
+        title: "Release checklist",
+        url: "https://www.notion.so/page-1#block1",
+        snippet: "Release checklist Tag the release before deploying.",
+      },
+    ]
+  );
+
+  assert.deepEqual(
+    response.toolSteps.map(({ tool, status, resultCount }) => ({ tool, status, resultCount })),
+    [{ tool: "search_notion", status: "completed", resultCount: 1 }]
+  );
+  assert.deepEqual(
+    steps.map((step) => step.status),
+    ["running", "completed"]
+  );
+  assert.equal(response.cancelled, false);
+  assert.ok(response.checkpointId);
+});
+
+test("returns the checkpoint of its own turn when turns on the same chat overlap", async () => {
+  const questions = ["What is on the release checklist?", "When do we tag the release?"];
+
+  const responses = await Promise.all(
+    questions.map((question) => runLangGraphAgentStreaming(question, USER_ID, "chat-2", null, () => {}))
+  );
+
+  for (const [index, response] of responses.entries()) {
+    assert.ok(response.checkpointId);
+    const tuple = await memory.getTuple({
+      configurable: { thread_id: "chat-2", checkpoint_ns: "", checkpoint_id: response.checkpointId },
+    });
+    const messages = tuple!.checkpoint.channel_values.messages as BaseMessage[];
+    assert.equal(messages.find((message) => HumanMessage.isInstance(message))?.content, questions[index]);
+    // The turn's final answer, not a step of the other turn
+    const lastMessage = messages[messages.length - 1];
+    assert.ok(AIMessage.isInstance(lastMessage) && !lastMessage.tool_calls?.length);
+  }
+});
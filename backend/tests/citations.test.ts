@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateCitationMarkers, type Citation } from "../agents/langgraphAgent";
+
+function citation(number: number): Citation {
+  return {
+    number,
+    tool: "gmail",
+    sourceId: `email-${number}`,
+    title: `Email ${number}`,
+    url: null,
+    snippet: "",
+    score: 1,
+  };
+}
+
+const citations = [citation(1), citation(2), citation(3)];
+
+test("keeps markers of known sources", () => {
+  assert.equal(
+    validateCitationMarkers("The invoice was paid [1] and sent [3].", citations),
+    "The invoice was paid [1] and sent [3]."
+  );
+});
+
+test("removes markers of unknown sources with their leading space", () => {
+  assert.equal(validateCitationMarkers("Paid on time [7]. Sent late [2].", citations), "Paid on time. Sent late [2].");
+});
+
+test("writes groups as separate markers and drops their unknown numbers", () => {
+  assert.equal(validateCitationMarkers("Both agree [1, 4,3].", citations), "Both agree [1][3].");
+  assert.equal(validateCitationMarkers("Nobody said so [4, 5].", citations), "Nobody said so.");
+});
+
+test("leaves Markdown links alone", () => {
+  const content = "See [9](https://example.com) and [2].";
+  assert.equal(validateCitationMarkers(content, citations), content);
+});
+
+test("removes every marker when no source was returned", () => {
+  assert.equal(validateCitationMarkers("No sources [1][2].", []), "No sources.");
+});
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { emailBodyToText, getEmailTextRules, htmlToText, type EmailTextRules } from "../data/emailText";
+
+const rules = getEmailTextRules();
+const keepEverything: EmailTextRules = { ...rules, stripQuotes: false, stripSignatures: false };
+
+test("keeps headings, paragraphs and list items on their own lines", () => {
+  const text = htmlToText("<h2>Invoice INV-2024-118</h2><p>Hi Sam,</p><ul><li>Item one</li><li>Item two</li></ul>");
+  assert.equal(text, "Invoice INV-2024-118\n\nHi Sam,\n\n* Item one\n* Item two");
+});
+
+test("renders data tables one row per line", () => {
+  const text = htmlToText(
+    "<table><tr><th>Item</th><th>Amount</th></tr><tr><td>Hosting</td><td>$120</td></tr></table>"
+  );
+  assert.equal(text, "Item | Amount\nHosting | $120");
+});
+
+test("drops link URLs, images, hidden preheaders and styles", () => {
+  const text = htmlToText(
+    '<style>p { color: red }</style><div style="display:none">Preview text</div>' +
+      '<p>Read <a href="https://tracking.example.com/abc">the report</a> <img src="x.png" alt="logo"></p>'
+  );
+  assert.equal(text, "Read the report");
+});
+
+test("strips quoted history and signatures", () => {
+  const html =
+    "<p>Sounds good, let's ship.</p>" +
+    '<div class="gmail_signature">Sam — Acme Inc.</div>' +
+    '<div class="gmail_quote">On Mon, Jun 3, 2024 Ana wrote:<blockquote>Ready?</blockquote></div>';
+
+  assert.equal(htmlToText(html, rules), "Sounds good, let's ship.");
+  assert.match(htmlToText(html, keepEverything), /Acme Inc\.[\s\S]*Ready\?/);
+});
+
+test("cuts plain text at reply and signature markers", () => {
+  const plain = [
+    "Thanks, the invoice is attached.",
+    "",
+    "--",
+    "Sam",
+    "",
+    "On Mon, 3 Jun 2024 at 10:02, Ana <ana@acme.com> wrote:",
+    "> Can you send the invoice?",
+  ].join("\n");
+
+  assert.equal(emailBodyToText({ plain, html: "" }, rules), "Thanks, the invoice is attached.");
+});
+
+test("keeps an email that is only a forwarded message", () => {
+  const plain = "On Mon, 3 Jun 2024 at 10:02, Ana <ana@acme.com> wrote:\nThe contract is signed.";
+  assert.equal(emailBodyToText({ plain, html: "" }, rules), plain);
+});
+
+test("prefers the plain text body and falls back to the HTML one", () => {
+  assert.equal(emailBodyToText({ plain: "Plain body", html: "<p>HTML body</p>" }, rules), "Plain body");
+  assert.equal(emailBodyToText({ plain: "  \n", html: "<p>HTML body</p>" }, rules), "HTML body");
+});
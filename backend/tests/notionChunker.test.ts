@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { chunkNotionPage } from "../data/notionChunker";
+import type { RenderedBlock } from "../data/notionMarkdown";
+
+function rendered(id: string, type: string, markdown: string, headings: string[] = []): RenderedBlock {
+  return { id, type, markdown, headings };
+}
+
+test("prefixes every chunk with the page title and heading breadcrumb", async () => {
+  const chunks = await chunkNotionPage(
+    "Handbook",
+    [
+      rendered("h1", "heading_1", "# Setup", ["Setup"]),
+      rendered("p1", "paragraph", "Install the CLI.", ["Setup"]),
+      rendered("h2", "heading_2", "## Database", ["Setup", "Database"]),
+      rendered("p2", "paragraph", "Run the migrations.", ["Setup", "Database"]),
+    ],
+    ""
+  );
+
+  assert.deepEqual(chunks, [
+    { content: "Handbook > Setup\n\nInstall the CLI.", section: "Setup", blockId: "h1" },
+    {
+      content: "Handbook > Setup > Database\n\nRun the migrations.",
+      section: "Setup > Database",
+      blockId: "h2",
+    },
+  ]);
+});
+
+test("packs small blocks of a section into one chunk", async () => {
+  const chunks = await chunkNotionPage(
+    "Notes",
+    [
+      rendered("p1", "paragraph", "First paragraph."),
+      rendered("p2", "paragraph", "Second paragraph."),
+      rendered("l1", "bulleted_list_item", "- one"),
+      rendered("l2", "bulleted_list_item", "- two"),
+    ],
+    ""
+  );
+
+  assert.equal(chunks.length, 1);
+  assert.equal(chunks[0]!.content, "Notes\n\nFirst paragraph.\n\nSecond paragraph.\n\n- one\n- two");
+  assert.equal(chunks[0]!.blockId, "p1");
+});
+
+test("keeps chunks under the size limit and links each to its first block", async () => {
+  const paragraph = (index: number) => rendered(`p${index}`, "paragraph", `Paragraph ${index} `.repeat(30).trim());
+  const chunks = await chunkNotionPage("Long page", Array.from({ length: 6 }, (_, index) => paragraph(index)), "");
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    assert.ok(chunk.content.length <= 1000, `chunk of ${chunk.content.length} characters`);
+    assert.ok(chunk.content.startsWith("Long page\n\n"));
+  }
+  // Whole blocks are packed, so each chunk starts with the block it links to
+  for (const chunk of chunks) {
+    const index = Number(chunk.blockId!.slice(1));
+    assert.ok(chunk.content.startsWith(`Long page\n\nParagraph ${index} `));
+  }
+});
+
+test("splits a list that does not fit between its items", async () => {
+  const items = Array.from({ length: 40 }, (_, index) =>
+    rendered(`i${index}`, "bulleted_list_item", `- item ${index} ${"detail ".repeat(5)}`.trim())
+  );
+  const chunks = await chunkNotionPage("Checklist", items, "");
+
+  assert.ok(chunks.length > 1);
+  for (const chunk of chunks) {
+    const body = chunk.content.slice("Checklist\n\n".length);
+    assert.ok(body.split("\n").every((line) => line.startsWith("- item ")));
+  }
+});
+
+test("starts database rows with a chunk of their properties", async () => {
+  const chunks = await chunkNotionPage(
+    "Acme deal",
+    [rendered("p1", "paragraph", "Call notes.")],
+    "Status: Won\nOwner: Sam"
+  );
+
+  assert.equal(chunks[0]!.content, "Acme deal\n\nStatus: Won\nOwner: Sam");
+  assert.equal(chunks[0]!.blockId, null);
+  assert.equal(chunks.length, 2);
+});
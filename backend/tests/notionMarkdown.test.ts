@@ -0,0 +1,117 @@
+import { afterEach, test, mock } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import { renderPageBlocks } from "../data/notionMarkdown";
+
+function text(content: string, annotations: Record<string, boolean> = {}, href: string | null = null) {
+  return { type: "text", plain_text: content, annotations, href };
+}
+
+function block(id: string, type: string, content: Record<string, unknown> = {}, hasChildren = false) {
+  return { id, type, has_children: hasChildren, [type]: content };
+}
+
+/**
+ * Serves block children from `tree` (keyed by parent id) in place of the Notion API
+ */
+function mockNotionBlocks(tree: Record<string, any[]>): void {
+  mock.method(axios, "get", async (url: string) => {
+    const parentId = url.match(/blocks\/([^/]+)\/children/)?.[1] ?? "";
+    return { data: { results: tree[parentId] ?? [], has_more: false, next_cursor: null } };
+  });
+}
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test("renders rich text annotations and links as Markdown", async () => {
+  mockNotionBlocks({
+    page: [
+      block("p1", "paragraph", {
+        rich_text: [
+          text("Run "),
+          text("npm test", { code: true }),
+          text(" before "),
+          text("merging", { bold: true }),
+          text(" — see "),
+          text("the guide", {}, "https://example.com/guide"),
+        ],
+      }),
+    ],
+  });
+
+  const blocks = await renderPageBlocks("page", "token");
+  assert.equal(blocks.length, 1);
+  assert.equal(blocks[0]!.markdown, "Run `npm test` before **merging** — see [the guide](https://example.com/guide)");
+});
+
+test("tracks the heading hierarchy of each block", async () => {
+  mockNotionBlocks({
+    page: [
+      block("h1", "heading_1", { rich_text: [text("Setup")] }),
+      block("p1", "paragraph", { rich_text: [text("Intro")] }),
+      block("h2", "heading_2", { rich_text: [text("Database")] }),
+      block("p2", "paragraph", { rich_text: [text("Run migrations")] }),
+      block("h3", "heading_1", { rich_text: [text("Usage")] }),
+      block("p3", "paragraph", { rich_text: [text("Start the server")] }),
+    ],
+  });
+
+  const blocks = await renderPageBlocks("page", "token");
+  assert.deepEqual(
+    blocks.map((rendered) => [rendered.markdown, rendered.headings]),
+    [
+      ["# Setup", ["Setup"]],
+      ["Intro", ["Setup"]],
+      ["## Database", ["Setup", "Database"]],
+      ["Run migrations", ["Setup", "Database"]],
+      ["# Usage", ["Usage"]],
+      ["Start the server", ["Usage"]],
+    ]
+  );
+});
+
+test("numbers list items and nests their children", async () => {
+  mockNotionBlocks({
+    page: [
+      block("n1", "numbered_list_item", { rich_text: [text("First")] }),
+      block("n2", "numbered_list_item", { rich_text: [text("Second")] }, true),
+      block("t1", "to_do", { rich_text: [text("Ship it")], checked: true }),
+    ],
+    n2: [block("b1", "bulleted_list_item", { rich_text: [text("Detail")] })],
+  });
+
+  const blocks = await renderPageBlocks("page", "token");
+  assert.deepEqual(
+    blocks.map((rendered) => rendered.markdown),
+    ["1. First", "2. Second\n  - Detail", "- [x] Ship it"]
+  );
+});
+
+test("renders tables with a header row and escaped cells", async () => {
+  const row = (id: string, cells: string[]) =>
+    block(id, "table_row", { cells: cells.map((cell) => [text(cell)]) });
+  mockNotionBlocks({
+    page: [block("table", "table", { table_width: 2 }, true)],
+    table: [row("r1", ["Plan", "Price"]), row("r2", ["Pro | Team", "$20"])],
+  });
+
+  const blocks = await renderPageBlocks("page", "token");
+  assert.equal(blocks[0]!.markdown, "| Plan | Price |\n| --- | --- |\n| Pro \\| Team | $20 |");
+});
+
+test("reads column layouts column by column", async () => {
+  mockNotionBlocks({
+    page: [block("cols", "column_list", {}, true)],
+    cols: [block("c1", "column", {}, true), block("c2", "column", {}, true)],
+    c1: [block("p1", "paragraph", { rich_text: [text("Left")] })],
+    c2: [block("p2", "paragraph", { rich_text: [text("Right")] })],
+  });
+
+  const blocks = await renderPageBlocks("page", "token");
+  assert.deepEqual(
+    blocks.map((rendered) => rendered.markdown),
+    ["Left", "Right"]
+  );
+});
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import axios from "axios";
+import { AppDataSource } from "../data-source";
+import { OAuthAccount } from "../entities/OAuthAccount";
+import { NotionSyncLog } from "../entities/NotionSyncLog";
+import { ingestAllNotionPages } from "../data/notionPipeline";
+import { getVectorStore } from "../vectorstore";
+
+const USER_ID = "user-1";
+const PAGE_ID = "page-1";
+
+// In-memory stand-ins for the account and sync log tables
+const syncLogs: NotionSyncLog[] = [];
+
+Object.assign(AppDataSource.getRepository(OAuthAccount), {
+  findOne: async () => ({ userId: USER_ID, provider: "notion", accessToken: "token", tokenExpiresAt: null }),
+});
+Object.assign(AppDataSource.getRepository(NotionSyncLog), {
+  find: async () => syncLogs,
+  findOne: async ({ where }: { where: { pageId: string } }) =>
+    syncLogs.find((log) => log.pageId === where.pageId) ?? null,
+  create: (fields: Partial<NotionSyncLog>) => Object.assign(new NotionSyncLog(), fields),
+  save: async (log: NotionSyncLog) => {
+    if (!syncLogs.includes(log)) syncLogs.push(log);
+    return log;
+  },
+});
+
+const page = {
+  id: PAGE_ID,
+  object: "page",
+  url: "https://www.notion.so/page-1",
+  last_edited_time: "2024-06-03T10:00:00.000Z",
+  parent: { type: "workspace", workspace: true },
+  properties: { title: { type: "title", title: [{ plain_text: "Release checklist" }] } },
+};
+
+/**
+ * Serves the page and its current blocks in place of the Notion API
+ */
+function mockNotionPage(paragraphs: string[]): void {
+  mock.method(axios, "get", async (url: string) => {
+    if (url.endsWith(`/pages/${PAGE_ID}`)) {
+      return { data: page };
+    }
+    const results = paragraphs.map((content, index) => ({
+      id: `block-${index}`,
+      type: "paragraph",
+      has_children: false,
+      paragraph: { rich_text: [{ type: "text", plain_text: content, annotations: {}, href: null }] },
+    }));
+    return { data: { results, has_more: false, next_cursor: null } };
+  });
+}
+
+async function indexedChunks(): Promise<string[]> {
+  const results = await getVectorStore("Notion").keywordSearch("release", {
+    filter: { user_id: USER_ID, page_id: PAGE_ID },
+    topK: 10,
+    fields: ["content", "page_title"],
+  });
+  return results.map((result) => String(result.metadata.content));
+}
+
+beforeEach(async () => {
+  syncLogs.length = 0;
+  await getVectorStore("Notion").deleteByFilter({ user_id: USER_ID });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+test("indexes a changed page reported by a webhook", async () => {
+  mockNotionPage(["Tag the release before deploying."]);
+  await ingestAllNotionPages(USER_ID, { targets: [`page:${PAGE_ID}`] });
+
+  assert.deepEqual(await indexedChunks(), ["Release checklist\n\nTag the release before deploying."]);
+  assert.equal(syncLogs[0]?.chunkCount, 1);
+});
+
+test("removes the indexed chunks of a page whose content was cleared", async () => {
+  mockNotionPage(["Tag the release before deploying."]);
+  await ingestAllNotionPages(USER_ID, { targets: [`page:${PAGE_ID}`] });
+  mock.restoreAll();
+
+  mockNotionPage([]);
+  await ingestAllNotionPages(USER_ID, { targets: [`page:${PAGE_ID}`] });
+
+  assert.deepEqual(await indexedChunks(), []);
+  assert.equal(syncLogs[0]?.chunkCount, 0);
+});
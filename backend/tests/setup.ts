@@ -0,0 +1,7 @@
+// Loaded before every test file: modules that import the data source need a
+// database URL (no connection is made), and the model and vector backends are
+// the offline ones
+process.env.DATABASE_URL ||= "postgres://localhost/velyx_test";
+process.env.VECTOR_STORE = "memory";
+process.env.EMBEDDING_PROVIDER = "hash";
+process.env.CHAT_PROVIDER = "scripted";
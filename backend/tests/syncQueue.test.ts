@@ -0,0 +1,175 @@
+import { beforeEach, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Server as SocketServer } from "socket.io";
+import { AppDataSource } from "../data-source";
+import { SyncJob } from "../entities/SyncJob";
+import {
+  enqueueSyncJob,
+  failSyncJob,
+  mergeTargets,
+  refreshSyncJobLease,
+  setSyncSocketServer,
+} from "../jobs/syncQueue";
+
+// In-memory stand-in for the jobs table (the repository instance is shared with the queue)
+const jobs: SyncJob[] = [];
+let writes = 0;
+const updates: Array<{ criteria: Partial<SyncJob>; fields: Partial<SyncJob> }> = [];
+const emitted: Array<Record<string, unknown>> = [];
+// Runs right before the next insert, to stage a concurrent request
+let beforeInsert: (() => void) | null = null;
+
+function addJob(fields: Partial<SyncJob>, job: SyncJob = new SyncJob()): SyncJob {
+  Object.assign(job, { payload: {}, attempts: 0 }, fields);
+  job.id = `job-${jobs.length + 1}`;
+  job.createdAt = new Date();
+  jobs.push(job);
+  return job;
+}
+
+const matches = (job: SyncJob, where: Partial<SyncJob>) =>
+  Object.entries(where).every(([key, value]) => job[key as keyof SyncJob] === value);
+
+Object.assign(AppDataSource.getRepository(SyncJob), {
+  create: (fields: Partial<SyncJob>) => Object.assign(new SyncJob(), fields),
+  findOne: async ({ where }: { where: Partial<SyncJob> }) => jobs.find((job) => matches(job, where)) ?? null,
+  save: async (job: SyncJob) => {
+    writes++;
+    return job;
+  },
+  update: async (criteria: Partial<SyncJob>, fields: Partial<SyncJob>) => {
+    updates.push({ criteria, fields });
+    const found = jobs.filter((job) => matches(job, criteria));
+    found.forEach((job) => Object.assign(job, fields));
+    writes += found.length;
+    return { affected: found.length };
+  },
+  // INSERT ... ON CONFLICT DO NOTHING against the unique index on queued jobs
+  createQueryBuilder: () => {
+    let row: SyncJob;
+    const builder = {
+      insert: () => builder,
+      values: (values: SyncJob) => ((row = values), builder),
+      orIgnore: () => builder,
+      execute: async () => {
+        beforeInsert?.();
+        beforeInsert = null;
+        if (jobs.some((job) => job.status === "queued" && job.userId === row.userId && job.type === row.type)) {
+          return { raw: [] };
+        }
+        writes++;
+        addJob({ ...row }, row);
+        return { raw: [{ id: row.id }] };
+      },
+    };
+    return builder;
+  },
+});
+
+setSyncSocketServer({
+  to: () => ({ emit: (_event: string, job: Record<string, unknown>) => emitted.push(job) }),
+} as unknown as SocketServer);
+
+beforeEach(() => {
+  jobs.length = 0;
+  writes = 0;
+  updates.length = 0;
+  emitted.length = 0;
+});
+
+test("mergeTargets unions targets without duplicates", () => {
+  assert.deepEqual(mergeTargets(["page:1", "page:2"], ["page:2", "page:3"]), ["page:1", "page:2", "page:3"]);
+});
+
+test("mergeTargets widens to a full sync when either side is one", () => {
+  assert.equal(mergeTargets(undefined, ["page:1"]), undefined);
+  assert.equal(mergeTargets(["page:1"], undefined), undefined);
+});
+
+test("mergeTargets widens to a full sync past 500 targets", () => {
+  const pending = Array.from({ length: 400 }, (_, index) => `contact:${index}`);
+  const requested = Array.from({ length: 200 }, (_, index) => `deal:${index}`);
+  assert.equal(mergeTargets(pending, requested), undefined);
+});
+
+test("enqueueSyncJob reuses the queued job of the same user and type", async () => {
+  const first = await enqueueSyncJob("user-1", "notion", { targets: ["page:1"] });
+  const second = await enqueueSyncJob("user-1", "notion", { targets: ["page:2", "page:1"] });
+
+  assert.equal(second, first);
+  assert.equal(jobs.length, 1);
+  assert.deepEqual(first.payload, { targets: ["page:1", "page:2"] });
+});
+
+test("enqueueSyncJob does not save a queued job the request adds nothing to", async () => {
+  await enqueueSyncJob("user-1", "gmail");
+  await enqueueSyncJob("user-1", "gmail");
+
+  assert.equal(jobs.length, 1);
+  assert.equal(writes, 1);
+});
+
+test("enqueueSyncJob widens a queued job to a full or forced sync", async () => {
+  const job = await enqueueSyncJob("user-1", "hubspot", { targets: ["deal:1"] });
+  await enqueueSyncJob("user-1", "hubspot", { forceSync: true });
+
+  assert.equal(jobs.length, 1);
+  assert.deepEqual(job.payload, { forceSync: true });
+});
+
+test("enqueueSyncJob queues separate jobs per user and type", async () => {
+  await enqueueSyncJob("user-1", "gmail");
+  await enqueueSyncJob("user-1", "notion");
+  await enqueueSyncJob("user-2", "gmail");
+
+  assert.equal(jobs.length, 3);
+});
+
+test("enqueueSyncJob queues a running job's type again", async () => {
+  const running = await enqueueSyncJob("user-1", "gmail");
+  running.status = "running";
+
+  const next = await enqueueSyncJob("user-1", "gmail");
+  assert.notEqual(next, running);
+  assert.equal(next.status, "queued");
+});
+
+test("refreshSyncJobLease only refreshes a job that is still running", async () => {
+  const job = await enqueueSyncJob("user-1", "gmail");
+  await refreshSyncJobLease(job);
+
+  assert.equal(updates.length, 1);
+  assert.deepEqual(updates[0]!.criteria, { id: job.id, status: "running" });
+  assert.ok(updates[0]!.fields.lockedAt instanceof Date);
+});
+
+test("enqueueSyncJob pushes the widened job to its owner", async () => {
+  const job = await enqueueSyncJob("user-1", "notion", { targets: ["page:1"] });
+  await enqueueSyncJob("user-1", "notion", { targets: ["page:2"] });
+
+  assert.equal(emitted.length, 2);
+  assert.equal(emitted[1]!.id, job.id);
+  assert.deepEqual(job.payload, { targets: ["page:1", "page:2"] });
+});
+
+test("enqueueSyncJob merges into a job queued by a concurrent request", async () => {
+  beforeInsert = () => addJob({ userId: "user-1", type: "notion", status: "queued", payload: { targets: ["page:1"] } });
+
+  const job = await enqueueSyncJob("user-1", "notion", { targets: ["page:2"] });
+
+  assert.equal(jobs.length, 1);
+  assert.equal(job, jobs[0]);
+  assert.deepEqual(job.payload, { targets: ["page:1", "page:2"] });
+});
+
+test("failSyncJob merges a retry into the account's queued job", async () => {
+  const running = addJob({ userId: "user-1", type: "hubspot", status: "running", payload: { targets: ["deal:1"] } });
+  Object.assign(running, { attempts: 1, maxAttempts: 5 });
+  const queued = await enqueueSyncJob("user-1", "hubspot", { targets: ["deal:2"] });
+
+  await failSyncJob(running, new Error("HubSpot API error"));
+
+  assert.equal(running.status, "failed");
+  assert.equal(queued.status, "queued");
+  assert.deepEqual(queued.payload, { targets: ["deal:2", "deal:1"] });
+});
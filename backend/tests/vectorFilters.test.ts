@@ -0,0 +1,80 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { HashEmbeddings } from "../llm";
+import { MemoryVectorStore, matchesFilter } from "../vectorstore/memoryStore";
+import { filterToSql } from "../vectorstore/pgvectorStore";
+import type { VectorRecord } from "../vectorstore";
+
+function record(id: string, metadata: VectorRecord["metadata"], embedding: number[] = [1]): VectorRecord {
+  return { id, embedding, metadata };
+}
+
+const email = record("1", {
+  user_id: "user-1",
+  sender_address: "billing@acme.com",
+  labels: ["INBOX", "IMPORTANT"],
+  received_at: 1_700_000_000_000,
+});
+
+test("$contains matches substrings of string fields", () => {
+  assert.equal(matchesFilter(email, { sender_address: { $contains: "acme" } }), true);
+  assert.equal(matchesFilter(email, { sender_address: { $contains: "globex" } }), false);
+  // Arrays and missing fields never contain a substring
+  assert.equal(matchesFilter(email, { labels: { $contains: "INBOX" } }), false);
+  assert.equal(matchesFilter(email, { subject: { $contains: "" } }), false);
+});
+
+test("$has matches elements of array fields", () => {
+  assert.equal(matchesFilter(email, { labels: { $has: "IMPORTANT" } }), true);
+  assert.equal(matchesFilter(email, { labels: { $has: "SPAM" } }), false);
+  assert.equal(matchesFilter(email, { sender_address: { $has: "billing@acme.com" } }), false);
+});
+
+test("conditions on several fields must all match", () => {
+  assert.equal(
+    matchesFilter(email, { user_id: "user-1", labels: { $has: "INBOX" }, received_at: { $gte: 1_600_000_000_000 } }),
+    true
+  );
+  assert.equal(matchesFilter(email, { user_id: "user-2", labels: { $has: "INBOX" } }), false);
+});
+
+test("filterToSql escapes LIKE wildcards in $contains", () => {
+  const params: unknown[] = [];
+  const sql = filterToSql({ subject: { $contains: "50%_off\\" } }, params);
+
+  assert.equal(sql, `"metadata"->>$1::text LIKE $2`);
+  assert.deepEqual(params, ["subject", "%50\\%\\_off\\\\%"]);
+});
+
+test("filterToSql matches $has with jsonb containment of a one-element array", () => {
+  const params: unknown[] = ["existing"];
+  const sql = filterToSql({ user_id: "user-1", labels: { $has: "INBOX" } }, params);
+
+  assert.equal(sql, `"metadata" @> $2::jsonb AND "metadata" @> $3::jsonb`);
+  assert.deepEqual(params, ["existing", '{"user_id":"user-1"}', '{"labels":["INBOX"]}']);
+});
+
+test("filterToSql is TRUE without conditions", () => {
+  assert.equal(filterToSql({}, []), "TRUE");
+});
+
+test("the memory store applies $contains and $has filters to searches", async () => {
+  const embeddings = new HashEmbeddings(64);
+  const store = new MemoryVectorStore("vector-filters-test");
+  const texts = ["invoice from acme", "invoice from globex", "team offsite plans"];
+  const vectors = await embeddings.embedDocuments(texts);
+  await store.upsert([
+    record("acme", { sender_address: "billing@acme.com", labels: ["INBOX"], content: texts[0]! }, vectors[0]),
+    record("globex", { sender_address: "ap@globex.com", labels: ["INBOX"], content: texts[1]! }, vectors[1]),
+    record("offsite", { sender_address: "hr@acme.com", labels: ["SENT"], content: texts[2]! }, vectors[2]),
+  ]);
+
+  const results = await store.search(await embeddings.embedQuery("invoice"), {
+    topK: 10,
+    filter: { sender_address: { $contains: "acme.com" }, labels: { $has: "INBOX" } },
+  });
+  assert.deepEqual(
+    results.map((result) => result.id),
+    ["acme"]
+  );
+});
@@ -0,0 +1,44 @@
+import { afterEach, test } from "node:test";
+import assert from "node:assert/strict";
+import type { NextFunction, Request, Response } from "express";
+import { verifyNotionWebhook } from "../middlewares/webhookAuth";
+import { signNotionPayload } from "../utils/webhookSignatures";
+
+/**
+ * Runs the middleware on a JSON request and resolves with what it passed to next()
+ */
+function runNotionMiddleware(body: object, signature?: string): Promise<unknown> {
+  const rawBody = Buffer.from(JSON.stringify(body));
+  const req = {
+    body,
+    rawBody,
+    get: (name: string) => (name.toLowerCase() === "x-notion-signature" ? signature : undefined),
+  } as unknown as Request;
+
+  return new Promise((resolve) => {
+    verifyNotionWebhook(req, {} as Response, ((error?: unknown) => resolve(error)) as NextFunction);
+  });
+}
+
+const verification = { verification_token: "secret_abc" };
+
+afterEach(() => {
+  delete process.env.NOTION_WEBHOOK_SECRET;
+});
+
+test("lets the unsigned verification request through while no secret is set", async () => {
+  assert.equal(await runNotionMiddleware(verification), undefined);
+});
+
+test("rejects unsigned verification requests once the secret is set", async () => {
+  process.env.NOTION_WEBHOOK_SECRET = "secret_abc";
+  const error: any = await runNotionMiddleware(verification);
+  assert.equal(error?.statusCode, 401);
+});
+
+test("accepts events signed with the secret", async () => {
+  process.env.NOTION_WEBHOOK_SECRET = "secret_abc";
+  const event = { workspace_id: "ws", entity: { id: "page-1", type: "page" } };
+  const signature = signNotionPayload(JSON.stringify(event), "secret_abc");
+  assert.equal(await runNotionMiddleware(event, signature), undefined);
+});
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  signHubspotPayload,
+  signNotionPayload,
+  verifyHubspotSignature,
+  verifyNotionSignature,
+  verifyPushToken,
+} from "../utils/webhookSignatures";
+
+const body = Buffer.from(JSON.stringify({ type: "page.content_updated", entity: { id: "abc" } }));
+
+test("Notion signatures verify against the raw body", () => {
+  const signature = signNotionPayload(body, "secret_123");
+  assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+  assert.equal(verifyNotionSignature(body, signature, "secret_123"), true);
+});
+
+test("Notion signatures are rejected when missing, tampered or keyed differently", () => {
+  const signature = signNotionPayload(body, "secret_123");
+  assert.equal(verifyNotionSignature(body, undefined, "secret_123"), false);
+  assert.equal(verifyNotionSignature(body, signature, "other_secret"), false);
+  assert.equal(verifyNotionSignature(Buffer.concat([body, Buffer.from(" ")]), signature, "secret_123"), false);
+  assert.equal(verifyNotionSignature(body, signature.slice(0, -1), "secret_123"), false);
+});
+
+function hubspotRequest(overrides: { url?: string; timestamp?: string } = {}) {
+  return {
+    method: "POST",
+    url: overrides.url ?? "https://api.example.com/api/oauth/hubspot/webhook",
+    rawBody: body,
+    timestamp: overrides.timestamp ?? String(Date.now()),
+  };
+}
+
+test("HubSpot v3 signatures verify for recent requests", () => {
+  const request = hubspotRequest();
+  const signature = signHubspotPayload(request, "client_secret");
+  assert.equal(verifyHubspotSignature(request, signature, "client_secret"), true);
+  assert.equal(verifyHubspotSignature(request, signature, "other_secret"), false);
+  assert.equal(verifyHubspotSignature(request, undefined, "client_secret"), false);
+});
+
+test("HubSpot signatures are rejected after five minutes or without a timestamp", () => {
+  const request = hubspotRequest({ timestamp: String(Date.now() - 6 * 60 * 1000) });
+  const signature = signHubspotPayload(request, "client_secret");
+  assert.equal(verifyHubspotSignature(request, signature, "client_secret"), false);
+  assert.equal(
+    verifyHubspotSignature({ ...request, timestamp: undefined }, signature, "client_secret"),
+    false
+  );
+});
+
+test("HubSpot signatures are computed over the URL with reserved characters decoded", () => {
+  const timestamp = String(Date.now());
+  const signed = signHubspotPayload(
+    hubspotRequest({ url: "https://api.example.com/webhook?portal=1&at=a:b", timestamp }),
+    "client_secret"
+  );
+  const received = hubspotRequest({ url: "https://api.example.com/webhook?portal=1&at=a%3Ab", timestamp });
+  assert.equal(verifyHubspotSignature(received, signed, "client_secret"), true);
+});
+
+test("push tokens must match exactly", () => {
+  assert.equal(verifyPushToken("token-1", "token-1"), true);
+  assert.equal(verifyPushToken("token-2", "token-1"), false);
+  assert.equal(verifyPushToken(["token-1"], "token-1"), false);
+  assert.equal(verifyPushToken(undefined, "token-1"), false);
+});
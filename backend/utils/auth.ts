@@ -15,6 +15,23 @@ function base64UrlEncodeJson(obj: unknown): string {
   return base64UrlEncode(JSON.stringify(obj));
 }
 
+function base64UrlDecode(input: string): Buffer {
+  let base64 = input.replace(/-/g, "+").replace(/_/g, "/");
+  // Add padding if needed
+  while (base64.length % 4) {
+    base64 += "=";
+  }
+  return Buffer.from(base64, "base64");
+}
+
+function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET environment variable is not set");
+  }
+  return secret;
+}
+
 export function hashPassword(password: string): string {
   const salt = crypto.randomBytes(16);
   const derivedKey = crypto.scryptSync(password, salt, 64);
@@ -38,10 +55,7 @@ export function signAuthToken(
   payload: { sub: string; email: string | null; name: string | null },
   opts?: { expiresInSeconds?: number }
 ): string {
-  const secret = process.env.JWT_SECRET;
-  if (!secret) {
-    throw new Error("JWT_SECRET environment variable is not set");
-  }
+  const secret = getJwtSecret();
 
   const iat = Math.floor(Date.now() / 1000);
   const exp = iat + (opts?.expiresInSeconds ?? DEFAULT_TOKEN_TTL_SECONDS);
@@ -61,4 +75,43 @@ export function signAuthToken(
   return `${signingInput}.${base64UrlEncode(signature)}`;
 }
 
+export interface OAuthStatePayload {
+  sub: string; // initiating user id
+  provider: string;
+  nonce: string;
+  exp: number;
+}
+
+// format: <base64url(payload)>.<base64url(hmac-sha256(payload))>
+export function signOAuthState(payload: OAuthStatePayload): string {
+  const encodedPayload = base64UrlEncodeJson(payload);
+  const signature = crypto
+    .createHmac("sha256", getJwtSecret())
+    .update(`oauth-state.${encodedPayload}`)
+    .digest();
+
+  return `${encodedPayload}.${base64UrlEncode(signature)}`;
+}
+
+// Returns the payload if the signature matches, otherwise null (expiry is checked by the caller)
+export function verifyOAuthStateSignature(state: string): OAuthStatePayload | null {
+  const parts = state.split(".");
+  if (parts.length !== 2) return null;
+  const [encodedPayload, encodedSignature] = parts;
 
+  const expected = crypto
+    .createHmac("sha256", getJwtSecret())
+    .update(`oauth-state.${encodedPayload}`)
+    .digest();
+  const actual = base64UrlDecode(encodedSignature!);
+
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(base64UrlDecode(encodedPayload!).toString("utf8")) as OAuthStatePayload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,211 @@
+import type { AgentResponse } from "../agents/langgraphAgent";
+import { AppDataSource } from "../data-source";
+import { AgentCheckpoint } from "../entities/AgentCheckpoint";
+import { Chat } from "../entities/Chat";
+import { ChatMessage } from "../entities/ChatMessage";
+import { AppError } from "../middlewares/errorHandler";
+
+const chatRepository = AppDataSource.getRepository(Chat);
+const messageRepository = AppDataSource.getRepository(ChatMessage);
+const checkpointRepository = AppDataSource.getRepository(AgentCheckpoint);
+
+// A message of the displayed branch, with the ids of its alternative versions
+// (siblings sharing its parent, oldest first, including itself)
+export type BranchMessage = ChatMessage & { siblingIds: string[] };
+
+// The user message an agent turn answers, and where it sits in the tree
+export interface BranchTurn {
+  content: string;
+  // Message before the user message (null when it is the first message)
+  parentMessageId: string | null;
+  // Existing user message when regenerating; a new one is saved otherwise
+  userMessageId: string | null;
+}
+
+async function getChatMessages(chatId: string): Promise<ChatMessage[]> {
+  return messageRepository.find({
+    where: { chatId },
+    order: { createdAt: "ASC" },
+  });
+}
+
+/**
+ * Messages from the first message down to `leafId`, oldest first
+ */
+function walkBranch(messages: ChatMessage[], leafId: string | null): ChatMessage[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branch: ChatMessage[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current) {
+    branch.unshift(current);
+    current = current.parentMessageId ? byId.get(current.parentMessageId) : undefined;
+  }
+  return branch;
+}
+
+/**
+ * Newest leaf below a message: follows the most recent reply at every level
+ */
+function findLatestLeaf(messages: ChatMessage[], messageId: string): string {
+  let leafId = messageId;
+  for (;;) {
+    const replies = messages.filter((message) => message.parentMessageId === leafId);
+    const latest = replies[replies.length - 1];
+    if (!latest) return leafId;
+    leafId = latest.id;
+  }
+}
+
+/**
+ * Links the messages of a chat created before branching into one linear
+ * branch. The newest agent checkpoint belongs to the last assistant message.
+ */
+export async function linkLegacyMessages(chat: Chat): Promise<void> {
+  if (chat.activeMessageId) return;
+
+  const messages = await getChatMessages(chat.id);
+  const last = messages[messages.length - 1];
+  if (!last) return;
+
+  if (messages.every((message) => !message.parentMessageId)) {
+    messages.forEach((message, index) => {
+      message.parentMessageId = messages[index - 1]?.id ?? null;
+    });
+
+    if (last.role === "assistant") {
+      const latestCheckpoint = await checkpointRepository.findOne({
+        where: { chatId: chat.id, checkpointNs: "" },
+        order: { checkpointId: "DESC" },
+        select: ["checkpointId"],
+      });
+      last.checkpointId = latestCheckpoint?.checkpointId ?? null;
+    }
+
+    await messageRepository.save(messages);
+  }
+
+  chat.activeMessageId = findLatestLeaf(messages, messages[0]!.id);
+  await chatRepository.update(chat.id, { activeMessageId: chat.activeMessageId });
+}
+
+/**
+ * The branch currently shown in a chat, with sibling ids for version navigation
+ */
+export async function getActiveBranch(chat: Chat): Promise<BranchMessage[]> {
+  await linkLegacyMessages(chat);
+
+  const messages = await getChatMessages(chat.id);
+  return walkBranch(messages, chat.activeMessageId).map((message) => ({
+    ...message,
+    siblingIds: messages
+      .filter((other) => other.parentMessageId === message.parentMessageId)
+      .map((other) => other.id),
+  }));
+}
+
+/**
+ * Messages of the branch ending at `leafId`, oldest first (the agent's history)
+ */
+export async function getBranchMessages(chatId: string, leafId: string | null): Promise<ChatMessage[]> {
+  if (!leafId) return [];
+  return walkBranch(await getChatMessages(chatId), leafId);
+}
+
+/**
+ * Shows the branch through `messageId`, continuing with its newest replies
+ */
+export async function switchActiveBranch(chat: Chat, messageId: string): Promise<void> {
+  const messages = await getChatMessages(chat.id);
+  if (!messages.some((message) => message.id === messageId)) {
+    throw new AppError("Message not found", 404);
+  }
+
+  chat.activeMessageId = findLatestLeaf(messages, messageId);
+  await chatRepository.update(chat.id, { activeMessageId: chat.activeMessageId });
+}
+
+/**
+ * Saves a message and makes it the end of the active branch
+ */
+export async function saveChatMessage(
+  chatId: string,
+  fields: Partial<Pick<ChatMessage, "id" | "citations" | "toolSteps" | "cancelled" | "checkpointId">> &
+    Pick<ChatMessage, "content" | "role" | "parentMessageId">
+): Promise<ChatMessage> {
+  const message = await messageRepository.save(messageRepository.create({ chatId, ...fields }));
+  await chatRepository.update(chatId, { activeMessageId: message.id, updatedAt: new Date() });
+  return message;
+}
+
+/**
+ * Stores an answered turn: the user message (unless it already exists) and the
+ * reply below it. Returns the reply.
+ */
+export async function saveTurn(
+  chatId: string,
+  turn: BranchTurn,
+  reply: Pick<AgentResponse, "content" | "citations" | "toolSteps" | "cancelled" | "checkpointId">,
+  ids: { userMessageId?: string; messageId?: string } = {}
+): Promise<ChatMessage> {
+  let userMessageId = turn.userMessageId;
+  if (!userMessageId) {
+    const userMessage = await saveChatMessage(chatId, {
+      ...(ids.userMessageId && { id: ids.userMessageId }),
+      content: turn.content,
+      role: "user",
+      parentMessageId: turn.parentMessageId,
+    });
+    userMessageId = userMessage.id;
+  }
+
+  return saveChatMessage(chatId, {
+    ...(ids.messageId && { id: ids.messageId }),
+    content: reply.content,
+    role: "assistant",
+    parentMessageId: userMessageId,
+    citations: reply.citations.length > 0 ? reply.citations : null,
+    toolSteps: reply.toolSteps.length > 0 ? reply.toolSteps : null,
+    cancelled: reply.cancelled,
+    checkpointId: reply.checkpointId,
+  });
+}
+
+/**
+ * Turn that answers an assistant message's question again, as a sibling of that message
+ */
+export async function prepareRegenerateTurn(chatId: string, messageId: string): Promise<BranchTurn> {
+  const reply = await messageRepository.findOne({ where: { id: messageId, chatId } });
+  if (!reply || reply.role !== "assistant") {
+    throw new AppError("Assistant message not found", 404);
+  }
+
+  const question = reply.parentMessageId
+    ? await messageRepository.findOne({ where: { id: reply.parentMessageId, chatId } })
+    : null;
+  if (!question || question.role !== "user") {
+    throw new AppError("This message has no question to answer again", 400);
+  }
+
+  return {
+    content: question.content,
+    parentMessageId: question.parentMessageId,
+    userMessageId: question.id,
+  };
+}
+
+/**
+ * Turn that sends an edited version of a user message, as a sibling of that message
+ */
+export async function prepareEditTurn(chatId: string, messageId: string, content: string): Promise<BranchTurn> {
+  const original = await messageRepository.findOne({ where: { id: messageId, chatId } });
+  if (!original || original.role !== "user") {
+    throw new AppError("User message not found", 404);
+  }
+
+  return {
+    content,
+    parentMessageId: original.parentMessageId,
+    userMessageId: null,
+  };
+}
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import type { ValueTransformer } from "typeorm";
+
+// Envelope encryption for secrets stored at rest (OAuth access/refresh tokens).
+// Each value gets its own random data key (DEK); the DEK is wrapped with a
+// key-encryption key (KEK) from env. Both layers use AES-256-GCM.
+//
+// Stored format: enc:v1:<keyId>:<wrappedDek>:<ciphertext>
+//   wrappedDek = base64url(iv | authTag | encryptedDek)
+//   ciphertext = base64url(iv | authTag | encryptedValue)
+//
+// Keys: TOKEN_ENCRYPTION_KEYS="k2:<base64 32 bytes>,k1:<base64 32 bytes>"
+// New values use TOKEN_ENCRYPTION_KEY_ID (defaults to the first key); older
+// key ids stay readable until rows are re-encrypted (npm run encrypt-tokens).
+
+const PREFIX = "enc:v1:";
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+interface KeyRing {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let keyRing: KeyRing | null = null;
+
+function getKeyRing(): KeyRing {
+  if (keyRing) {
+    return keyRing;
+  }
+
+  const rawKeys = process.env.TOKEN_ENCRYPTION_KEYS;
+  if (!rawKeys) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS environment variable is not set");
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of rawKeys.split(",").map((e) => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const keyId = entry.substring(0, separator);
+    const key = Buffer.from(entry.substring(separator + 1), "base64");
+
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(keyId)) {
+      throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry: expected <keyId>:<base64 key>`);
+    }
+    if (key.length !== 32) {
+      throw new Error(`Encryption key "${keyId}" must be 32 bytes (base64 encoded)`);
+    }
+    keys.set(keyId, key);
+  }
+
+  const currentKeyId = process.env.TOKEN_ENCRYPTION_KEY_ID || keys.keys().next().value;
+  if (!currentKeyId || !keys.has(currentKeyId)) {
+    throw new Error("TOKEN_ENCRYPTION_KEY_ID does not match any key in TOKEN_ENCRYPTION_KEYS");
+  }
+
+  keyRing = { currentKeyId, keys };
+  return keyRing;
+}
+
+function aesGcmEncrypt(key: Buffer, plaintext: Buffer): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+}
+
+function aesGcmDecrypt(key: Buffer, payload: Buffer): Buffer {
+  const iv = payload.subarray(0, IV_LENGTH);
+  const authTag = payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+  const encrypted = payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+/**
+ * Returns the key id a stored value was encrypted with (null for legacy plaintext)
+ */
+export function getSecretKeyId(value: string): string | null {
+  if (!isEncryptedSecret(value)) return null;
+  return value.substring(PREFIX.length).split(":")[0] || null;
+}
+
+/**
+ * True when a stored value is plaintext or encrypted with a non-current key
+ */
+export function needsReencryption(value: string | null): boolean {
+  if (value === null) return false;
+  return getSecretKeyId(value) !== getKeyRing().currentKeyId;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const { currentKeyId, keys } = getKeyRing();
+  const kek = keys.get(currentKeyId)!;
+
+  const dataKey = crypto.randomBytes(32);
+  const wrappedDataKey = aesGcmEncrypt(kek, dataKey);
+  const ciphertext = aesGcmEncrypt(dataKey, Buffer.from(plaintext, "utf8"));
+
+  return `${PREFIX}${currentKeyId}:${wrappedDataKey.toString("base64url")}:${ciphertext.toString("base64url")}`;
+}
+
+export function decryptSecret(stored: string): string {
+  // Legacy rows written before encryption was enabled
+  if (!isEncryptedSecret(stored)) {
+    return stored;
+  }
+
+  const [keyId, wrappedDataKey, ciphertext] = stored.substring(PREFIX.length).split(":");
+  const kek = keyId ? getKeyRing().keys.get(keyId) : undefined;
+
+  if (!kek || !wrappedDataKey || !ciphertext) {
+    throw new Error(`Cannot decrypt secret: unknown key id "${keyId}"`);
+  }
+
+  const dataKey = aesGcmDecrypt(kek, Buffer.from(wrappedDataKey, "base64url"));
+  return aesGcmDecrypt(dataKey, Buffer.from(ciphertext, "base64url")).toString("utf8");
+}
+
+/**
+ * TypeORM column transformer: encrypts on write, decrypts on read
+ */
+export const encryptedColumnTransformer: ValueTransformer = {
+  to: (value: string | null | undefined) =>
+    value === null || value === undefined ? value : encryptSecret(value),
+  from: (value: string | null) => (value === null ? value : decryptSecret(value)),
+};
+
+// Fields of provider responses that hold credentials (HubSpot's access-token
+// info echoes the token as `token`)
+const TOKEN_FIELDS = new Set(["access_token", "refresh_token", "id_token", "token"]);
+
+/**
+ * Copy of a provider profile or token response without its credentials, for
+ * storing as plain JSON (`rawProfile`); tokens are only stored encrypted
+ */
+export function withoutTokens(profile: any): any {
+  if (Array.isArray(profile)) {
+    return profile.map(withoutTokens);
+  }
+  if (!profile || typeof profile !== "object") {
+    return profile;
+  }
+  return Object.fromEntries(
+    Object.entries(profile)
+      .filter(([key]) => !TOKEN_FIELDS.has(key))
+      .map(([key, value]) => [key, withoutTokens(value)])
+  );
+}
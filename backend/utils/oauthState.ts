@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import type { Request, Response } from "express";
+import { LessThan, MoreThan } from "typeorm";
+import { AppDataSource } from "../data-source";
+import { OAuthState } from "../entities/OAuthState";
+import { AppError } from "../middlewares/errorHandler";
+import { signOAuthState, verifyOAuthStateSignature } from "./auth";
+
+const OAUTH_STATE_TTL_SECONDS = 60 * 10; // 10 minutes
+
+const oauthStateRepository = AppDataSource.getRepository(OAuthState);
+
+// Holds the state nonce in the browser that initiated the flow, and is only sent to the provider's callback.
+// It is set by the response to a top-level navigation (the initiate form submission),
+// so browsers that block third-party cookies keep it.
+function getStateCookie(provider: string): { name: string; path: string } {
+  return { name: `oauth_state_${provider}`, path: `/api/oauth/${provider}` };
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || "").split(";")) {
+    const separator = pair.indexOf("=");
+    if (separator !== -1 && pair.slice(0, separator).trim() === name) {
+      return decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+function isSecureRequest(req: Request): boolean {
+  return req.secure || req.get("x-forwarded-proto") === "https";
+}
+
+/**
+ * Creates a signed, expiring, single-use OAuth `state` value tied to the
+ * initiating user, and binds it to the browser with an HttpOnly cookie holding
+ * its nonce (so a callback URL can't be completed in another browser)
+ */
+export async function createOAuthState(res: Response, userId: string, provider: string): Promise<string> {
+  const nonce = crypto.randomBytes(24).toString("hex");
+  const exp = Math.floor(Date.now() / 1000) + OAUTH_STATE_TTL_SECONDS;
+
+  // Housekeeping: drop states that were never used
+  await oauthStateRepository.delete({ expiresAt: LessThan(new Date()) });
+
+  await oauthStateRepository.save(
+    oauthStateRepository.create({
+      nonce,
+      userId,
+      provider,
+      expiresAt: new Date(exp * 1000),
+    })
+  );
+
+  const cookie = getStateCookie(provider);
+  res.cookie(cookie.name, nonce, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: isSecureRequest(res.req),
+    path: cookie.path,
+    maxAge: OAUTH_STATE_TTL_SECONDS * 1000,
+  });
+
+  return signOAuthState({ sub: userId, provider, nonce, exp });
+}
+
+/**
+ * Verifies and consumes the OAuth `state` value of a provider callback.
+ * Rejects missing, tampered, expired, replayed or cross-provider states, and
+ * states initiated in another browser.
+ * @returns The id of the user who initiated the flow
+ */
+export async function consumeOAuthState(req: Request, res: Response, provider: string): Promise<string> {
+  const { state } = req.query;
+  if (!state || typeof state !== "string") {
+    throw new AppError("State parameter missing", 400);
+  }
+
+  const payload = verifyOAuthStateSignature(state);
+  if (!payload || !payload.sub || !payload.nonce) {
+    throw new AppError("Invalid state parameter", 400);
+  }
+
+  if (payload.provider !== provider) {
+    throw new AppError("Invalid state parameter", 400);
+  }
+
+  if (!payload.exp || payload.exp < Math.floor(Date.now() / 1000)) {
+    throw new AppError("State parameter has expired", 400);
+  }
+
+  const cookie = getStateCookie(provider);
+  const cookieNonce = readCookie(req, cookie.name);
+  res.clearCookie(cookie.name, { path: cookie.path });
+  if (!cookieNonce || cookieNonce !== payload.nonce) {
+    throw new AppError("State parameter was not issued to this browser", 400);
+  }
+
+  // Deleting the nonce is the single-use check: only the first callback gets affected === 1
+  const result = await oauthStateRepository.delete({
+    nonce: payload.nonce,
+    userId: payload.sub,
+    provider,
+    expiresAt: MoreThan(new Date()),
+  });
+
+  if (!result.affected) {
+    throw new AppError("State parameter has already been used or is invalid", 400);
+  }
+
+  return payload.sub;
+}
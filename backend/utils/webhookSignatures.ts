@@ -0,0 +1,63 @@
+import crypto from "crypto";
+
+// HubSpot requests older than this are rejected (replay protection)
+const HUBSPOT_MAX_REQUEST_AGE_MS = 5 * 60 * 1000;
+
+function safeEqual(expected: string, actual: string): boolean {
+  const expectedBuf = Buffer.from(expected);
+  const actualBuf = Buffer.from(actual);
+  return expectedBuf.length === actualBuf.length && crypto.timingSafeEqual(expectedBuf, actualBuf);
+}
+
+/**
+ * Notion's X-Notion-Signature header: "sha256=" + hex HMAC-SHA256 of the raw
+ * body, keyed with the verification token of the webhook subscription
+ */
+export function signNotionPayload(rawBody: Buffer | string, secret: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+}
+
+export function verifyNotionSignature(rawBody: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  return safeEqual(signNotionPayload(rawBody, secret), signature);
+}
+
+/**
+ * HubSpot's X-HubSpot-Signature-v3 header: base64 HMAC-SHA256 of
+ * method + full request URL + raw body + X-HubSpot-Request-Timestamp, keyed
+ * with the app's client secret
+ */
+export function signHubspotPayload(
+  request: { method: string; url: string; rawBody: Buffer | string; timestamp: string },
+  clientSecret: string
+): string {
+  return crypto
+    .createHmac("sha256", clientSecret)
+    .update(`${request.method}${request.url}${request.rawBody.toString()}${request.timestamp}`)
+    .digest("base64");
+}
+
+export function verifyHubspotSignature(
+  request: { method: string; url: string; rawBody: Buffer; timestamp: string | undefined },
+  signature: string | undefined,
+  clientSecret: string
+): boolean {
+  const { timestamp } = request;
+  if (!signature || !timestamp) return false;
+
+  const age = Date.now() - Number(timestamp);
+  if (!Number.isFinite(age) || age > HUBSPOT_MAX_REQUEST_AGE_MS) return false;
+
+  // HubSpot signs the URL with these characters decoded
+  const url = request.url.replace(/%(3A|2F|3F|40|21|24|27|28|29|2A|2C|3B)/gi, (encoded) =>
+    decodeURIComponent(encoded)
+  );
+  return safeEqual(signHubspotPayload({ ...request, url, timestamp }, clientSecret), signature);
+}
+
+/**
+ * Compares the shared token of a Pub/Sub push subscription ("?token=" in its push endpoint)
+ */
+export function verifyPushToken(token: unknown, expected: string): boolean {
+  return typeof token === "string" && safeEqual(expected, token);
+}
@@ -0,0 +1,96 @@
+import type { VectorMetadata, VectorSearchResult } from "./types";
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Words with identifier punctuation inside (john@acme.com, INV-2024-001, v1.2) stay one token
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[@._\-/][\p{L}\p{N}]+)*/gu;
+const PART_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Lowercased search terms of a text. Compound tokens also yield their parts,
+ * so "acme" matches "john@acme.com" while the full address still matches best.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const token of text.toLowerCase().match(TOKEN_PATTERN) ?? []) {
+    tokens.push(token);
+    const parts = token.match(PART_PATTERN) ?? [];
+    if (parts.length > 1) {
+      tokens.push(...parts);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Text of the given metadata fields, as indexed by keyword search
+ */
+export function metadataText(metadata: VectorMetadata, fields: string[]): string {
+  return fields
+    .map((field) => metadata[field])
+    .filter((value) => value !== undefined && value !== null)
+    .map((value) => (Array.isArray(value) ? value.join(" ") : String(value)))
+    .join("\n");
+}
+
+/**
+ * Collection statistics for idf when `documents` is only a candidate set: the
+ * number of documents searched and, per query term, how many contain it
+ */
+export interface CorpusStats {
+  size: number;
+  documentFrequencies: Map<string, number>;
+}
+
+/**
+ * Ranks documents against a query with BM25. Document frequencies come from
+ * `documents` itself, so callers pass the whole filtered collection, or
+ * `corpus` with the statistics of the collection the candidates were taken from.
+ */
+export function rankBm25(
+  query: string,
+  documents: Array<{ id: string; metadata: VectorMetadata }>,
+  fields: string[],
+  topK: number,
+  corpus?: CorpusStats
+): VectorSearchResult[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || documents.length === 0) return [];
+
+  const indexed = documents.map((document) => {
+    const termCounts = new Map<string, number>();
+    const tokens = tokenize(metadataText(document.metadata, fields));
+    for (const token of tokens) {
+      termCounts.set(token, (termCounts.get(token) ?? 0) + 1);
+    }
+    return { document, termCounts, length: tokens.length };
+  });
+
+  const averageLength = indexed.reduce((sum, doc) => sum + doc.length, 0) / indexed.length || 1;
+
+  const size = Math.max(corpus?.size ?? 0, indexed.length);
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const candidateFrequency = indexed.filter((doc) => doc.termCounts.has(term)).length;
+    const frequency = Math.max(corpus?.documentFrequencies.get(term) ?? 0, candidateFrequency);
+    idf.set(term, Math.log(1 + (size - frequency + 0.5) / (frequency + 0.5)));
+  }
+
+  const results: VectorSearchResult[] = [];
+  for (const { document, termCounts, length } of indexed) {
+    let score = 0;
+    for (const term of queryTerms) {
+      const count = termCounts.get(term);
+      if (!count) continue;
+      score +=
+        (idf.get(term) ?? 0) * ((count * (K1 + 1)) / (count + K1 * (1 - B + (B * length) / averageLength)));
+    }
+    if (score > 0) {
+      results.push({ id: document.id, score, metadata: { ...document.metadata } });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, topK);
+}
@@ -0,0 +1,41 @@
+import { MemoryVectorStore } from "./memoryStore";
+import { MilvusVectorStore } from "./milvusStore";
+import { PgVectorStore } from "./pgvectorStore";
+import type { VectorStore } from "./types";
+
+export type * from "./types";
+
+// Collection names are shared by every backend (Milvus collection / pgvector + memory namespace)
+export type VectorCollection = "Gmail" | "Notion" | "Hubspot";
+
+const stores = new Map<VectorCollection, VectorStore>();
+
+/**
+ * Returns the vector store for a collection, using the backend selected by
+ * VECTOR_STORE: "milvus" (default), "pgvector" or "memory"
+ */
+export function getVectorStore(collection: VectorCollection): VectorStore {
+  let store = stores.get(collection);
+  if (store) {
+    return store;
+  }
+
+  const backend = (process.env.VECTOR_STORE || "milvus").toLowerCase();
+
+  switch (backend) {
+    case "milvus":
+      store = new MilvusVectorStore(collection);
+      break;
+    case "pgvector":
+      store = new PgVectorStore(collection);
+      break;
+    case "memory":
+      store = new MemoryVectorStore(collection);
+      break;
+    default:
+      throw new Error(`Unknown VECTOR_STORE "${backend}". Use "milvus", "pgvector" or "memory".`);
+  }
+
+  stores.set(collection, store);
+  return store;
+}
@@ -0,0 +1,125 @@
+import { rankBm25 } from "./bm25";
+import {
+  isContainsCondition,
+  isHasCondition,
+  isInCondition,
+  isRangeCondition,
+  type FilterCondition,
+  type KeywordSearchOptions,
+  type MetadataValue,
+  type VectorFilter,
+  type VectorMetadata,
+  type VectorRecord,
+  type VectorSearchOptions,
+  type VectorSearchResult,
+  type VectorStore,
+} from "./types";
+
+// Shared across instances so every getVectorStore(collection) call sees the same data
+const collections = new Map<string, Map<string, VectorRecord>>();
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function matchesCondition(value: MetadataValue | undefined, condition: FilterCondition): boolean {
+  if (isInCondition(condition)) {
+    return value !== undefined && value !== null && !Array.isArray(value) && condition.$in.includes(value);
+  }
+
+  if (isRangeCondition(condition)) {
+    if (typeof value !== "number") return false;
+    if (condition.$gte !== undefined && value < condition.$gte) return false;
+    if (condition.$lte !== undefined && value > condition.$lte) return false;
+    return true;
+  }
+
+  if (isContainsCondition(condition)) {
+    return typeof value === "string" && value.includes(condition.$contains);
+  }
+
+  if (isHasCondition(condition)) {
+    return Array.isArray(value) && value.includes(condition.$has);
+  }
+
+  return value === condition;
+}
+
+export function matchesFilter(record: VectorRecord, filter: VectorFilter): boolean {
+  return Object.entries(filter).every(([field, condition]) =>
+    matchesCondition(record.metadata[field], condition)
+  );
+}
+
+/**
+ * Process-local vector store for tests and local development (no external services)
+ */
+export class MemoryVectorStore implements VectorStore {
+  constructor(private readonly collection: string) {}
+
+  private get records(): Map<string, VectorRecord> {
+    let records = collections.get(this.collection);
+    if (!records) {
+      records = new Map();
+      collections.set(this.collection, records);
+    }
+    return records;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    for (const record of records) {
+      this.records.set(record.id, {
+        id: record.id,
+        embedding: [...record.embedding],
+        metadata: { ...record.metadata },
+      });
+    }
+  }
+
+  async deleteByFilter(filter: VectorFilter): Promise<void> {
+    for (const [id, record] of this.records) {
+      if (matchesFilter(record, filter)) {
+        this.records.delete(id);
+      }
+    }
+  }
+
+  async updateMetadata(filter: VectorFilter, patch: VectorMetadata): Promise<void> {
+    for (const record of this.records.values()) {
+      if (matchesFilter(record, filter)) {
+        record.metadata = { ...record.metadata, ...patch };
+      }
+    }
+  }
+
+  async search(embedding: number[], options: VectorSearchOptions): Promise<VectorSearchResult[]> {
+    const results: VectorSearchResult[] = [];
+
+    for (const record of this.records.values()) {
+      if (!matchesFilter(record, options.filter)) continue;
+      results.push({
+        id: record.id,
+        score: cosineSimilarity(embedding, record.embedding),
+        metadata: { ...record.metadata },
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, options.topK);
+  }
+
+  async keywordSearch(query: string, options: KeywordSearchOptions): Promise<VectorSearchResult[]> {
+    const matching = [...this.records.values()].filter((record) => matchesFilter(record, options.filter));
+    return rankBm25(query, matching, options.fields, options.topK);
+  }
+}
@@ -0,0 +1,331 @@
+import { DataType, MilvusClient, type CollectionSchema } from "@zilliz/milvus2-sdk-node";
+import { rankBm25, tokenize } from "./bm25";
+import {
+  isContainsCondition,
+  isHasCondition,
+  isInCondition,
+  isRangeCondition,
+  type FilterCondition,
+  type KeywordSearchOptions,
+  type MetadataScalar,
+  type VectorFilter,
+  type VectorMetadata,
+  type VectorRecord,
+  type VectorSearchOptions,
+  type VectorSearchResult,
+  type VectorStore,
+} from "./types";
+
+// Lazy initialization for Milvus client to avoid connection at module load
+let milvusClient: MilvusClient | null = null;
+
+function getMilvusClient(): MilvusClient {
+  if (!milvusClient) {
+    const rawAddress = process.env.MILVUS_ADDRESS;
+    if (!rawAddress) {
+      throw new Error("MILVUS_ADDRESS environment variable is not set");
+    }
+
+    // Remove https:// prefix if present - Zilliz uses gRPC which needs just hostname
+    const address = rawAddress.replace(/^https?:\/\//, "");
+    const token =
+      process.env.MILVUS_TOKEN ||
+      (process.env.MILVUS_USER ? `${process.env.MILVUS_USER}:${process.env.MILVUS_PASSWORD}` : undefined);
+
+    milvusClient = new MilvusClient({
+      address,
+      ...(token && { token }),
+      ssl: process.env.MILVUS_SSL !== "false", // Required for Zilliz Cloud serverless
+    });
+  }
+  return milvusClient;
+}
+
+// Fields that are part of the collection schema; everything else is a dynamic field
+const ID_FIELD = "id";
+const VECTOR_FIELD = "embedding";
+
+// Keyword search: the longest query terms are looked up one by one, rarest first,
+// and the rows found are ranked with BM25
+const KEYWORD_MAX_TERMS = 8;
+// Rows read per term, and in total
+const KEYWORD_TERM_LIMIT = 200;
+const KEYWORD_CANDIDATE_LIMIT = 1000;
+
+function formatValue(value: MetadataScalar): string {
+  // JSON string literals are valid Milvus string literals (double quotes, escaped)
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
+}
+
+// `like` wildcards in user text match literally
+function escapeLikePattern(text: string): string {
+  return text.replace(/[%_\\]/g, "\\$&");
+}
+
+function conditionToExpression(field: string, condition: FilterCondition): string {
+  if (isInCondition(condition)) {
+    return `${field} in [${condition.$in.map(formatValue).join(", ")}]`;
+  }
+
+  if (isRangeCondition(condition)) {
+    const parts: string[] = [];
+    if (condition.$gte !== undefined) parts.push(`${field} >= ${condition.$gte}`);
+    if (condition.$lte !== undefined) parts.push(`${field} <= ${condition.$lte}`);
+    return parts.join(" && ");
+  }
+
+  if (isContainsCondition(condition)) {
+    return `${field} like ${formatValue(`%${escapeLikePattern(condition.$contains)}%`)}`;
+  }
+
+  if (isHasCondition(condition)) {
+    return `json_contains(${field}, ${formatValue(condition.$has)})`;
+  }
+
+  return `${field} == ${formatValue(condition)}`;
+}
+
+export function filterToMilvusExpression(filter: VectorFilter): string {
+  return Object.entries(filter)
+    .map(([field, condition]) => conditionToExpression(field, condition))
+    .filter(Boolean)
+    .join(" && ");
+}
+
+/**
+ * Expression matching rows whose fields contain the term. Dynamic fields have
+ * no full-text index, so this is an infix `like` scan; `like` is case-sensitive,
+ * so the lowercase, Capitalized and UPPERCASE forms are tried.
+ */
+function termExpression(term: string, fields: string[]): string {
+  const variants = new Set([term, term.charAt(0).toUpperCase() + term.slice(1), term.toUpperCase()]);
+  const matches = [...variants].flatMap((variant) =>
+    fields.map((field) => `${field} like ${formatValue(`%${escapeLikePattern(variant)}%`)}`)
+  );
+  return `(${matches.join(" || ")})`;
+}
+
+function andExpression(...expressions: string[]): string {
+  return expressions.filter(Boolean).join(" && ");
+}
+
+/**
+ * Why an existing collection can't be used by this store, or null if it can.
+ * Collections created by earlier versions (auto-generated int64 ids and
+ * explicit metadata fields) can't take string ids or new metadata fields.
+ */
+function getSchemaMismatch(schema: CollectionSchema): string | null {
+  const primaryKey = schema.fields.find((field) => field.is_primary_key);
+  if (!primaryKey || primaryKey.name !== ID_FIELD || primaryKey.data_type !== "VarChar" || primaryKey.autoID) {
+    return `its primary key is not a "${ID_FIELD}" VarChar field without auto id`;
+  }
+  if (!schema.fields.some((field) => field.name === VECTOR_FIELD && field.data_type === "FloatVector")) {
+    return `it has no "${VECTOR_FIELD}" FloatVector field`;
+  }
+  if (!schema.enable_dynamic_field) {
+    return "dynamic fields are not enabled";
+  }
+  return null;
+}
+
+/**
+ * Milvus / Zilliz Cloud backed vector store.
+ * Collections are created on first write with a varchar primary key, a cosine
+ * vector index and dynamic fields for metadata. Their names are prefixed with
+ * MILVUS_COLLECTION_PREFIX, so that collections with an older schema can be
+ * left in place while the data is re-indexed into new ones.
+ */
+export class MilvusVectorStore implements VectorStore {
+  private readonly collection: string;
+  private collectionReady: Promise<void> | null = null;
+  private schemaChecked = false;
+
+  constructor(collection: string) {
+    this.collection = `${process.env.MILVUS_COLLECTION_PREFIX || ""}${collection}`;
+  }
+
+  /**
+   * Fails with a migration hint when an existing collection has a schema this
+   * store can't write to (checked once per process)
+   */
+  private async checkSchema(client: MilvusClient): Promise<void> {
+    if (this.schemaChecked) return;
+
+    const description = await client.describeCollection({ collection_name: this.collection });
+    const mismatch = getSchemaMismatch(description.schema);
+    if (mismatch) {
+      throw new Error(
+        `Milvus collection "${this.collection}" has an incompatible schema (${mismatch}). ` +
+          `It was probably created by an earlier version: set MILVUS_COLLECTION_PREFIX to use new collections ` +
+          `(or drop the old one), then force a re-sync of every connected account.`
+      );
+    }
+    this.schemaChecked = true;
+  }
+
+  private async ensureCollection(dimension: number): Promise<void> {
+    if (!this.collectionReady) {
+      this.collectionReady = (async () => {
+        const client = getMilvusClient();
+        const exists = await client.hasCollection({ collection_name: this.collection });
+
+        if (!exists.value) {
+          await client.createCollection({
+            collection_name: this.collection,
+            enable_dynamic_field: true,
+            fields: [
+              {
+                name: ID_FIELD,
+                data_type: DataType.VarChar,
+                is_primary_key: true,
+                autoID: false,
+                max_length: 512,
+              },
+              {
+                name: VECTOR_FIELD,
+                data_type: DataType.FloatVector,
+                dim: dimension,
+              },
+            ],
+            index_params: {
+              field_name: VECTOR_FIELD,
+              index_type: "AUTOINDEX",
+              metric_type: "COSINE",
+            },
+          });
+        } else {
+          await this.checkSchema(client);
+        }
+
+        await client.loadCollection({ collection_name: this.collection });
+      })().catch((error) => {
+        this.collectionReady = null;
+        throw error;
+      });
+    }
+    return this.collectionReady;
+  }
+
+  private async collectionExists(): Promise<boolean> {
+    const client = getMilvusClient();
+    const exists = await client.hasCollection({ collection_name: this.collection });
+    if (!exists.value) return false;
+
+    await this.checkSchema(client);
+    return true;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    await this.ensureCollection(records[0]!.embedding.length);
+
+    await getMilvusClient().upsert({
+      collection_name: this.collection,
+      data: records.map((record) => ({
+        ...record.metadata,
+        [ID_FIELD]: record.id,
+        [VECTOR_FIELD]: record.embedding,
+      })),
+    });
+  }
+
+  async deleteByFilter(filter: VectorFilter): Promise<void> {
+    if (!(await this.collectionExists())) return;
+
+    await getMilvusClient().delete({
+      collection_name: this.collection,
+      filter: filterToMilvusExpression(filter),
+    });
+  }
+
+  async updateMetadata(filter: VectorFilter, patch: VectorMetadata): Promise<void> {
+    if (!(await this.collectionExists())) return;
+
+    // Milvus has no partial update: read the matching rows (with vectors) and upsert them back
+    const queryResult = await getMilvusClient().query({
+      collection_name: this.collection,
+      filter: filterToMilvusExpression(filter),
+      output_fields: ["*"],
+    });
+
+    if (queryResult.data.length === 0) return;
+
+    await getMilvusClient().upsert({
+      collection_name: this.collection,
+      data: queryResult.data.map((row: any) => {
+        const { $meta, ...fields } = row;
+        return { ...fields, ...($meta ?? {}), ...patch };
+      }),
+    });
+  }
+
+  async search(embedding: number[], options: VectorSearchOptions): Promise<VectorSearchResult[]> {
+    if (!(await this.collectionExists())) return [];
+
+    const searchResult = await getMilvusClient().search({
+      collection_name: this.collection,
+      data: [embedding],
+      filter: filterToMilvusExpression(options.filter),
+      limit: options.topK,
+      output_fields: ["*"],
+    });
+
+    return searchResult.results.map((hit: any) => {
+      const { id, score, [VECTOR_FIELD]: _vector, $meta, ...fields } = hit;
+      return {
+        id: String(id),
+        score: score || 0,
+        metadata: { ...fields, ...($meta ?? {}) } as VectorMetadata,
+      };
+    });
+  }
+
+  /**
+   * Each term is counted and queried on its own, rarest first, so a common word
+   * in the query cannot crowd the rows with a rare identifier out of the
+   * candidates; idf uses the per-term counts over the whole filtered collection
+   */
+  async keywordSearch(query: string, options: KeywordSearchOptions): Promise<VectorSearchResult[]> {
+    const terms = [...new Set(tokenize(query))]
+      .sort((a, b) => b.length - a.length)
+      .slice(0, KEYWORD_MAX_TERMS);
+    if (terms.length === 0 || options.fields.length === 0 || !(await this.collectionExists())) return [];
+
+    const client = getMilvusClient();
+    const metadataFilter = filterToMilvusExpression(options.filter);
+
+    const size = (await client.count({ collection_name: this.collection, expr: metadataFilter })).data;
+    const documentFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      const count = await client.count({
+        collection_name: this.collection,
+        expr: andExpression(metadataFilter, termExpression(term, options.fields)),
+      });
+      documentFrequencies.set(term, count.data);
+    }
+
+    const candidates = new Map<string, { id: string; metadata: VectorMetadata }>();
+    const rarestFirst = terms
+      .filter((term) => documentFrequencies.get(term)! > 0)
+      .sort((a, b) => documentFrequencies.get(a)! - documentFrequencies.get(b)!);
+
+    for (const term of rarestFirst) {
+      if (candidates.size >= KEYWORD_CANDIDATE_LIMIT) break;
+
+      const queryResult = await client.query({
+        collection_name: this.collection,
+        filter: andExpression(metadataFilter, termExpression(term, options.fields)),
+        output_fields: ["*"],
+        limit: Math.min(KEYWORD_TERM_LIMIT, KEYWORD_CANDIDATE_LIMIT - candidates.size),
+      });
+
+      for (const row of queryResult.data as any[]) {
+        const { [ID_FIELD]: id, [VECTOR_FIELD]: _vector, $meta, ...fields } = row;
+        candidates.set(String(id), { id: String(id), metadata: { ...fields, ...($meta ?? {}) } as VectorMetadata });
+      }
+    }
+
+    return rankBm25(query, [...candidates.values()], options.fields, options.topK, { size, documentFrequencies });
+  }
+}
@@ -0,0 +1,191 @@
+import { AppDataSource } from "../data-source";
+import {
+  isContainsCondition,
+  isHasCondition,
+  isInCondition,
+  isRangeCondition,
+  type KeywordSearchOptions,
+  type VectorFilter,
+  type VectorMetadata,
+  type VectorRecord,
+  type VectorSearchOptions,
+  type VectorSearchResult,
+  type VectorStore,
+} from "./types";
+
+const TABLE_NAME = "vector_documents";
+
+let tableReady: Promise<void> | null = null;
+
+/**
+ * Creates the pgvector extension and the shared documents table (idempotent)
+ */
+function ensureTable(): Promise<void> {
+  if (!tableReady) {
+    tableReady = (async () => {
+      await AppDataSource.query(`CREATE EXTENSION IF NOT EXISTS vector`);
+      await AppDataSource.query(`
+        CREATE TABLE IF NOT EXISTS "${TABLE_NAME}" (
+          "collection" varchar(64) NOT NULL,
+          "id" varchar(512) NOT NULL,
+          "metadata" jsonb NOT NULL DEFAULT '{}'::jsonb,
+          "embedding" vector NOT NULL,
+          PRIMARY KEY ("collection", "id")
+        )
+      `);
+      await AppDataSource.query(
+        `CREATE INDEX IF NOT EXISTS "${TABLE_NAME}_metadata_idx" ON "${TABLE_NAME}" USING gin ("metadata" jsonb_path_ops)`
+      );
+    })().catch((error) => {
+      tableReady = null;
+      throw error;
+    });
+  }
+  return tableReady;
+}
+
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(",")}]`;
+}
+
+/**
+ * Translates a metadata filter into a SQL condition on the jsonb column.
+ * Parameters are appended to `params`; placeholders continue from its length.
+ */
+export function filterToSql(filter: VectorFilter, params: unknown[]): string {
+  const clauses: string[] = [];
+
+  for (const [field, condition] of Object.entries(filter)) {
+    if (isInCondition(condition)) {
+      params.push(field, JSON.stringify(condition.$in));
+      clauses.push(
+        `"metadata"->$${params.length - 1}::text IN (SELECT jsonb_array_elements($${params.length}::jsonb))`
+      );
+    } else if (isRangeCondition(condition)) {
+      if (condition.$gte !== undefined) {
+        params.push(field, condition.$gte);
+        clauses.push(`("metadata"->>$${params.length - 1}::text)::double precision >= $${params.length}`);
+      }
+      if (condition.$lte !== undefined) {
+        params.push(field, condition.$lte);
+        clauses.push(`("metadata"->>$${params.length - 1}::text)::double precision <= $${params.length}`);
+      }
+    } else if (isContainsCondition(condition)) {
+      params.push(field, `%${condition.$contains.replace(/[\\%_]/g, "\\$&")}%`);
+      clauses.push(`"metadata"->>$${params.length - 1}::text LIKE $${params.length}`);
+    } else if (isHasCondition(condition)) {
+      // Containment of a one-element array matches arrays that have the element
+      params.push(JSON.stringify({ [field]: [condition.$has] }));
+      clauses.push(`"metadata" @> $${params.length}::jsonb`);
+    } else {
+      // jsonb containment keeps the value's type (string vs number vs boolean) and uses the GIN index
+      params.push(JSON.stringify({ [field]: condition }));
+      clauses.push(`"metadata" @> $${params.length}::jsonb`);
+    }
+  }
+
+  return clauses.length > 0 ? clauses.join(" AND ") : "TRUE";
+}
+
+/**
+ * Vector store on the app's Postgres database using the pgvector extension
+ */
+export class PgVectorStore implements VectorStore {
+  constructor(private readonly collection: string) {}
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    await ensureTable();
+
+    for (const record of records) {
+      await AppDataSource.query(
+        `INSERT INTO "${TABLE_NAME}" ("collection", "id", "metadata", "embedding")
+         VALUES ($1, $2, $3::jsonb, $4::vector)
+         ON CONFLICT ("collection", "id")
+         DO UPDATE SET "metadata" = EXCLUDED."metadata", "embedding" = EXCLUDED."embedding"`,
+        [this.collection, record.id, JSON.stringify(record.metadata), toVectorLiteral(record.embedding)]
+      );
+    }
+  }
+
+  async deleteByFilter(filter: VectorFilter): Promise<void> {
+    await ensureTable();
+
+    const params: unknown[] = [this.collection];
+    const where = filterToSql(filter, params);
+
+    await AppDataSource.query(
+      `DELETE FROM "${TABLE_NAME}" WHERE "collection" = $1 AND ${where}`,
+      params
+    );
+  }
+
+  async updateMetadata(filter: VectorFilter, patch: VectorMetadata): Promise<void> {
+    await ensureTable();
+
+    const params: unknown[] = [this.collection, JSON.stringify(patch)];
+    const where = filterToSql(filter, params);
+
+    await AppDataSource.query(
+      `UPDATE "${TABLE_NAME}" SET "metadata" = "metadata" || $2::jsonb WHERE "collection" = $1 AND ${where}`,
+      params
+    );
+  }
+
+  async search(embedding: number[], options: VectorSearchOptions): Promise<VectorSearchResult[]> {
+    await ensureTable();
+
+    const params: unknown[] = [this.collection, toVectorLiteral(embedding), options.topK];
+    const where = filterToSql(options.filter, params);
+
+    const rows: Array<{ id: string; metadata: VectorMetadata; score: number }> =
+      await AppDataSource.query(
+        `SELECT "id", "metadata", 1 - ("embedding" <=> $2::vector) AS "score"
+         FROM "${TABLE_NAME}"
+         WHERE "collection" = $1 AND ${where}
+         ORDER BY "embedding" <=> $2::vector
+         LIMIT $3`,
+        params
+      );
+
+    return rows.map((row) => ({
+      id: row.id,
+      score: Number(row.score),
+      metadata: row.metadata,
+    }));
+  }
+
+  async keywordSearch(query: string, options: KeywordSearchOptions): Promise<VectorSearchResult[]> {
+    if (options.fields.length === 0) return [];
+    await ensureTable();
+
+    const params: unknown[] = [this.collection, query, options.topK];
+    const where = filterToSql(options.filter, params);
+
+    // The "simple" configuration keeps addresses, codes and numbers as exact tokens.
+    // The query terms are OR-ed (plainto_tsquery would require all of them).
+    const document = `to_tsvector('simple', concat_ws(' ', ${options.fields
+      .map((field) => {
+        params.push(field);
+        return `"metadata"->>$${params.length}::text`;
+      })
+      .join(", ")}))`;
+
+    const rows: Array<{ id: string; metadata: VectorMetadata; score: number }> =
+      await AppDataSource.query(
+        `SELECT "id", "metadata", ts_rank_cd(${document}, "query") AS "score"
+         FROM "${TABLE_NAME}",
+              NULLIF(replace(plainto_tsquery('simple', $2)::text, '&', '|'), '')::tsquery AS "query"
+         WHERE "collection" = $1 AND ${where} AND ${document} @@ "query"
+         ORDER BY "score" DESC
+         LIMIT $3`,
+        params
+      );
+
+    return rows.map((row) => ({
+      id: row.id,
+      score: Number(row.score),
+      metadata: row.metadata,
+    }));
+  }
+}
@@ -0,0 +1,74 @@
+// Values that can be stored as (filterable) metadata next to a vector
+export type MetadataScalar = string | number | boolean;
+export type MetadataValue = MetadataScalar | MetadataScalar[] | null;
+export type VectorMetadata = Record<string, MetadataValue>;
+
+/**
+ * Condition on a single metadata field:
+ * - a scalar: equality
+ * - { $in: [...] }: field equals one of the values
+ * - { $gte, $lte }: numeric range (either bound optional)
+ * - { $contains: "..." }: string field contains the text (case-sensitive)
+ * - { $has: value }: array field has the value as one of its elements
+ */
+export type FilterCondition =
+  | MetadataScalar
+  | { $in: MetadataScalar[] }
+  | { $gte?: number; $lte?: number }
+  | { $contains: string }
+  | { $has: MetadataScalar };
+
+// All conditions must match (AND)
+export type VectorFilter = Record<string, FilterCondition>;
+
+export interface VectorRecord {
+  // Stable id; upserting the same id replaces the previous record
+  id: string;
+  embedding: number[];
+  metadata: VectorMetadata;
+}
+
+export interface VectorSearchResult {
+  id: string;
+  // Similarity score, higher is better (cosine similarity)
+  score: number;
+  metadata: VectorMetadata;
+}
+
+export interface VectorSearchOptions {
+  filter: VectorFilter;
+  topK: number;
+}
+
+export interface KeywordSearchOptions extends VectorSearchOptions {
+  // Metadata fields whose text is matched against the query terms
+  fields: string[];
+}
+
+export interface VectorStore {
+  upsert(records: VectorRecord[]): Promise<void>;
+  deleteByFilter(filter: VectorFilter): Promise<void>;
+  // Merges `patch` into the metadata of every matching record (embeddings are kept)
+  updateMetadata(filter: VectorFilter, patch: VectorMetadata): Promise<void>;
+  search(embedding: number[], options: VectorSearchOptions): Promise<VectorSearchResult[]>;
+  // Full-text search for exact terms (ids, addresses, codes); scores are only comparable within one result list
+  keywordSearch(query: string, options: KeywordSearchOptions): Promise<VectorSearchResult[]>;
+}
+
+export function isInCondition(condition: FilterCondition): condition is { $in: MetadataScalar[] } {
+  return typeof condition === "object" && "$in" in condition;
+}
+
+export function isRangeCondition(
+  condition: FilterCondition
+): condition is { $gte?: number; $lte?: number } {
+  return typeof condition === "object" && ("$gte" in condition || "$lte" in condition);
+}
+
+export function isContainsCondition(condition: FilterCondition): condition is { $contains: string } {
+  return typeof condition === "object" && "$contains" in condition;
+}
+
+export function isHasCondition(condition: FilterCondition): condition is { $has: MetadataScalar } {
+  return typeof condition === "object" && "$has" in condition;
+}
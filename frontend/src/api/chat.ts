@@ -1,9 +1,32 @@
 import { apiClient } from './config';
 
+// A source the assistant's answer is based on (messages saved before citations
+// carried source ids only have tool, title and subtitle)
 export interface Citation {
+  // Number the answer cites it with, as an inline [n] marker
+  number?: number;
   tool: 'notion' | 'gmail' | 'hubspot';
+  sourceId?: string;
   title: string;
   subtitle?: string;
+  // Filename when the cited passage comes from an email attachment
+  attachment?: string;
+  // Opens the email, page or record in its app
+  url?: string | null;
+  snippet?: string;
+  score?: number;
+}
+
+// A tool call made by the assistant while answering
+export interface ToolStep {
+  id: string;
+  tool: string;
+  args: Record<string, unknown>;
+  status: 'running' | 'completed' | 'failed';
+  startedAt: string;
+  durationMs?: number;
+  resultCount?: number;
+  error?: string;
 }
 
 export interface Chat {
@@ -19,7 +42,12 @@ export interface ChatMessage {
   content: string;
   role: 'user' | 'assistant';
   createdAt: string;
+  // Previous message on the branch, and the versions of this message (itself included)
+  parentMessageId?: string | null;
+  siblingIds?: string[];
   citations?: Citation[] | null;
+  toolSteps?: ToolStep[] | null;
+  cancelled?: boolean;
 }
 
 export interface GetChatsResponse {
@@ -38,6 +66,11 @@ export interface CreateChatResponse {
   chat: Chat;
 }
 
+export interface BranchResponse {
+  success: boolean;
+  messages: ChatMessage[];
+}
+
 export interface DeleteChatResponse {
   success: boolean;
   message: string;
@@ -68,6 +101,12 @@ export const chatAPI = {
     return response.data;
   },
 
+  // Show the branch through a message (e.g. another version of it)
+  setActiveMessage: async (chatId: string, messageId: string): Promise<BranchResponse> => {
+    const response = await apiClient.put<BranchResponse>(`/api/chats/${chatId}/active-message`, { messageId });
+    return response.data;
+  },
+
   // Delete a chat
   deleteChat: async (chatId: string): Promise<DeleteChatResponse> => {
     const response = await apiClient.delete<DeleteChatResponse>(`/api/chats/${chatId}`);
@@ -1,4 +1,4 @@
 export { authAPI, type SignupRequest, type LoginRequest, type AuthResponse } from './auth';
 export { apiClient } from './config';
 export { chatAPI, type Chat, type ChatMessage, type GetChatsResponse, type GetChatResponse } from './chat';
-
+export { syncAPI, type SyncJob, type SyncJobType, type SyncProgress } from './sync';
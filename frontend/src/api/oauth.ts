@@ -6,19 +6,42 @@ export interface ConnectionStatusResponse {
     google: boolean;
     notion: boolean;
     hubspot: boolean;
+    // Revoked accounts, or accounts missing scopes a sync needs
+    needsReconnect?: {
+      google: boolean;
+      notion: boolean;
+      hubspot: boolean;
+    };
   };
 }
 
-export interface OAuthInitiateResponse {
-  success: boolean;
-  authUrl: string;
-}
-
 export interface DisconnectResponse {
   success: boolean;
   message: string;
 }
 
+type OAuthProvider = 'google' | 'notion' | 'hubspot';
+
+/**
+ * Opens a provider's initiate endpoint as a top-level form submission (not an
+ * XHR), so the OAuth state cookie it sets is first-party even when the API is
+ * on another site. The endpoint redirects to the provider's consent screen.
+ */
+const submitInitiateForm = (provider: OAuthProvider): void => {
+  const form = document.createElement('form');
+  form.method = 'POST';
+  form.action = `${apiClient.defaults.baseURL ?? ''}/api/oauth/${provider}/initiate`;
+
+  const token = document.createElement('input');
+  token.type = 'hidden';
+  token.name = 'token';
+  token.value = localStorage.getItem('auth_token') ?? '';
+  form.appendChild(token);
+
+  document.body.appendChild(form);
+  form.submit();
+};
+
 export const oauthAPI = {
   /**
    * Get OAuth connection status for Google and Notion
@@ -31,26 +54,17 @@ export const oauthAPI = {
   /**
    * Initiate Google OAuth flow
    */
-  initiateGoogleOAuth: async (): Promise<OAuthInitiateResponse> => {
-    const response = await apiClient.get<OAuthInitiateResponse>('/api/oauth/google/initiate');
-    return response.data;
-  },
+  initiateGoogleOAuth: (): void => submitInitiateForm('google'),
 
   /**
    * Initiate Notion OAuth flow
    */
-  initiateNotionOAuth: async (): Promise<OAuthInitiateResponse> => {
-    const response = await apiClient.get<OAuthInitiateResponse>('/api/oauth/notion/initiate');
-    return response.data;
-  },
+  initiateNotionOAuth: (): void => submitInitiateForm('notion'),
 
   /**
    * Initiate HubSpot OAuth flow
    */
-  initiateHubspotOAuth: async (): Promise<OAuthInitiateResponse> => {
-    const response = await apiClient.get<OAuthInitiateResponse>('/api/oauth/hubspot/initiate');
-    return response.data;
-  },
+  initiateHubspotOAuth: (): void => submitInitiateForm('hubspot'),
 
   /**
    * Disconnect Google/Gmail
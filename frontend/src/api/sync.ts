@@ -0,0 +1,43 @@
+import { apiClient } from './config';
+
+export type SyncJobType = 'gmail' | 'notion' | 'hubspot';
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface SyncProgress {
+  total: number;
+  processed: number;
+  deleted: number;
+  skipped: number;
+  failed: number;
+}
+
+export interface SyncJob {
+  id: string;
+  type: SyncJobType;
+  status: SyncJobStatus;
+  progress: SyncProgress | null;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  runAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+}
+
+export interface GetSyncJobsResponse {
+  success: boolean;
+  jobs: SyncJob[];
+}
+
+export const syncAPI = {
+  /**
+   * Get the latest data sync jobs (newest first)
+   */
+  getJobs: async (): Promise<GetSyncJobsResponse> => {
+    const response = await apiClient.get<GetSyncJobsResponse>('/api/sync/jobs');
+    return response.data;
+  },
+};
+
+export default syncAPI;
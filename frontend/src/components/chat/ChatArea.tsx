@@ -1,6 +1,8 @@
 import { useEffect, useRef } from 'react'
 import { IoBulbOutline, IoSearchOutline, IoCreateOutline, IoHelpCircleOutline } from 'react-icons/io5'
 import ChatMessage from './ChatMessage'
+import ToolTimeline from './ToolTimeline'
+import type { ToolStep } from '../../api/chat'
 
 interface Message {
   id: string
@@ -8,14 +10,19 @@ interface Message {
   role: 'user' | 'assistant'
   timestamp: string
   isStreaming?: boolean
+  toolSteps?: ToolStep[]
+  siblingIds?: string[]
 }
 
 interface ChatAreaProps {
   messages: Message[]
   isLoading?: boolean
+  onRegenerate?: (messageId: string) => void
+  onEditMessage?: (messageId: string, content: string) => void
+  onSelectVersion?: (messageId: string) => void
 }
 
-function ChatArea({ messages, isLoading = false }: ChatAreaProps) {
+function ChatArea({ messages, isLoading = false, onRegenerate, onEditMessage, onSelectVersion }: ChatAreaProps) {
   // Check if there's currently a streaming message
   const hasStreamingMessage = messages.some((msg) => msg.isStreaming)
   const messagesEndRef = useRef<HTMLDivElement>(null)
@@ -112,7 +119,19 @@ function ChatArea({ messages, isLoading = false }: ChatAreaProps) {
         // Messages
         <div className="max-w-4xl mx-auto">
           {messages.map((message) => (
-            <ChatMessage key={message.id} message={message} />
+            <div key={message.id}>
+              {/* Tool calls the assistant made, shown above its answer */}
+              {message.toolSteps && message.toolSteps.length > 0 && (
+                <ToolTimeline steps={message.toolSteps} isStreaming={message.isStreaming} />
+              )}
+              <ChatMessage
+                message={message}
+                actionsDisabled={isLoading}
+                onRegenerate={onRegenerate}
+                onEdit={onEditMessage}
+                onSelectVersion={onSelectVersion}
+              />
+            </div>
           ))}
           
           {/* Loading State - only show when waiting for stream to start */}
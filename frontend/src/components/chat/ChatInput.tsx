@@ -1,12 +1,14 @@
 import { useState, useRef, KeyboardEvent, useEffect } from 'react'
-import { IoSend } from 'react-icons/io5'
+import { IoSend, IoStop } from 'react-icons/io5'
 
 interface ChatInputProps {
   onSendMessage: (message: string) => void
+  onStop?: () => void
+  isStreaming?: boolean
   disabled?: boolean
 }
 
-function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
+function ChatInput({ onSendMessage, onStop, isStreaming = false, disabled = false }: ChatInputProps) {
   const [message, setMessage] = useState('')
   const textareaRef = useRef<HTMLTextAreaElement>(null)
 
@@ -72,18 +74,29 @@ function ChatInput({ onSendMessage, disabled = false }: ChatInputProps) {
             rows={1}
           />
 
-          {/* Send Button */}
-          <button
-            onClick={handleSubmit}
-            disabled={!message.trim() || disabled}
-            className="shrink-0 px-4 py-2 bg-purple-600 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold flex items-center justify-center cursor-pointer"
-          >
-            {disabled ? (
-              <span>...</span>
-            ) : (
-              <IoSend className="w-5 h-5" />
-            )}
-          </button>
+          {/* Stop Button - replaces Send while a response is being generated */}
+          {isStreaming && onStop ? (
+            <button
+              onClick={onStop}
+              title="Stop generating"
+              className="shrink-0 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold flex items-center justify-center cursor-pointer"
+            >
+              <IoStop className="w-5 h-5" />
+            </button>
+          ) : (
+            // Send Button
+            <button
+              onClick={handleSubmit}
+              disabled={!message.trim() || disabled}
+              className="shrink-0 px-4 py-2 bg-purple-600 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-semibold flex items-center justify-center cursor-pointer"
+            >
+              {disabled ? (
+                <span>...</span>
+              ) : (
+                <IoSend className="w-5 h-5" />
+              )}
+            </button>
+          )}
         </div>
 
         {/* Helper Text */}
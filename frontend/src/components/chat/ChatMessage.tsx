@@ -1,12 +1,15 @@
-import { IoCopy, IoRefresh } from "react-icons/io5";
+import { useState } from "react";
+import {
+  IoAttach,
+  IoChevronBack,
+  IoChevronForward,
+  IoCopy,
+  IoCreateOutline,
+  IoRefresh,
+} from "react-icons/io5";
 import ReactMarkdown from "react-markdown";
 import { toast } from "react-toastify";
-
-interface Citation {
-  tool: "notion" | "gmail" | "hubspot";
-  title: string;
-  subtitle?: string;
-}
+import type { Citation } from "../../api/chat";
 
 interface Message {
   id: string;
@@ -15,10 +18,18 @@ interface Message {
   timestamp: string;
   isStreaming?: boolean;
   citations?: Citation[];
+  cancelled?: boolean;
+  // Only stored messages have versions (and can be edited or regenerated)
+  siblingIds?: string[];
 }
 
 interface ChatMessageProps {
   message: Message;
+  // Edit/regenerate/version switching are unavailable while a response streams
+  actionsDisabled?: boolean;
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string) => void;
+  onSelectVersion?: (messageId: string) => void;
 }
 
 // Tool logo mapping
@@ -34,14 +45,185 @@ const toolNames: Record<string, string> = {
   hubspot: "HubSpot",
 };
 
-function ChatMessage({ message }: ChatMessageProps) {
+// Inline citation marker written by the assistant, e.g. "due Friday [2]"
+// (not preceded by a word character, so code such as items[0] is left alone)
+const CITATION_MARKER = /(?<!\w)\[(\d+)\](?!\()/g;
+const CITATION_LINK_PREFIX = "#cite-";
+
+// Turns citation markers into links, which the markdown renderer shows as superscripts
+const linkCitationMarkers = (content: string) =>
+  content.replace(CITATION_MARKER, `[$1](${CITATION_LINK_PREFIX}$1)`);
+
+interface CitationCardProps {
+  citation: Citation;
+  id: string;
+  highlighted: boolean;
+}
+
+// Source card; opens the email, page or record when the citation has a link,
+// and previews the matched text on hover
+function CitationCard({ citation, id, highlighted }: CitationCardProps) {
+  const content = (
+    <>
+      {citation.number !== undefined && (
+        <span className="text-[9px] text-purple-300 font-semibold shrink-0">
+          {citation.number}
+        </span>
+      )}
+      <img
+        src={toolLogos[citation.tool]}
+        alt={toolNames[citation.tool]}
+        className="w-3.5 h-3.5 shrink-0"
+      />
+      <div className="min-w-0">
+        <p className="text-[10px] text-gray-300 font-medium truncate leading-tight">
+          {citation.title}
+        </p>
+        {citation.attachment ? (
+          <p className="flex items-center gap-0.5 text-[9px] text-gray-400 leading-tight">
+            <IoAttach size={10} className="shrink-0" />
+            <span className="truncate">{citation.attachment}</span>
+          </p>
+        ) : (
+          citation.subtitle && (
+            <p className="text-[9px] text-gray-500 truncate leading-tight">
+              {citation.subtitle}
+            </p>
+          )
+        )}
+      </div>
+    </>
+  );
+
+  const cardClassName = `flex items-center gap-1.5 bg-gray-800/60 border rounded px-2 py-1 max-w-[180px] ${
+    highlighted ? "border-purple-400 ring-1 ring-purple-400/60" : "border-gray-700/50"
+  }`;
+
+  return (
+    <div id={id} className="relative group">
+      {citation.url ? (
+        <a
+          href={citation.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`${cardClassName} hover:border-purple-500/60 hover:bg-gray-800 transition-colors`}
+        >
+          {content}
+        </a>
+      ) : (
+        <div className={cardClassName}>{content}</div>
+      )}
+
+      {/* Hover preview */}
+      {citation.snippet && (
+        <div className="absolute bottom-full left-0 z-20 mb-1.5 hidden w-72 rounded-lg border border-gray-700 bg-gray-900 p-3 shadow-xl group-hover:block">
+          <div className="flex items-center gap-1.5 mb-1">
+            <img
+              src={toolLogos[citation.tool]}
+              alt={toolNames[citation.tool]}
+              className="w-3.5 h-3.5 shrink-0"
+            />
+            <p className="text-xs text-gray-200 font-medium truncate">
+              {citation.title}
+            </p>
+          </div>
+          {citation.subtitle && (
+            <p className="text-[10px] text-gray-500 truncate mb-1">
+              {citation.subtitle}
+            </p>
+          )}
+          {citation.attachment && (
+            <p className="flex items-center gap-1 text-[10px] text-gray-400 mb-1">
+              <IoAttach size={11} className="shrink-0" />
+              <span className="truncate">{citation.attachment}</span>
+            </p>
+          )}
+          <p className="text-[11px] text-gray-400 leading-snug line-clamp-5">
+            {citation.snippet}
+          </p>
+          <div className="flex items-center justify-between mt-2 text-[10px] text-gray-500">
+            {citation.score !== undefined && (
+              <span>Relevance {Math.round(citation.score * 100)}%</span>
+            )}
+            {citation.url && (
+              <span className="text-purple-400">
+                Open in {toolNames[citation.tool]}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChatMessage({
+  message,
+  actionsDisabled = false,
+  onRegenerate,
+  onEdit,
+  onSelectVersion,
+}: ChatMessageProps) {
   const isUser = message.role === "user";
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  // Citation whose marker is hovered or was clicked in the answer
+  const [highlightedCitation, setHighlightedCitation] = useState<number | null>(null);
+
+  const siblingIds = message.siblingIds ?? [];
+  const versionIndex = siblingIds.indexOf(message.id);
+  const isStored = siblingIds.length > 0 && !message.isStreaming;
+
+  const citationCardId = (number: number) => `citation-${message.id}-${number}`;
+
+  // Superscript marker; highlights its citation card on hover and scrolls to it on click.
+  // Markers without a citation (e.g. while the answer streams) are plain text.
+  const renderCitationMarker = (number: number) => {
+    const citation = message.citations?.find((item) => item.number === number);
+    if (!citation) {
+      return <sup className="text-[10px] text-gray-500">[{number}]</sup>;
+    }
+
+    return (
+      <sup>
+        <a
+          href={`${CITATION_LINK_PREFIX}${number}`}
+          title={citation.title}
+          onClick={(e) => {
+            e.preventDefault();
+            setHighlightedCitation(number);
+            document
+              .getElementById(citationCardId(number))
+              ?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+          }}
+          onMouseEnter={() => setHighlightedCitation(number)}
+          onMouseLeave={() => setHighlightedCitation(null)}
+          className="ml-0.5 px-1 rounded bg-purple-500/20 text-[10px] text-purple-300 font-semibold no-underline hover:bg-purple-500/40"
+        >
+          {number}
+        </a>
+      </sup>
+    );
+  };
 
   const handleCopy = () => {
     navigator.clipboard.writeText(message.content);
     toast.success("Copied to clipboard!");
   };
 
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = draft.trim();
+    setIsEditing(false);
+    if (content && content !== message.content) {
+      onEdit?.(message.id, content);
+    }
+  };
+
   return (
     <div className={`flex p-4 ${isUser ? "justify-end" : "justify-start"}`}>
       <div
@@ -75,7 +257,40 @@ function ChatMessage({ message }: ChatMessageProps) {
                 : "bg-gray-700 text-gray-200 rounded-tl-sm"
             }`}
           >
-            {isUser ? (
+            {isUser && isEditing ? (
+              <div className="flex flex-col gap-2 min-w-[280px]">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    } else if (e.key === "Escape") {
+                      setIsEditing(false);
+                    }
+                  }}
+                  autoFocus
+                  rows={3}
+                  className="bg-purple-700/60 text-white resize-none outline-none p-2"
+                />
+                <div className="flex justify-end gap-2 text-xs">
+                  <button
+                    onClick={() => setIsEditing(false)}
+                    className="px-2 py-1 text-purple-200 hover:text-white cursor-pointer"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={submitEdit}
+                    disabled={!draft.trim() || actionsDisabled}
+                    className="px-2 py-1 bg-white text-purple-700 font-semibold disabled:opacity-50 cursor-pointer"
+                  >
+                    Send
+                  </button>
+                </div>
+              </div>
+            ) : isUser ? (
               message.content
             ) : (
               <>
@@ -134,16 +349,23 @@ function ChatMessage({ message }: ChatMessageProps) {
                           {children}
                         </h3>
                       ),
-                      a: ({ href, children }) => (
-                        <a
-                          href={href}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-purple-400 hover:underline"
-                        >
-                          {children}
-                        </a>
-                      ),
+                      a: ({ href, children }) => {
+                        if (href?.startsWith(CITATION_LINK_PREFIX)) {
+                          return renderCitationMarker(
+                            Number(href.slice(CITATION_LINK_PREFIX.length)),
+                          );
+                        }
+                        return (
+                          <a
+                            href={href}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-purple-400 hover:underline"
+                          >
+                            {children}
+                          </a>
+                        );
+                      },
                       blockquote: ({ children }) => (
                         <blockquote className="border-l-2 border-purple-500 pl-3 italic text-gray-400 my-2">
                           {children}
@@ -151,39 +373,91 @@ function ChatMessage({ message }: ChatMessageProps) {
                       ),
                     }}
                   >
-                    {message.content}
+                    {linkCitationMarkers(message.content)}
                   </ReactMarkdown>
                 )}
               </>
             )}
           </div>
 
+          {/* Actions and version navigation ("< 2/3 >") */}
+          {isStored && !isEditing && (
+            <div className="mt-1 flex items-center gap-2 text-xs text-gray-500">
+              {siblingIds.length > 1 && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onSelectVersion?.(siblingIds[versionIndex - 1]!)}
+                    disabled={actionsDisabled || versionIndex <= 0}
+                    title="Previous version"
+                    className="hover:text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+                  >
+                    <IoChevronBack size={12} />
+                  </button>
+                  <span>
+                    {versionIndex + 1}/{siblingIds.length}
+                  </span>
+                  <button
+                    onClick={() => onSelectVersion?.(siblingIds[versionIndex + 1]!)}
+                    disabled={actionsDisabled || versionIndex >= siblingIds.length - 1}
+                    title="Next version"
+                    className="hover:text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+                  >
+                    <IoChevronForward size={12} />
+                  </button>
+                </div>
+              )}
+              <button
+                onClick={handleCopy}
+                title="Copy"
+                className="hover:text-gray-300 cursor-pointer"
+              >
+                <IoCopy size={12} />
+              </button>
+              {isUser && onEdit && (
+                <button
+                  onClick={startEditing}
+                  disabled={actionsDisabled}
+                  title="Edit"
+                  className="hover:text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+                >
+                  <IoCreateOutline size={13} />
+                </button>
+              )}
+              {!isUser && onRegenerate && (
+                <button
+                  onClick={() => onRegenerate(message.id)}
+                  disabled={actionsDisabled}
+                  title="Regenerate"
+                  className="hover:text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed cursor-pointer"
+                >
+                  <IoRefresh size={13} />
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Stopped by the user before the answer was complete */}
+          {!isUser && message.cancelled && (
+            <p className="mt-1 text-[10px] text-gray-500 italic">
+              Response stopped
+            </p>
+          )}
+
           {/* Citations */}
           {!isUser && message.citations && message.citations.length > 0 && (
             <div className="mt-2 space-y-1">
               <p className="text-[10px] text-gray-500 font-medium">Sources:</p>
               <div className="flex flex-wrap gap-1.5">
                 {message.citations.map((citation, index) => (
-                  <div
-                    key={index}
-                    className="flex items-center gap-1.5 bg-gray-800/60 border border-gray-700/50 rounded px-2 py-1 max-w-[180px]"
-                  >
-                    <img
-                      src={toolLogos[citation.tool]}
-                      alt={toolNames[citation.tool]}
-                      className="w-3.5 h-3.5 shrink-0"
-                    />
-                    <div className="min-w-0">
-                      <p className="text-[10px] text-gray-300 font-medium truncate leading-tight">
-                        {citation.title}
-                      </p>
-                      {citation.subtitle && (
-                        <p className="text-[9px] text-gray-500 truncate leading-tight">
-                          {citation.subtitle}
-                        </p>
-                      )}
-                    </div>
-                  </div>
+                  <CitationCard
+                    key={citation.sourceId ?? index}
+                    citation={citation}
+                    id={citationCardId(citation.number ?? index)}
+                    highlighted={
+                      citation.number !== undefined &&
+                      citation.number === highlightedCitation
+                    }
+                  />
                 ))}
               </div>
             </div>
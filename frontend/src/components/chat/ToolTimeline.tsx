@@ -0,0 +1,97 @@
+import { useState } from 'react'
+import { IoAlertCircle, IoCheckmarkCircle, IoChevronDown, IoChevronForward } from 'react-icons/io5'
+import type { ToolStep } from '../../api/chat'
+
+interface ToolTimelineProps {
+  steps: ToolStep[]
+  isStreaming?: boolean
+}
+
+// Agent tool name -> source shown in the timeline
+const toolSources: Record<string, { name: string; logo: string }> = {
+  search_gmail: { name: 'Gmail', logo: '/media/gmail.webp' },
+  search_notion: { name: 'Notion', logo: '/media/notion.webp' },
+  search_hubspot: { name: 'HubSpot', logo: '/media/hubspot.webp' },
+}
+
+// e.g. "Searched Gmail for 'invoice from Acme'"
+const describeStep = (step: ToolStep) => {
+  const source = toolSources[step.tool]?.name ?? step.tool
+  const query = typeof step.args.query === 'string' ? ` for '${step.args.query}'` : ''
+
+  switch (step.status) {
+    case 'running':
+      return `Searching ${source}${query}...`
+    case 'failed':
+      return `Couldn't search ${source}${query}`
+    default:
+      return `Searched ${source}${query}`
+  }
+}
+
+const describeResult = (step: ToolStep) => {
+  if (step.status === 'failed') return step.error ?? 'Failed'
+  if (step.resultCount === undefined) return null
+  return `${step.resultCount} ${step.resultCount === 1 ? 'result' : 'results'}`
+}
+
+function ToolTimeline({ steps, isStreaming = false }: ToolTimelineProps) {
+  // Open while the answer streams, collapsed afterwards unless the user toggles it
+  const [expanded, setExpanded] = useState<boolean | null>(null)
+  const isOpen = expanded ?? isStreaming
+
+  const runningStep = steps.find((step) => step.status === 'running')
+  const summary = runningStep
+    ? describeStep(runningStep)
+    : `Used ${steps.length} ${steps.length === 1 ? 'tool' : 'tools'}`
+
+  return (
+    <div className="px-4 pt-4 -mb-2">
+      <div className="ml-11 max-w-[80%]">
+        <button
+          onClick={() => setExpanded(!isOpen)}
+          className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-gray-300 transition-colors cursor-pointer"
+        >
+          {isOpen ? <IoChevronDown size={12} /> : <IoChevronForward size={12} />}
+          {runningStep && (
+            <div className="w-3 h-3 border-2 border-gray-500 border-t-purple-400 rounded-full animate-spin" />
+          )}
+          <span className="truncate">{summary}</span>
+        </button>
+
+        {isOpen && (
+          <ol className="mt-2 ml-1.5 border-l border-gray-700 space-y-1.5">
+            {steps.map((step) => {
+              const source = toolSources[step.tool]
+              const result = describeResult(step)
+
+              return (
+                <li key={step.id} className="flex items-center gap-2 pl-3 text-xs">
+                  {step.status === 'running' ? (
+                    <div className="w-3.5 h-3.5 shrink-0 border-2 border-gray-500 border-t-purple-400 rounded-full animate-spin" />
+                  ) : step.status === 'failed' ? (
+                    <IoAlertCircle size={14} className="shrink-0 text-red-400" />
+                  ) : (
+                    <IoCheckmarkCircle size={14} className="shrink-0 text-green-500" />
+                  )}
+                  {source && <img src={source.logo} alt={source.name} className="w-3.5 h-3.5 shrink-0" />}
+                  <span className="text-gray-300 truncate">{describeStep(step)}</span>
+                  {result && (
+                    <span className={step.status === 'failed' ? 'text-red-400 truncate' : 'shrink-0 text-gray-500'}>
+                      → {result}
+                    </span>
+                  )}
+                  {step.durationMs !== undefined && (
+                    <span className="shrink-0 text-gray-600">{(step.durationMs / 1000).toFixed(1)}s</span>
+                  )}
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ToolTimeline
@@ -2,4 +2,5 @@ export { default as ChatSidebar } from './ChatSidebar'
 export { default as ChatArea } from './ChatArea'
 export { default as ChatInput } from './ChatInput'
 export { default as ChatMessage } from './ChatMessage'
+export { default as ToolTimeline } from './ToolTimeline'
 
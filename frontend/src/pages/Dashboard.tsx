@@ -13,7 +13,12 @@ import { socketService, type Citation } from "../services/socket";
 import { IoMdAdd, IoMdCheckmark } from "react-icons/io";
 import { v4 as uuidv4 } from "uuid";
 import { oauthAPI } from "../api/oauth";
-import { chatAPI } from "../api/chat";
+import {
+  chatAPI,
+  type ChatMessage as StoredMessage,
+  type ToolStep,
+} from "../api/chat";
+import { syncAPI, type SyncJob, type SyncJobType } from "../api/sync";
 
 type DisconnectPopupType = "gmail" | "notion" | "hubspot" | null;
 
@@ -24,8 +29,23 @@ interface Message {
   timestamp: string;
   isStreaming?: boolean;
   citations?: Citation[];
+  toolSteps?: ToolStep[];
+  cancelled?: boolean;
+  // Set once the message is stored; versions of this message, itself included
+  siblingIds?: string[];
 }
 
+const toMessage = (msg: StoredMessage): Message => ({
+  id: msg.id,
+  content: msg.content,
+  role: msg.role,
+  timestamp: moment(msg.createdAt).format("h:mm A"),
+  citations: msg.citations || undefined,
+  toolSteps: msg.toolSteps || undefined,
+  cancelled: msg.cancelled,
+  siblingIds: msg.siblingIds || [msg.id],
+});
+
 function Dashboard() {
   const dispatch = useAppDispatch();
   const navigate = useNavigate();
@@ -46,11 +66,21 @@ function Dashboard() {
   const [isDisconnecting, setIsDisconnecting] = useState(false);
   const [sidebarRefreshTrigger, setSidebarRefreshTrigger] = useState(0);
   const [isLoadingChat, setIsLoadingChat] = useState(false);
+  // Latest data sync job per source
+  const [syncJobs, setSyncJobs] = useState<
+    Partial<Record<SyncJobType, SyncJob>>
+  >({});
+  // Sources whose account has to be reconnected (revoked or missing scopes)
+  const [needsReconnect, setNeedsReconnect] = useState<
+    Partial<Record<SyncJobType, boolean>>
+  >({});
 
   // Ref to track current streaming message
   const streamingMessageRef = useRef<string | null>(null);
   // Ref to track if this is the first message (new chat creation)
   const isNewChatRef = useRef<boolean>(false);
+  // Set when an edit/regenerate response is running; the branch is reloaded when it ends
+  const reloadBranchRef = useRef<boolean>(false);
   // Ref to track current conversation ID for socket handlers
   const conversationIdRef = useRef<string>(conversationId);
 
@@ -81,6 +111,11 @@ function Dashboard() {
         setIsGoogleConnected(response.data.google);
         setIsNotionConnected(response.data.notion);
         setIsHubspotConnected(response.data.hubspot);
+        setNeedsReconnect({
+          gmail: response.data.needsReconnect?.google,
+          notion: response.data.needsReconnect?.notion,
+          hubspot: response.data.needsReconnect?.hubspot,
+        });
       } catch (error) {
         console.error("Failed to fetch connection status:", error);
         toast.error("Failed to fetch connection status");
@@ -92,6 +127,40 @@ function Dashboard() {
     fetchConnectionStatus();
   }, []);
 
+  // Fetch the latest data sync jobs (live updates arrive over the socket)
+  useEffect(() => {
+    const fetchSyncJobs = async () => {
+      try {
+        const response = await syncAPI.getJobs();
+        const latest: Partial<Record<SyncJobType, SyncJob>> = {};
+        // Jobs are sorted newest first
+        for (const job of response.jobs) {
+          if (!latest[job.type]) {
+            latest[job.type] = job;
+          }
+        }
+        setSyncJobs(latest);
+      } catch (error) {
+        console.error("Failed to fetch sync jobs:", error);
+      }
+    };
+
+    fetchSyncJobs();
+  }, []);
+
+  // After an edit/regenerate, reload the branch from the server (new version counts)
+  const reloadActiveBranch = async () => {
+    if (!reloadBranchRef.current) return;
+    reloadBranchRef.current = false;
+
+    try {
+      const response = await chatAPI.getChat(conversationIdRef.current);
+      setMessages(response.messages.map(toMessage));
+    } catch (error) {
+      console.error("Failed to reload chat:", error);
+    }
+  };
+
   // Initialize Socket.IO connection with streaming support
   useEffect(() => {
     if (user?.id) {
@@ -100,7 +169,7 @@ function Dashboard() {
         setIsSocketConnected(true);
       });
 
-      socketService.connect(user.id);
+      socketService.connect();
 
       socketService.onChatJoined(() => {
         // Also set on chat-joined as backup
@@ -109,6 +178,8 @@ function Dashboard() {
 
       // Handle stream start - create placeholder message
       socketService.onStreamStart((data) => {
+        // Ignore responses of a chat the user already left
+        if (data.conversationId !== conversationIdRef.current) return;
         streamingMessageRef.current = data.id;
         const newMessage: Message = {
           id: data.id,
@@ -116,8 +187,17 @@ function Dashboard() {
           role: "assistant",
           timestamp: moment(data.timestamp).format("h:mm A"),
           isStreaming: true,
+          siblingIds: [data.id],
         };
-        setMessages((prev) => [...prev, newMessage]);
+        // The optimistic user message gets its stored id
+        setMessages((prev) => [
+          ...prev.map((msg) =>
+            msg.role === "user" && !msg.siblingIds
+              ? { ...msg, id: data.userMessageId, siblingIds: [data.userMessageId] }
+              : msg,
+          ),
+          newMessage,
+        ]);
       });
 
       // Handle stream chunks - update message content
@@ -133,18 +213,53 @@ function Dashboard() {
         }
       });
 
+      // Handle tool calls - add or update the step on the streaming message
+      const handleToolStep = (data: { id: string; step: ToolStep }) => {
+        if (streamingMessageRef.current === data.id) {
+          setMessages((prev) =>
+            prev.map((msg) => {
+              if (msg.id !== data.id) return msg;
+              const steps = msg.toolSteps || [];
+              const exists = steps.some((step) => step.id === data.step.id);
+              return {
+                ...msg,
+                toolSteps: exists
+                  ? steps.map((step) =>
+                      step.id === data.step.id ? data.step : step,
+                    )
+                  : [...steps, data.step],
+              };
+            }),
+          );
+        }
+      };
+      socketService.onToolStart(handleToolStep);
+      socketService.onToolEnd(handleToolStep);
+
       // Handle stream end - finalize message with citations
       socketService.onStreamEnd((data) => {
         if (streamingMessageRef.current === data.id) {
           setMessages((prev) =>
             prev.map((msg) =>
               msg.id === data.id
-                ? { ...msg, isStreaming: false, citations: data.citations }
+                ? {
+                    ...msg,
+                    content: data.content ?? msg.content,
+                    isStreaming: false,
+                    citations: data.citations,
+                    cancelled: data.cancelled,
+                  }
                 : msg,
             ),
           );
           streamingMessageRef.current = null;
           setIsLoading(false);
+          if (data.saved === false) {
+            // Reloading the branch would drop the reply, which only exists here
+            toast.error("This reply could not be saved and will be lost when you leave the chat.");
+          } else {
+            reloadActiveBranch();
+          }
 
           // Only refresh sidebar and update URL when a new chat was created (first message)
           if (isNewChatRef.current) {
@@ -167,9 +282,25 @@ function Dashboard() {
         };
         setMessages((prev) => [...prev, errorMessage]);
         streamingMessageRef.current = null;
+        reloadBranchRef.current = false;
         setIsLoading(false);
       });
 
+      // Handle data sync job updates - keep the newest job per source
+      socketService.onSyncJobUpdated((job) => {
+        setSyncJobs((prev) => {
+          const current = prev[job.type];
+          if (
+            current &&
+            current.id !== job.id &&
+            moment(current.createdAt).isAfter(job.createdAt)
+          ) {
+            return prev;
+          }
+          return { ...prev, [job.type]: job };
+        });
+      });
+
       // Legacy handler (fallback)
       socketService.onReceiveMessage((message) => {
         const formattedMessage: Message = {
@@ -186,18 +317,85 @@ function Dashboard() {
         socketService.offReceiveMessage();
         socketService.offChatJoined();
         socketService.offStreamEvents();
+        socketService.offSyncJobUpdated();
         socketService.disconnect();
       };
     }
   }, [user?.id]);
 
+  // Small sync status label shown next to a connected source
+  const renderSyncStatus = (type: SyncJobType) => {
+    const job = syncJobs[type];
+    if (needsReconnect[type] && job?.status !== "running") {
+      return (
+        <span
+          className="text-xs text-yellow-400"
+          title="Access is missing or was revoked: disconnect and connect the account again"
+        >
+          Reconnect needed
+        </span>
+      );
+    }
+    if (!job || job.status === "completed") return null;
+
+    if (job.status === "failed") {
+      return (
+        <span
+          className="text-xs text-red-400"
+          title={job.lastError || undefined}
+        >
+          Sync failed
+        </span>
+      );
+    }
+
+    if (job.status === "queued") {
+      return (
+        <span
+          className="text-xs text-gray-400"
+          title={job.lastError || undefined}
+        >
+          {job.attempts > 0 ? "Retrying..." : "Queued"}
+        </span>
+      );
+    }
+
+    const progress = job.progress;
+    const done = progress
+      ? progress.processed + progress.deleted + progress.skipped + progress.failed
+      : 0;
+    return (
+      <span className="text-xs text-gray-300 flex items-center gap-1">
+        <span className="inline-block w-3 h-3 border-2 border-gray-500 border-t-white rounded-full animate-spin" />
+        {progress && progress.total > 0
+          ? `${done}/${progress.total}`
+          : "Syncing"}
+      </span>
+    );
+  };
+
   const handleLogout = () => {
     dispatch(logout());
     toast.success("Logged out successfully!");
     navigate("/login");
   };
 
+  // Stop the response still being generated for the current chat
+  const handleStopResponse = () => {
+    if (isLoading) {
+      socketService.cancelMessage(conversationIdRef.current);
+    }
+  };
+
+  // Leaving a chat stops its response; its remaining stream events are ignored
+  const abandonResponse = () => {
+    handleStopResponse();
+    streamingMessageRef.current = null;
+    setIsLoading(false);
+  };
+
   const handleNewChat = () => {
+    abandonResponse();
     setMessages([]);
     const newConversationId = uuidv4();
     setConversationId(newConversationId);
@@ -209,20 +407,14 @@ function Dashboard() {
   const handleSelectChat = async (chatId: string) => {
     if (chatId === selectedChatId) return;
 
+    abandonResponse();
     setSelectedChatId(chatId);
     setIsLoadingChat(true);
     navigate(`/dashboard/${chatId}`, { replace: true }); // Update URL with chat ID
 
     try {
       const response = await chatAPI.getChat(chatId);
-      const formattedMessages: Message[] = response.messages.map((msg) => ({
-        id: msg.id,
-        content: msg.content,
-        role: msg.role,
-        timestamp: moment(msg.createdAt).format("h:mm A"),
-        citations: msg.citations || undefined,
-      }));
-      setMessages(formattedMessages);
+      setMessages(response.messages.map(toMessage));
       setConversationId(chatId); // Use the chat ID as the conversation ID
       isNewChatRef.current = false; // Existing chat, no sidebar refresh needed
     } catch (error: any) {
@@ -269,65 +461,88 @@ function Dashboard() {
 
     setIsLoading(true);
 
-    // Send message through WebSocket with userId, message, and conversationId
-    socketService.sendMessage(content, user.id, conversationId);
+    // Send message through WebSocket; the server identifies the user from the socket's JWT
+    socketService.sendMessage(content, conversationId);
+  };
+
+  // Regenerate an answer: the branch is cut after its question and a new version streams in
+  const handleRegenerate = (messageId: string) => {
+    if (isLoading || !isSocketConnected) return;
+
+    setMessages((prev) =>
+      prev.slice(
+        0,
+        prev.findIndex((msg) => msg.id === messageId),
+      ),
+    );
+    reloadBranchRef.current = true;
+    setIsLoading(true);
+    socketService.regenerateMessage(conversationId, messageId);
+  };
+
+  // Edit a question: the edited version replaces it (and everything after it) on a new branch
+  const handleEditMessage = (messageId: string, content: string) => {
+    if (isLoading || !isSocketConnected) return;
+
+    const editedMessage: Message = {
+      id: `msg-${Date.now()}-user`,
+      content,
+      role: "user",
+      timestamp: moment().format("h:mm A"),
+    };
+    setMessages((prev) => [
+      ...prev.slice(
+        0,
+        prev.findIndex((msg) => msg.id === messageId),
+      ),
+      editedMessage,
+    ]);
+    reloadBranchRef.current = true;
+    setIsLoading(true);
+    socketService.editMessage(conversationId, messageId, content);
+  };
+
+  // Show another version of a message (and the conversation that followed it)
+  const handleSelectVersion = async (messageId: string) => {
+    if (isLoading) return;
+
+    try {
+      const response = await chatAPI.setActiveMessage(conversationId, messageId);
+      setMessages(response.messages.map(toMessage));
+    } catch (error) {
+      console.error("Failed to switch message version:", error);
+      toast.error("Failed to switch to that version");
+    }
   };
 
-  const handleGoogleConnect = async () => {
+  const handleGoogleConnect = () => {
     if (isGoogleConnected) {
       setDisconnectPopup("gmail");
       return;
     }
 
-    try {
-      const response = await oauthAPI.initiateGoogleOAuth();
-      // Redirect to Google OAuth consent screen
-      window.location.href = response.authUrl;
-    } catch (error: any) {
-      console.error("Failed to initiate Google OAuth:", error);
-      const errorMessage =
-        error.response?.data?.message ||
-        "Failed to connect Google. Please try again.";
-      toast.error(errorMessage);
-    }
+    // Leaves the app for the Google OAuth consent screen; failures come back on the callback page
+    oauthAPI.initiateGoogleOAuth();
   };
 
-  const handleNotionConnect = async () => {
+  const handleNotionConnect = () => {
     if (isNotionConnected) {
       setDisconnectPopup("notion");
       return;
     }
 
-    try {
-      const response = await oauthAPI.initiateNotionOAuth();
-      // Redirect to Notion OAuth consent screen
-      window.location.href = response.authUrl;
-    } catch (error: any) {
-      console.error("Failed to initiate Notion OAuth:", error);
-      const errorMessage =
-        error.response?.data?.message ||
-        "Failed to connect Notion. Please try again.";
-      toast.error(errorMessage);
-    }
+    // Leaves the app for the Notion OAuth consent screen; failures come back on the callback page
+    oauthAPI.initiateNotionOAuth();
   };
 
-  const handleHubspotConnect = async () => {
+  const handleHubspotConnect = () => {
     if (isHubspotConnected) {
       setDisconnectPopup("hubspot");
       return;
     }
 
-    try {
-      const response = await oauthAPI.initiateHubspotOAuth();
-      // Redirect to HubSpot OAuth consent screen
-      window.location.href = response.authUrl;
-    } catch (error: any) {
-      console.error("Failed to initiate HubSpot OAuth:", error);
-      const errorMessage =
-        error.response?.data?.message ||
-        "Failed to connect HubSpot. Please try again.";
-      toast.error(errorMessage);
-    }
+    // Leaves the app for the HubSpot OAuth consent screen; failures come back on the callback page
+    oauthAPI.initiateHubspotOAuth();
   };
 
   const handleDisconnect = async (type: DisconnectPopupType) => {
@@ -386,7 +601,7 @@ function Dashboard() {
         return {
           title: "Disconnect HubSpot",
           message:
-            "Are you sure you want to disconnect HubSpot? This will remove your HubSpot connection.",
+            "Are you sure you want to disconnect HubSpot? This will remove all your synced CRM data.",
           icon: "/media/hubspot.webp",
           iconSize: "w-8 h-8",
         };
@@ -483,6 +698,7 @@ function Dashboard() {
                     <IoMdAdd size={18} />
                   )}
                   <img src="/media/gmail.webp" className="w-8 h-8" alt="" />
+                  {isGoogleConnected && renderSyncStatus("gmail")}
                 </div>
                 <div
                   onClick={handleNotionConnect}
@@ -496,6 +712,7 @@ function Dashboard() {
                     <IoMdAdd size={18} />
                   )}
                   <img src="/media/notion.webp" className="w-6 h-6" alt="" />
+                  {isNotionConnected && renderSyncStatus("notion")}
                 </div>
                 <div
                   onClick={handleHubspotConnect}
@@ -509,6 +726,7 @@ function Dashboard() {
                     <IoMdAdd size={18} />
                   )}
                   <img src="/media/hubspot.webp" className="w-6 h-6" alt="" />
+                  {isHubspotConnected && renderSyncStatus("hubspot")}
                 </div>
               </div>
 
@@ -541,10 +759,18 @@ function Dashboard() {
               <div className="w-8 h-8 border-2 border-gray-600 border-t-purple-500 rounded-full animate-spin" />
             </div>
           ) : (
-            <ChatArea messages={messages} isLoading={isLoading} />
+            <ChatArea
+              messages={messages}
+              isLoading={isLoading}
+              onRegenerate={handleRegenerate}
+              onEditMessage={handleEditMessage}
+              onSelectVersion={handleSelectVersion}
+            />
           )}
           <ChatInput
             onSendMessage={handleSendMessage}
+            onStop={handleStopResponse}
+            isStreaming={isLoading}
             disabled={isLoading || isLoadingChat}
           />
         </div>
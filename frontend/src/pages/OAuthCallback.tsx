@@ -9,6 +9,8 @@ function OAuthCallback() {
   useEffect(() => {
     const provider = searchParams.get("provider");
     const success = searchParams.get("success");
+    // Set when the connection could not be started (e.g. the provider is not configured)
+    const error = searchParams.get("error");
 
     if (success === "true" && provider) {
       toast.success(
@@ -19,7 +21,7 @@ function OAuthCallback() {
         navigate("/dashboard");
       }, 1000);
     } else {
-      toast.error("OAuth connection failed. Please try again.");
+      toast.error(error || "OAuth connection failed. Please try again.");
       setTimeout(() => {
         navigate("/dashboard");
       }, 2000);
@@ -1,16 +1,18 @@
 import { io, Socket } from "socket.io-client";
 import { v4 as uuidv4 } from "uuid";
+import type { SyncJob } from "../api/sync";
+import type { Citation, ToolStep } from "../api/chat";
 
 const SOCKET_URL = import.meta.env.VITE_API_BASE_URL || "http://localhost:4000";
 
-export interface Citation {
-  tool: "notion" | "gmail" | "hubspot";
-  title: string;
-  subtitle?: string;
-}
+export type { Citation };
 
 interface StreamStart {
   id: string;
+  conversationId: string;
+  // The question being answered and the message before it on the branch
+  userMessageId: string;
+  parentMessageId: string | null;
   timestamp: string;
 }
 
@@ -22,25 +24,28 @@ interface StreamChunk {
 
 interface StreamEnd {
   id: string;
+  // Final answer: citation markers that refer to no returned source are removed
+  content?: string;
   citations?: Citation[];
+  cancelled?: boolean;
+  // False when the server could not store the turn
+  saved?: boolean;
+}
+
+interface ToolStepEvent {
+  id: string;
+  step: ToolStep;
 }
 
 class SocketService {
   private socket: Socket | null = null;
   private isConnected: boolean = false;
-  private userId: string | null = null;
   private onConnectCallback: (() => void) | null = null;
 
-  connect(userId?: string): Socket {
-    if (userId) {
-      this.userId = userId;
-    }
-
+  connect(): Socket {
     if (this.socket?.connected) {
       // Already connected, emit join-chat again and trigger callback
-      if (this.userId) {
-        this.socket.emit("join-chat", this.userId);
-      }
+      this.socket.emit("join-chat");
       if (this.onConnectCallback) {
         this.onConnectCallback();
       }
@@ -50,15 +55,15 @@ class SocketService {
     this.socket = io(SOCKET_URL, {
       transports: ["websocket", "polling"],
       autoConnect: true,
+      // The server binds the socket to the user in this JWT; read it on every (re)connect
+      auth: (cb) => cb({ token: localStorage.getItem("auth_token") }),
     });
 
     this.socket.on("connect", () => {
       console.log("✅ Socket connected");
       this.isConnected = true;
       
-      if (this.userId) {
-        this.socket?.emit("join-chat", this.userId);
-      }
+      this.socket?.emit("join-chat");
       
       // Trigger the connect callback if set
       if (this.onConnectCallback) {
@@ -103,11 +108,10 @@ class SocketService {
     return this.isConnected && this.socket?.connected === true;
   }
 
-  sendMessage(message: string, userId: string, conversationId?: string) {
+  sendMessage(message: string, conversationId?: string) {
     if (this.socket?.connected) {
       const payload = {
         message, 
-        userId, 
         conversationId: conversationId || uuidv4()
       };
       this.socket.emit("send-message", payload);
@@ -116,6 +120,21 @@ class SocketService {
     }
   }
 
+  // Send an edited version of a user message; it is answered on a new branch
+  editMessage(conversationId: string, messageId: string, message: string) {
+    this.socket?.emit("edit-message", { conversationId, messageId, message });
+  }
+
+  // Answer the question of an assistant message again, as a new version of it
+  regenerateMessage(conversationId: string, messageId: string) {
+    this.socket?.emit("regenerate-message", { conversationId, messageId });
+  }
+
+  // Stop the response being generated for a conversation; it still ends with "stream-end"
+  cancelMessage(conversationId: string) {
+    this.socket?.emit("cancel-message", { conversationId });
+  }
+
   // Legacy non-streaming handler
   onReceiveMessage(callback: (message: any) => void) {
     this.socket?.on("receive-message", callback);
@@ -142,6 +161,24 @@ class SocketService {
     this.socket?.on("stream-error", callback);
   }
 
+  // Agent tool calls of the streaming message ("tool-end" carries duration and result count)
+  onToolStart(callback: (data: ToolStepEvent) => void) {
+    this.socket?.on("tool-start", callback);
+  }
+
+  onToolEnd(callback: (data: ToolStepEvent) => void) {
+    this.socket?.on("tool-end", callback);
+  }
+
+  // Background data sync job updates (queued, progress, completed, failed)
+  onSyncJobUpdated(callback: (job: SyncJob) => void) {
+    this.socket?.on("sync-job-updated", callback);
+  }
+
+  offSyncJobUpdated() {
+    this.socket?.off("sync-job-updated");
+  }
+
   offReceiveMessage() {
     this.socket?.off("receive-message");
   }
@@ -155,6 +192,8 @@ class SocketService {
     this.socket?.off("stream-chunk");
     this.socket?.off("stream-end");
     this.socket?.off("stream-error");
+    this.socket?.off("tool-start");
+    this.socket?.off("tool-end");
   }
 }
 